@@ -2,15 +2,37 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { CodeEditor } from './components/CodeEditor';
 import { CoverageChart } from './components/CoverageChart';
 import { RepoExplorer } from './components/RepoExplorer';
+import { RepoDashboard } from './components/RepoDashboard';
+import { PullRequestPanel } from './components/PullRequestPanel';
+import { RefSelector } from './components/RefSelector';
+import { RefComparisonPanel } from './components/RefComparisonPanel';
+import { DependencyGraphPanel } from './components/DependencyGraphPanel';
+import { SettingsPanel } from './components/SettingsPanel';
 import { OAuthButton } from './components/OAuthButton';
 import { OAuthModal } from './components/OAuthModal';
 import { OAuthPanel } from './components/OAuthPanel';
 import { OAuthNotification, NotificationType } from './components/OAuthNotification';
 import { analyzeFlutterCoverageStatic, generateMissingTestsStatic } from './services/analysisEngine';
-import { GithubService, parseRepoUrl } from './services/githubService';
+import { GithubService, parsePullRequestInput } from './services/githubService';
+import { parseRepoUrl } from './services/sourceProvider';
+import { PROVIDER_LABELS, createSourceProvider } from './services/providerFactory';
+import { githubClient } from './services/githubClient';
+import { contentCache } from './services/contentCache';
+import { LOCAL_URL_PREFIX, LocalDirectoryHandle, LocalEntry, LocalSource, createLocalSource, entriesFromDirectoryHandle, entriesFromFileList, readZipArchive } from './services/browserSource';
+import { getGithubHost, setGithubHost } from './services/githubHost';
+import { findLcovFile, parseLcov } from './services/lcovService';
+import { ContentLoader, scanRepository } from './services/repoScanService';
+import { buildRepoImportGraph, importGraphStore } from './services/importGraph';
+import { fetchChurn, scoreRisk } from './services/riskScore';
+import { parsePubspecDependencies } from './services/repoStructure';
+import { analyzePullRequest } from './services/pullRequestAnalysis';
+import { compareRefs } from './services/refComparison';
 import { oauthService } from './services/oauthService';
 import { GITHUB_PERMISSIONS, APP_METADATA, isOAuthConfigured } from './services/oauthConfig';
-import { AnalysisReport, AnalysisStatus, GeneratedTestResponse, RepoStructure, FilePair, PackageDependencies, DeepAnalysisContext, FunctionMetadata } from './types';
+import { AnalysisReport, AnalysisStatus, GeneratedTestResponse, RepoStructure, RepoFile, FilePair, PackageDependencies, DeepAnalysisContext, FunctionMetadata, OwnerKind, CoverageStrength, CoverageDisagreement, LcovReport, RepoCoverageReport, ScanProgress, PullRequestReport, GitRef, GitRefType, RefComparison, RateLimitInfo, SourceProviderKind, ImportGraph, ChurnReport } from './types';
+
+// Enough pairs in flight that batched GraphQL loads fill whole requests
+const BATCHED_SCAN_CONCURRENCY = 25;
 
 const Icons = {
     Github: () => <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path fillRule="evenodd" d="M12 2C6.477 2 2 6.484 2 12.017c0 4.425 2.865 8.18 6.839 9.504.5.092.682-.217.682-.483 0-.237-.008-.868-.013-1.703-2.782.605-3.369-1.343-3.369-1.343-.454-1.158-1.11-1.466-1.11-1.466-.908-.62.069-.608.069-.608 1.003.07 1.531 1.032 1.531 1.032.892 1.53 2.341 1.088 2.91.832.092-.647.35-1.088.636-1.338-2.22-.253-4.555-1.113-4.555-4.951 0-1.093.39-1.988 1.029-2.688-.103-.253-.446-1.272.098-2.65 0 0 .84-.27 2.75 1.026A9.564 9.564 0 0112 6.844c.85.004 1.705.115 2.504.337 1.909-1.296 2.747-1.027 2.747-1.027.546 1.379.202 2.398.1 2.651.64.7 1.028 1.595 1.028 2.688 0 3.848-2.339 4.695-4.566 4.943.359.309.678.92.678 1.855 0 1.338-.012 2.419-.012 2.747 0 .268.18.58.688.482A10.019 10.019 0 0022 12.017C22 6.484 17.522 2 12 2z" clipRule="evenodd" /></svg>,
@@ -20,7 +42,28 @@ const Icons = {
     XCircle: () => <svg className="w-4 h-4 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>,
 };
 
-const DEFAULT_DEPENDENCIES: PackageDependencies = { hasBlocTest: false, hasFreezed: false, hasMocktail: false, hasMockito: false, hasRiverpod: false, hasAutoRoute: false, hasHive: false };
+const OWNER_KIND_LABELS: Record<OwnerKind, string> = {
+    class: 'class',
+    mixin: 'mixin',
+    extension: 'ext',
+    extensionType: 'ext type',
+    enum: 'enum',
+    topLevel: 'lib',
+};
+
+const STRENGTH_STYLES: Record<CoverageStrength, string> = {
+    strong: 'text-emerald-400 bg-emerald-500/10 border-emerald-500/20',
+    partial: 'text-amber-400 bg-amber-500/10 border-amber-500/20',
+    weak: 'text-orange-400 bg-orange-500/10 border-orange-500/20',
+    none: 'text-red-400 bg-red-500/10 border-red-500/20',
+};
+
+const DISAGREEMENT_LABELS: Record<CoverageDisagreement, { label: string; title: string }> = {
+    staticOnly: { label: '0 hits', title: 'Tests reference this method but lcov recorded no executed lines' },
+    measuredOnly: { label: 'indirect', title: 'lcov shows this method ran, but no test calls it directly' },
+};
+
+const DEFAULT_DEPENDENCIES: PackageDependencies = parsePubspecDependencies('');
 
 // --- Sub-Component: Interactive Result Card ---
 const FunctionReportCard = ({ fn, index }: { fn: FunctionMetadata; index: number }) => {
@@ -37,12 +80,30 @@ const FunctionReportCard = ({ fn, index }: { fn: FunctionMetadata; index: number
                 <div className="flex items-center gap-3 min-w-0">
                     {fn.isTested ? <Icons.CheckCircle /> : <Icons.XCircle />}
                     <div className="flex flex-col min-w-0">
-                        <span className="text-xs font-mono text-zinc-200 truncate">{fn.name}</span>
+                        <span className="text-xs font-mono text-zinc-200 truncate">
+                            {fn.name}
+                            {fn.isStatic && <span className="ml-1.5 text-[8px] uppercase text-zinc-600">static</span>}
+                        </span>
                         <span className="text-[10px] text-zinc-500 truncate">{fn.signature.substring(0, 30)}...</span>
                     </div>
                 </div>
-                <div className={`transform transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`}>
-                    <Icons.ChevronDown />
+                <div className="flex items-center gap-2 shrink-0">
+                    {fn.complexity > 1 && (
+                        <span className="text-[8px] font-mono text-zinc-500" title="Cyclomatic complexity">CC {fn.complexity}</span>
+                    )}
+                    {fn.disagreement && (
+                        <span className="text-[8px] font-mono uppercase px-1 py-0.5 rounded border text-fuchsia-400 bg-fuchsia-500/10 border-fuchsia-500/20" title={DISAGREEMENT_LABELS[fn.disagreement].title}>
+                            {DISAGREEMENT_LABELS[fn.disagreement].label}
+                        </span>
+                    )}
+                    {fn.isTested && (
+                        <span className={`text-[8px] font-mono uppercase px-1 py-0.5 rounded border ${STRENGTH_STYLES[fn.strength]}`} title={`Assertion strength ${fn.strengthScore}/100`}>
+                            {fn.strength}
+                        </span>
+                    )}
+                    <div className={`transform transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`}>
+                        <Icons.ChevronDown />
+                    </div>
                 </div>
             </div>
 
@@ -52,6 +113,11 @@ const FunctionReportCard = ({ fn, index }: { fn: FunctionMetadata; index: number
                         <p className="mb-1 text-zinc-500 uppercase text-[9px] font-bold">Analysis</p>
                         {fn.reason || "No specific details provided."}
                     </div>
+                    {fn.measured && (
+                        <div className="mt-2 text-[10px] font-mono text-zinc-500">
+                            lcov: {fn.measured.linesHit}/{fn.measured.linesFound} lines hit (L{fn.lineStart}-{fn.lineEnd})
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
@@ -67,6 +133,32 @@ export default function App() {
     const [selectedPair, setSelectedPair] = useState<FilePair | null>(null);
     const [deepScanEnabled, setDeepScanEnabled] = useState(false);
     const [deepContext, setDeepContext] = useState<DeepAnalysisContext | undefined>(undefined);
+    const [lcovReport, setLcovReport] = useState<LcovReport | null>(null);
+    const [gitRefs, setGitRefs] = useState<GitRef[]>([]);
+    const [defaultBranch, setDefaultBranch] = useState<string | undefined>(undefined);
+    const [rateLimit, setRateLimit] = useState<RateLimitInfo | null>(githubClient.getRateLimit());
+    const [githubHostUrl, setGithubHostUrl] = useState(getGithubHost().webUrl);
+    const [localSource, setLocalSource] = useState<LocalSource | null>(null);
+    const [providerTokens, setProviderTokens] = useState<Record<'gitlab' | 'bitbucket', string>>({ gitlab: '', bitbucket: '' });
+
+    // Repository Scan State
+    const [mainView, setMainView] = useState<'editor' | 'dashboard' | 'pullRequest' | 'compare' | 'graph'>('editor');
+    const [repoReport, setRepoReport] = useState<RepoCoverageReport | null>(null);
+    const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+    const [churn, setChurn] = useState<ChurnReport | null>(null);
+    const [churnProgress, setChurnProgress] = useState<ScanProgress | null>(null);
+
+    // Pull Request State
+    const [prInput, setPrInput] = useState('');
+    const [prReport, setPrReport] = useState<PullRequestReport | null>(null);
+    const [prStructure, setPrStructure] = useState<RepoStructure | null>(null);
+
+    // Ref Comparison State
+    const [comparison, setComparison] = useState<RefComparison | null>(null);
+    const [comparedStructures, setComparedStructures] = useState<{ base: RepoStructure; head: RepoStructure } | null>(null);
+
+    // Dependency Graph State
+    const [importGraph, setImportGraph] = useState<ImportGraph | null>(null);
 
     // OAuth State
     const [isOAuthModalOpen, setIsOAuthModalOpen] = useState(false);
@@ -90,6 +182,7 @@ export default function App() {
     const [sidebarWidth, setSidebarWidth] = useState(260);
     const [reportWidth, setReportWidth] = useState(320);
     const [isResizing, setIsResizing] = useState<'left' | 'right' | null>(null);
+    const folderInputRef = useRef<HTMLInputElement | null>(null);
 
     // --- Logic ---
 
@@ -98,6 +191,10 @@ export default function App() {
         const storedRepo = localStorage.getItem('sentinel_gh_repo');
         if (storedToken) setGhToken(storedToken);
         if (storedRepo) setRepoUrl(storedRepo);
+        setProviderTokens({
+            gitlab: localStorage.getItem('sentinel_gitlab_token') || '',
+            bitbucket: localStorage.getItem('sentinel_bitbucket_token') || ''
+        });
 
         // Check OAuth authentication
         setIsAuthenticated(oauthService.isAuthenticated());
@@ -107,6 +204,9 @@ export default function App() {
         }
     }, []);
 
+    // GitHub quota, refreshed from the headers of every API response
+    useEffect(() => githubClient.subscribe(setRateLimit), []);
+
     // Resizing Logic
     const startResizing = (direction: 'left' | 'right') => (e: React.MouseEvent) => {
         e.preventDefault();
@@ -139,7 +239,18 @@ export default function App() {
 
 
     // API Calls
-    const loadRepo = async () => {
+    // Tokens are only ever sent to the provider that issued them
+    const createProvider = (kind: SourceProviderKind) =>
+        createSourceProvider(kind, kind === 'github' ? ghToken : providerTokens[kind]);
+
+    const handleProviderTokenChange = (kind: 'gitlab' | 'bitbucket', token: string) => {
+        setProviderTokens(tokens => ({ ...tokens, [kind]: token }));
+        if (token) localStorage.setItem(`sentinel_${kind}_token`, token);
+        else localStorage.removeItem(`sentinel_${kind}_token`);
+    };
+
+    // Without a ref this loads the default branch and refreshes the ref list
+    const loadRepo = async (ref?: { name: string; type: GitRefType }) => {
         if (!repoUrl) return;
         const parsed = parseRepoUrl(repoUrl);
         if (!parsed) return setErrorMsg('Invalid URL');
@@ -149,17 +260,270 @@ export default function App() {
         setErrorMsg('');
         setStatus(AnalysisStatus.LOADING_REPO);
         try {
-            const service = new GithubService(ghToken);
-            const structure = await service.fetchRepoTree(parsed.owner, parsed.repo);
+            const service = createProvider(parsed.provider);
+            const structure = await service.fetchRepoTree(parsed.owner, parsed.repo, ref?.name, ref?.type);
+            if (!ref) {
+                setDefaultBranch(structure.ref?.name);
+                // The picker is optional; a failed listing should not block loading the tree
+                service.fetchRefs(parsed.owner, parsed.repo).then(setGitRefs, () => setGitRefs([]));
+            }
             setRepoStructure(structure);
+            setLocalSource(null);
+            setRepoReport(null);
+            setChurn(null);
+            setImportGraph(null);
+            if (structure.treeStats?.truncated) {
+                showNotification(structure.treeStats.complete ? 'info' : 'error', structure.treeStats.complete
+                    ? `Large repository: walked the truncated tree in ${structure.treeStats.requests} requests, ${structure.treeStats.totalFiles} files found.`
+                    : `Repository too large to list fully: ${structure.treeStats.totalFiles} files found, some directories were skipped.`);
+            }
+            setMainView('editor');
+            setLcovReport(structure.coverageFiles.length > 0 ? await service.fetchCoverageReport(structure.coverageFiles) : null);
             setStatus(AnalysisStatus.IDLE);
+
+            // Switching refs keeps the open file, re-read at the new commit
+            const reopened = ref && selectedPair ? structure.pairs.find(p => p.id === selectedPair.id) : undefined;
+            if (reopened) handleSelectPair(reopened);
         } catch (e: any) {
             setErrorMsg(e.message || "Failed to load repository");
             setStatus(AnalysisStatus.ERROR);
         }
     };
 
-    const handleSelectPair = async (pair: FilePair) => {
+    // Reads files of the loaded repository, batched at its commit when the provider allows
+    const createRepoLoader = (structure: RepoStructure): ContentLoader => {
+        if (localSource) return localSource.readFile;
+        const parsed = parseRepoUrl(repoUrl);
+        const service = createProvider(parsed?.provider ?? 'github');
+        return parsed && structure.ref
+            ? service.createContentLoader(parsed.owner, parsed.repo, structure.ref.sha)
+            : (file: RepoFile) => service.fetchFileContent(file.url);
+    };
+
+    // The graph view offers a scan too, and should stay open while it runs
+    const handleScanRepo = async (view: 'dashboard' | 'graph' = 'dashboard') => {
+        if (!repoStructure) return;
+        setErrorMsg('');
+        setRepoReport(null);
+        setChurn(null);
+        setMainView(view);
+        setStatus(AnalysisStatus.SCANNING_REPO);
+        try {
+            const result = await scanRepository(repoStructure, createRepoLoader(repoStructure), {
+                lcov: lcovReport,
+                onProgress: setScanProgress,
+                concurrency: ghToken ? BATCHED_SCAN_CONCURRENCY : undefined
+            });
+            setRepoReport(result);
+            setStatus(AnalysisStatus.IDLE);
+        } catch (e: any) {
+            setErrorMsg(e.message || "Repository scan failed");
+            setMainView('editor');
+            setStatus(AnalysisStatus.ERROR);
+        } finally {
+            setScanProgress(null);
+        }
+    };
+
+    // Commit counts come from the GitHub commits API, one request per file with untested functions
+    const handleLoadChurn = async () => {
+        const parsed = parseRepoUrl(repoUrl);
+        const sha = repoStructure?.ref?.sha;
+        if (!repoReport || !sha || parsed?.provider !== 'github') return;
+        setErrorMsg('');
+        try {
+            const service = new GithubService(ghToken);
+            const paths = scoreRisk(repoReport.files).map(risk => risk.path);
+            setChurn(await fetchChurn(paths, (path, since) => service.fetchCommitCount(parsed.owner, parsed.repo, path, sha, since), {
+                onProgress: setChurnProgress
+            }));
+        } catch (e: any) {
+            setErrorMsg(e.message || "Failed to read commit history");
+        } finally {
+            setChurnProgress(null);
+        }
+    };
+
+    const handleOpenGraph = async () => {
+        if (!repoStructure) return;
+        setErrorMsg('');
+        setMainView('graph');
+        if (importGraph) return;
+        setStatus(AnalysisStatus.BUILDING_GRAPH);
+        try {
+            const build = () => buildRepoImportGraph(repoStructure, createRepoLoader(repoStructure), {
+                concurrency: ghToken ? BATCHED_SCAN_CONCURRENCY : undefined
+            });
+            // Local projects have no commit to key on and may change between opens
+            const parsed = parseRepoUrl(repoUrl);
+            const graph = !localSource && parsed && repoStructure.ref
+                ? await importGraphStore.load(`${parsed.provider}:${parsed.owner}/${parsed.repo}@${repoStructure.ref.sha}`, build)
+                : await build();
+            setImportGraph(graph);
+            setStatus(AnalysisStatus.IDLE);
+        } catch (e: any) {
+            setErrorMsg(e.message || "Failed to read imports");
+            setMainView('editor');
+            setStatus(AnalysisStatus.ERROR);
+        }
+    };
+
+    // Selecting from the graph keeps it open so neighbouring files stay in view
+    const handleSelectGraphFile = (pairId: string) => {
+        const pair = repoStructure?.pairs.find(p => p.id === pairId);
+        if (pair) handleSelectPair(pair);
+    };
+
+    const handleSelectScannedFile = (pairId: string) => {
+        const pair = repoStructure?.pairs.find(p => p.id === pairId);
+        if (!pair) return;
+        setMainView('editor');
+        handleSelectPair(pair);
+    };
+
+    const handleAnalyzePullRequest = async () => {
+        const current = parseRepoUrl(repoUrl);
+        const target = parsePullRequestInput(prInput, current?.provider === 'github' ? current : null);
+        if (!target && current && current.provider !== 'github') {
+            return setErrorMsg(`Pull request mode is only available for GitHub, not ${PROVIDER_LABELS[current.provider]}. Enter a GitHub pull request URL.`);
+        }
+        if (!target) return setErrorMsg('Invalid pull request. Use a PR URL, owner/repo#123 or a number for the loaded repo.');
+
+        setErrorMsg('');
+        setPrReport(null);
+        setMainView('pullRequest');
+        setStatus(AnalysisStatus.ANALYZING_PR);
+        try {
+            const service = new GithubService(ghToken);
+            const pullRequest = await service.fetchPullRequest(target.owner, target.repo, target.number);
+            const [changedFiles, headStructure] = await Promise.all([
+                service.fetchPullRequestFiles(target.owner, target.repo, target.number),
+                // Pair against the head revision so new files and tests are visible
+                service.fetchRepoTree(pullRequest.headOwner, pullRequest.headRepo, pullRequest.headSha)
+            ]);
+            const loadContent = service.createContentLoader(pullRequest.headOwner, pullRequest.headRepo, pullRequest.headSha);
+            const result = await analyzePullRequest(pullRequest, changedFiles, headStructure, loadContent, ghToken ? BATCHED_SCAN_CONCURRENCY : undefined);
+            setPrStructure(headStructure);
+            setPrReport(result);
+            setStatus(AnalysisStatus.IDLE);
+        } catch (e: any) {
+            setErrorMsg(e.message || "Pull request analysis failed");
+            setMainView('editor');
+            setStatus(AnalysisStatus.ERROR);
+        }
+    };
+
+    const handleSelectPullRequestFile = (pairId: string) => {
+        const pair = prStructure?.pairs.find(p => p.id === pairId);
+        if (!pair) return;
+        setMainView('editor');
+        handleSelectPair(pair, 'github');
+    };
+
+    const handleCompareRefs = async (base: { name: string; type: GitRefType }, head: { name: string; type: GitRefType }) => {
+        const parsed = parseRepoUrl(repoUrl);
+        if (!parsed) return setErrorMsg('Invalid URL');
+
+        setErrorMsg('');
+        setComparison(null);
+        setStatus(AnalysisStatus.COMPARING_REFS);
+        try {
+            const service = createProvider(parsed.provider);
+            const [baseStructure, headStructure] = await Promise.all([
+                service.fetchRepoTree(parsed.owner, parsed.repo, base.name, base.type),
+                service.fetchRepoTree(parsed.owner, parsed.repo, head.name, head.type)
+            ]);
+            const result = await compareRefs(baseStructure, headStructure, (file) => service.fetchFileContent(file.url));
+            setComparedStructures({ base: baseStructure, head: headStructure });
+            setComparison(result);
+            setStatus(AnalysisStatus.IDLE);
+        } catch (e: any) {
+            setErrorMsg(e.message || "Ref comparison failed");
+            setStatus(AnalysisStatus.ERROR);
+        }
+    };
+
+    const handleSelectComparedFile = (path: string) => {
+        const pair = comparedStructures?.head.pairs.find(p => p.id === path);
+        if (!pair) return;
+        setMainView('editor');
+        handleSelectPair(pair);
+    };
+
+    const handleLcovUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setLcovReport(parseLcov(await file.text(), file.name));
+            setReport(null);
+        } catch (err) {
+            setErrorMsg("Failed to read lcov file.");
+        }
+    };
+
+    // Local sources never touch the network; refs, pull requests and comparisons do not apply
+    const openLocalSource = async (name: string, readEntries: () => Promise<LocalEntry[]> | LocalEntry[]) => {
+        setErrorMsg('');
+        setStatus(AnalysisStatus.LOADING_REPO);
+        try {
+            const source = await createLocalSource(name, await readEntries());
+            if (source.structure.pairs.length === 0 && source.structure.unpairedTests.length === 0) {
+                throw new Error(`No Dart files found in ${name}`);
+            }
+            setLocalSource(source);
+            setRepoStructure(source.structure);
+            setGitRefs([]);
+            setDefaultBranch(undefined);
+            setSelectedPair(null);
+            setRepoReport(null);
+            setChurn(null);
+            setImportGraph(null);
+            setMainView('editor');
+            setLcovReport(await source.fetchCoverageReport());
+            setStatus(AnalysisStatus.IDLE);
+        } catch (e: any) {
+            setErrorMsg(e.message || "Failed to open local project");
+            setStatus(AnalysisStatus.ERROR);
+        }
+    };
+
+    const handleOpenFolder = async () => {
+        const picker = (window as any).showDirectoryPicker as (() => Promise<LocalDirectoryHandle>) | undefined;
+        // Browsers without the File System Access API fall back to <input webkitdirectory>
+        if (!picker) return folderInputRef.current?.click();
+        try {
+            const handle = await picker();
+            await openLocalSource(handle.name, () => entriesFromDirectoryHandle(handle));
+        } catch (e: any) {
+            if (e?.name !== 'AbortError') setErrorMsg(e.message || "Failed to open folder");
+        }
+    };
+
+    const handleFolderInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(e.target.files ?? []);
+        e.target.value = '';
+        if (files.length === 0) return;
+        openLocalSource(files[0].webkitRelativePath.split('/')[0] || 'folder', () => entriesFromFileList(files));
+    };
+
+    const openZip = (file: File) =>
+        openLocalSource(file.name.replace(/\.zip$/i, ''), async () => readZipArchive(new Uint8Array(await file.arrayBuffer())));
+
+    const handleZipInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) openZip(file);
+    };
+
+    const handleZipDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        const file = Array.from<File>(e.dataTransfer.files).find(f => f.name.toLowerCase().endsWith('.zip'));
+        if (file) openZip(file);
+    };
+
+    // Pairs come from the loaded repository unless the caller says otherwise (pull requests are GitHub-only)
+    const handleSelectPair = async (pair: FilePair, provider: SourceProviderKind = parseRepoUrl(repoUrl)?.provider ?? 'github') => {
         setSelectedPair(pair);
         setGeneratedTests(null);
         setReport(null);
@@ -168,11 +532,14 @@ export default function App() {
         setDeepContext(undefined);
 
         try {
-            const service = new GithubService(ghToken);
-            const prodContent = await service.fetchFileContent(pair.libFile.url);
+            const service = createProvider(provider);
+            const readFile = localSource && pair.libFile.url.startsWith(LOCAL_URL_PREFIX)
+                ? localSource.readFile
+                : (file: RepoFile) => service.fetchFileContent(file.url);
+            const prodContent = await readFile(pair.libFile);
             setProdCode(prodContent);
             if (pair.testFile) {
-                const testContent = await service.fetchFileContent(pair.testFile.url);
+                const testContent = await readFile(pair.testFile);
                 setTestCode(testContent);
             } else {
                 setTestCode(`// Expected path: ${pair.packageRoot}test/${pair.libFile.path.replace(pair.packageRoot + 'lib/', '').replace('.dart', '_test.dart')}`);
@@ -192,11 +559,14 @@ export default function App() {
             setStatus(AnalysisStatus.ANALYZING);
             const pkgDeps = repoStructure && selectedPair ? (repoStructure.packages[selectedPair.packageRoot] || DEFAULT_DEPENDENCIES) : DEFAULT_DEPENDENCIES;
 
+            const lcovFile = lcovReport && selectedPair ? findLcovFile(lcovReport, selectedPair.libFile.path) : undefined;
+
             // Use static analysis (no AI required)
             const result = analyzeFlutterCoverageStatic(
                 prodCode,
                 testCode.startsWith('//') ? '' : testCode,
-                pkgDeps
+                pkgDeps,
+                lcovFile
             );
 
             setReport(result);
@@ -206,21 +576,18 @@ export default function App() {
             setErrorMsg(err.message);
             setStatus(AnalysisStatus.ERROR);
         }
-    }, [prodCode, testCode, repoStructure, selectedPair]);
+    }, [prodCode, testCode, repoStructure, selectedPair, lcovReport]);
 
     const handleGenerateTests = async () => {
         if (!report || !selectedPair) return;
-        const missingFuncs = report.functions.filter(f => !f.isTested).map(f => f.name);
+        const missingFuncs = report.functions.filter(f => !f.isTested);
         if (missingFuncs.length === 0) return;
         setStatus(AnalysisStatus.GENERATING_CODE);
         try {
             const pkgDeps = repoStructure && selectedPair ? (repoStructure.packages[selectedPair.packageRoot] || DEFAULT_DEPENDENCIES) : DEFAULT_DEPENDENCIES;
 
-            // Extract class name from file name
-            const className = selectedPair.name.charAt(0).toUpperCase() + selectedPair.name.slice(1);
-
             // Use static template-based generation (no AI required)
-            const result = generateMissingTestsStatic(prodCode, missingFuncs, pkgDeps, className);
+            const result = generateMissingTestsStatic(prodCode, missingFuncs, pkgDeps);
             setGeneratedTests(result);
             setStatus(AnalysisStatus.COMPLETE);
         } catch (err: any) {
@@ -258,6 +625,16 @@ export default function App() {
         setNotificationVisible(true);
     };
 
+    const handleGithubHostChange = (webUrl: string) => {
+        try {
+            const host = setGithubHost(webUrl);
+            setGithubHostUrl(host.webUrl);
+            showNotification('info', `Using ${host.webUrl}. Reload the repository to read it from this host.`);
+        } catch (e) {
+            showNotification('error', `'${webUrl}' is not a valid URL`);
+        }
+    };
+
     const handleOAuthDisconnect = () => {
         oauthService.revokeToken();
         setIsAuthenticated(false);
@@ -305,13 +682,30 @@ export default function App() {
                         </div>
                         <input
                             className="w-full bg-[#0f0f11] border border-[#27272a] rounded-lg pl-10 pr-4 py-2 text-xs text-zinc-200 focus:border-blue-500/50 focus:ring-1 focus:ring-blue-500/20 focus:outline-none placeholder-zinc-600 transition-all shadow-inner"
-                            placeholder="github_username/repo_name"
+                            placeholder="owner/repo or a GitHub, GitLab or Bitbucket URL"
                             value={repoUrl}
                             onChange={(e) => setRepoUrl(e.target.value)}
                             onKeyDown={(e) => e.key === 'Enter' && loadRepo()}
                         />
                     </div>
 
+                    {localSource && (
+                        <span className="ml-3 px-2 py-1 rounded border border-emerald-500/20 bg-emerald-500/10 text-[10px] font-mono text-emerald-400 truncate max-w-[160px]" title="Local project, read in the browser">
+                            local: {localSource.name}
+                        </span>
+                    )}
+
+                    {/* Pull Request Input */}
+                    <input
+                        className="ml-3 w-28 bg-[#0f0f11] border border-[#27272a] rounded-lg px-3 py-2 text-xs text-zinc-200 focus:border-blue-500/50 focus:outline-none placeholder-zinc-600 transition-all"
+                        placeholder="PR # or URL"
+                        value={prInput}
+                        onChange={(e) => setPrInput(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAnalyzePullRequest()}
+                        disabled={status === AnalysisStatus.ANALYZING_PR}
+                        title="Analyze only the Dart files changed in a pull request"
+                    />
+
                     {/* Token Input & Actions */}
                     <div className="ml-auto flex items-center gap-4">
                         {/* OAuth Button (if configured) or Manual Token Input */}
@@ -331,6 +725,23 @@ export default function App() {
                             />
                         )}
 
+                        {rateLimit && (
+                            <span
+                                className={`text-[10px] font-mono ${rateLimit.remaining < rateLimit.limit * 0.1 ? 'text-red-400' : 'text-zinc-600'}`}
+                                title={`GitHub API quota resets at ${new Date(rateLimit.resetAt).toLocaleTimeString()}`}
+                            >
+                                API {rateLimit.remaining}/{rateLimit.limit}
+                            </span>
+                        )}
+
+                        <SettingsPanel
+                            cache={contentCache}
+                            githubHostUrl={githubHostUrl}
+                            onGithubHostChange={handleGithubHostChange}
+                            providerTokens={providerTokens}
+                            onProviderTokenChange={handleProviderTokenChange}
+                        />
+
                         {repoStructure && (
                             <div
                                 className="flex items-center gap-2 cursor-pointer group"
@@ -343,13 +754,78 @@ export default function App() {
                             </div>
                         )}
 
+                        {repoStructure && (
+                            <button
+                                onClick={() => repoReport && mainView !== 'dashboard' ? setMainView('dashboard') : handleScanRepo()}
+                                disabled={status === AnalysisStatus.SCANNING_REPO}
+                                className="px-3 py-2 border border-zinc-800 hover:border-zinc-600 text-zinc-300 disabled:opacity-50 text-[10px] font-bold rounded transition-colors"
+                            >
+                                {status === AnalysisStatus.SCANNING_REPO ? 'SCANNING...' : repoReport && mainView !== 'dashboard' ? 'DASHBOARD' : 'SCAN WHOLE REPO'}
+                            </button>
+                        )}
+
+                        {repoStructure && (
+                            <button
+                                onClick={handleOpenGraph}
+                                disabled={status === AnalysisStatus.BUILDING_GRAPH}
+                                className="px-3 py-2 border border-zinc-800 hover:border-zinc-600 text-zinc-300 disabled:opacity-50 text-[10px] font-bold rounded transition-colors"
+                                title="Lib files and their imports, colored by coverage"
+                            >
+                                GRAPH
+                            </button>
+                        )}
+
+                        {repoStructure?.ref && (
+                            <button
+                                onClick={() => setMainView('compare')}
+                                className="px-3 py-2 border border-zinc-800 hover:border-zinc-600 text-zinc-300 text-[10px] font-bold rounded transition-colors"
+                            >
+                                COMPARE
+                            </button>
+                        )}
+
+                        {repoStructure?.ref && (
+                            <RefSelector
+                                refs={gitRefs}
+                                current={repoStructure.ref}
+                                defaultBranch={defaultBranch}
+                                onSelect={(name, type) => loadRepo({ name, type })}
+                                disabled={status === AnalysisStatus.LOADING_REPO}
+                            />
+                        )}
+
                         <button
-                            onClick={loadRepo}
+                            onClick={() => loadRepo()}
                             disabled={status === AnalysisStatus.LOADING_REPO}
                             className="px-4 py-2 bg-white text-black hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed text-xs font-bold rounded shadow-[0_0_15px_rgba(255,255,255,0.1)] hover:shadow-[0_0_20px_rgba(255,255,255,0.3)] transition-all duration-300 transform hover:-translate-y-0.5 active:translate-y-0"
                         >
                             {status === AnalysisStatus.LOADING_REPO ? 'SYNCING...' : 'LOAD REPO'}
                         </button>
+
+                        <button
+                            onClick={handleOpenFolder}
+                            disabled={status === AnalysisStatus.LOADING_REPO}
+                            className="px-3 py-2 border border-zinc-800 hover:border-zinc-600 text-zinc-300 disabled:opacity-50 text-[10px] font-bold rounded transition-colors"
+                            title="Analyze a Flutter project on this machine; nothing is uploaded"
+                        >
+                            FOLDER
+                        </button>
+                        <input
+                            type="file"
+                            className="hidden"
+                            ref={(el) => {
+                                folderInputRef.current = el;
+                                el?.setAttribute('webkitdirectory', '');
+                            }}
+                            onChange={handleFolderInput}
+                        />
+                        <label
+                            className="px-3 py-2 border border-zinc-800 hover:border-zinc-600 text-zinc-300 text-[10px] font-bold rounded cursor-pointer transition-colors"
+                            title="Analyze a zipped Flutter project; nothing is uploaded"
+                        >
+                            ZIP
+                            <input type="file" accept=".zip" className="hidden" onChange={handleZipInput} />
+                        </label>
                     </div>
                 </div>
 
@@ -357,7 +833,12 @@ export default function App() {
                 <div className="flex-1 flex overflow-hidden relative">
 
                     {/* 1. Resizable Sidebar */}
-                    <div style={{ width: sidebarWidth }} className="bg-[#050505] flex flex-col shrink-0 z-10 relative">
+                    <div
+                        style={{ width: sidebarWidth }}
+                        className="bg-[#050505] flex flex-col shrink-0 z-10 relative"
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={handleZipDrop}
+                    >
                         {repoStructure ? (
                             <RepoExplorer structure={repoStructure} onSelectPair={handleSelectPair} selectedPair={selectedPair} />
                         ) : (
@@ -366,6 +847,7 @@ export default function App() {
                                     <Icons.Github />
                                 </div>
                                 <p className="text-xs font-mono">Awaiting Repository Connection...</p>
+                                <p className="text-[10px]">or drop a zipped Flutter project here</p>
                             </div>
                         )}
                     </div>
@@ -375,65 +857,108 @@ export default function App() {
 
                     {/* 2. Main Editor Area */}
                     <div className="flex-1 flex flex-col min-w-0 bg-[#050505] relative">
+                        {mainView === 'dashboard' ? (
+                            <RepoDashboard
+                                report={repoReport}
+                                progress={scanProgress}
+                                churn={churn}
+                                churnProgress={churnProgress}
+                                onLoadChurn={!localSource && parseRepoUrl(repoUrl)?.provider === 'github' && repoStructure?.ref ? handleLoadChurn : undefined}
+                                onSelectFile={handleSelectScannedFile}
+                                onClose={() => setMainView('editor')}
+                            />
+                        ) : mainView === 'graph' && repoStructure ? (
+                            <DependencyGraphPanel
+                                graph={importGraph}
+                                structure={repoStructure}
+                                report={repoReport}
+                                isLoading={status === AnalysisStatus.BUILDING_GRAPH}
+                                isScanning={status === AnalysisStatus.SCANNING_REPO}
+                                selectedId={selectedPair?.id}
+                                onScan={() => handleScanRepo('graph')}
+                                onSelectFile={handleSelectGraphFile}
+                                onClose={() => setMainView('editor')}
+                            />
+                        ) : mainView === 'compare' ? (
+                            <RefComparisonPanel
+                                refs={gitRefs}
+                                defaultBranch={defaultBranch}
+                                comparison={comparison}
+                                isLoading={status === AnalysisStatus.COMPARING_REFS}
+                                onCompare={handleCompareRefs}
+                                onSelectFile={handleSelectComparedFile}
+                                onClose={() => setMainView('editor')}
+                            />
+                        ) : mainView === 'pullRequest' ? (
+                            <PullRequestPanel
+                                report={prReport}
+                                isLoading={status === AnalysisStatus.ANALYZING_PR}
+                                onSelectFile={handleSelectPullRequestFile}
+                                onClose={() => setMainView('editor')}
+                            />
+                        ) : (
+                            <>
+                                {/* Breadcrumb Bar */}
+                                <div className="h-10 flex items-center px-4 text-[10px] font-mono gap-2 border-b border-white/5 bg-black/40">
+                                    {selectedPair ? (
+                                        <>
+                                            <span className="text-zinc-500">{repoStructure?.rootPackageName}</span>
+                                        {repoStructure?.ref && <span className="text-zinc-600">@{repoStructure.ref.type === 'commit' ? repoStructure.ref.sha.slice(0, 7) : repoStructure.ref.name}</span>}
+                                            <span className="text-zinc-700">/</span>
+                                            <span className="text-blue-400 font-bold">{selectedPair.name}.dart</span>
+                                            {deepContext && <span className="ml-2 px-1.5 py-0.5 rounded bg-indigo-500/10 text-indigo-400 border border-indigo-500/20 animate-pulse">CONTEXT ACTIVE</span>}
+                                        </>
+                                    ) : (
+                                        <span className="text-zinc-600">Select a file to begin analysis</span>
+                                    )}
+                                </div>
 
-                        {/* Breadcrumb Bar */}
-                        <div className="h-10 flex items-center px-4 text-[10px] font-mono gap-2 border-b border-white/5 bg-black/40">
-                            {selectedPair ? (
-                                <>
-                                    <span className="text-zinc-500">{repoStructure?.rootPackageName}</span>
-                                    <span className="text-zinc-700">/</span>
-                                    <span className="text-blue-400 font-bold">{selectedPair.name}.dart</span>
-                                    {deepContext && <span className="ml-2 px-1.5 py-0.5 rounded bg-indigo-500/10 text-indigo-400 border border-indigo-500/20 animate-pulse">CONTEXT ACTIVE</span>}
-                                </>
-                            ) : (
-                                <span className="text-zinc-600">Select a file to begin analysis</span>
-                            )}
-                        </div>
-
-                        {/* Split Code View */}
-                        <div className="flex-1 flex flex-col lg:flex-row p-1 gap-1 overflow-hidden">
-                            <div className="flex-1 h-full min-h-[300px] shadow-2xl shadow-black">
-                                <CodeEditor
-                                    label="PRODUCTION CODE"
-                                    value={prodCode}
-                                    onChange={setProdCode}
-                                    placeholder="// Select a file from sidebar"
-                                    isScanning={status === AnalysisStatus.ANALYZING}
-                                />
-                            </div>
-                            <div className="flex-1 h-full min-h-[300px] shadow-2xl shadow-black">
-                                <CodeEditor
-                                    label="UNIT TEST CODE"
-                                    value={testCode}
-                                    onChange={setTestCode}
-                                    placeholder="// Test code will appear here"
-                                    language="dart"
-                                    readOnly={false}
-                                />
-                            </div>
-                        </div>
-
-                        {/* Action Dock */}
-                        <div className="h-16 flex items-center justify-center shrink-0 bg-gradient-to-t from-black to-transparent px-4 absolute bottom-4 left-0 right-0 pointer-events-none">
-                            <div className="pointer-events-auto bg-[#0f0f11]/80 backdrop-blur-xl border border-white/10 rounded-full px-6 py-2 flex items-center gap-6 shadow-2xl transform hover:scale-105 transition-transform duration-300">
-                                <div className="text-xs flex items-center gap-3 min-w-[120px]">
-                                    {status === AnalysisStatus.FETCHING_DEPS && <span className="text-amber-500 flex items-center gap-2"><span className="animate-spin">⟳</span> Resolving Context...</span>}
-                                    {status === AnalysisStatus.ANALYZING && <span className="text-blue-400 flex items-center gap-2"><span className="w-2 h-2 bg-blue-400 rounded-full animate-ping"></span> Analyzing...</span>}
-                                    {status === AnalysisStatus.IDLE && !errorMsg && <span className="text-zinc-500">Ready</span>}
-                                    {errorMsg && <span className="text-red-400 font-bold">Error Detected</span>}
+                                {/* Split Code View */}
+                                <div className="flex-1 flex flex-col lg:flex-row p-1 gap-1 overflow-hidden">
+                                    <div className="flex-1 h-full min-h-[300px] shadow-2xl shadow-black">
+                                        <CodeEditor
+                                            label="PRODUCTION CODE"
+                                            value={prodCode}
+                                            onChange={setProdCode}
+                                            placeholder="// Select a file from sidebar"
+                                            isScanning={status === AnalysisStatus.ANALYZING}
+                                        />
+                                    </div>
+                                    <div className="flex-1 h-full min-h-[300px] shadow-2xl shadow-black">
+                                        <CodeEditor
+                                            label="UNIT TEST CODE"
+                                            value={testCode}
+                                            onChange={setTestCode}
+                                            placeholder="// Test code will appear here"
+                                            language="dart"
+                                            readOnly={false}
+                                        />
+                                    </div>
                                 </div>
 
-                                <div className="h-6 w-px bg-white/10"></div>
+                                {/* Action Dock */}
+                                <div className="h-16 flex items-center justify-center shrink-0 bg-gradient-to-t from-black to-transparent px-4 absolute bottom-4 left-0 right-0 pointer-events-none">
+                                    <div className="pointer-events-auto bg-[#0f0f11]/80 backdrop-blur-xl border border-white/10 rounded-full px-6 py-2 flex items-center gap-6 shadow-2xl transform hover:scale-105 transition-transform duration-300">
+                                        <div className="text-xs flex items-center gap-3 min-w-[120px]">
+                                            {status === AnalysisStatus.FETCHING_DEPS && <span className="text-amber-500 flex items-center gap-2"><span className="animate-spin">⟳</span> Resolving Context...</span>}
+                                            {status === AnalysisStatus.ANALYZING && <span className="text-blue-400 flex items-center gap-2"><span className="w-2 h-2 bg-blue-400 rounded-full animate-ping"></span> Analyzing...</span>}
+                                            {status === AnalysisStatus.IDLE && !errorMsg && <span className="text-zinc-500">Ready</span>}
+                                            {errorMsg && <span className="text-red-400 font-bold">Error Detected</span>}
+                                        </div>
 
-                                <button
-                                    onClick={handleAnalyze}
-                                    disabled={!prodCode || status === AnalysisStatus.ANALYZING}
-                                    className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-full text-xs font-bold transition-all shadow-[0_0_20px_rgba(37,99,235,0.4)] hover:shadow-[0_0_30px_rgba(37,99,235,0.6)] disabled:opacity-50 disabled:shadow-none"
-                                >
-                                    <Icons.Play /> EXECUTE
-                                </button>
-                            </div>
-                        </div>
+                                        <div className="h-6 w-px bg-white/10"></div>
+
+                                        <button
+                                            onClick={handleAnalyze}
+                                            disabled={!prodCode || status === AnalysisStatus.ANALYZING}
+                                            className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-full text-xs font-bold transition-all shadow-[0_0_20px_rgba(37,99,235,0.4)] hover:shadow-[0_0_30px_rgba(37,99,235,0.6)] disabled:opacity-50 disabled:shadow-none"
+                                        >
+                                            <Icons.Play /> EXECUTE
+                                        </button>
+                                    </div>
+                                </div>
+                            </>
+                        )}
                     </div>
 
                     {/* Drag Handle Right */}
@@ -442,8 +967,15 @@ export default function App() {
                     {/* 3. Resizable Report Panel */}
                     <div style={{ width: reportWidth }} className="bg-[#050505] border-l border-white/5 flex flex-col shrink-0 z-10 overflow-hidden relative">
                         {/* Panel Header */}
-                        <div className="h-10 flex items-center px-4 bg-black/20 border-b border-white/5">
+                        <div className="h-10 flex items-center justify-between px-4 bg-black/20 border-b border-white/5">
                             <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">Mission Report</span>
+                            <label
+                                className={`text-[9px] font-mono uppercase px-1.5 py-0.5 rounded border cursor-pointer transition-colors ${lcovReport ? 'text-fuchsia-400 border-fuchsia-500/30 bg-fuchsia-500/10' : 'text-zinc-500 border-zinc-800 hover:text-zinc-300'}`}
+                                title={lcovReport ? `Using ${lcovReport.sources.join(', ')}` : 'Upload coverage/lcov.info from flutter test --coverage'}
+                            >
+                                {lcovReport ? 'lcov loaded' : 'Upload lcov'}
+                                <input type="file" accept=".info,.lcov" className="hidden" onChange={handleLcovUpload} />
+                            </label>
                         </div>
 
                         {!report ? (
@@ -457,16 +989,47 @@ export default function App() {
                             <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-6">
 
                                 {/* Score Visualization */}
-                                <div className="relative flex items-center justify-center py-4">
+                                <div className="relative flex items-center justify-center gap-6 py-4">
                                     <div className="w-32 h-32 relative">
-                                        <CoverageChart covered={report.testedFunctions} total={report.totalFunctions} />
+                                        <CoverageChart covered={report.testedFunctions} total={report.totalFunctions} breakdown={report.strengthBreakdown} />
                                         <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
                                             <span className="text-3xl font-bold text-white drop-shadow-lg">{report.coveragePercentage}%</span>
                                             <span className="text-[9px] text-zinc-500 uppercase">Coverage</span>
                                         </div>
                                     </div>
+                                    <div className="flex flex-col items-center" title="Each method weighted by its cyclomatic complexity">
+                                        <span className="text-xl font-bold text-zinc-200">{report.weightedCoveragePercentage}%</span>
+                                        <span className="text-[9px] text-zinc-500 uppercase">Weighted</span>
+                                    </div>
                                 </div>
 
+                                {/* Strength Legend */}
+                                <div className="flex items-center justify-center gap-3 -mt-4">
+                                    {(['strong', 'partial', 'weak'] as const).map(level => (
+                                        <span key={level} className={`text-[9px] font-mono uppercase px-1.5 py-0.5 rounded border ${STRENGTH_STYLES[level]}`}>
+                                            {report.strengthBreakdown[level]} {level}
+                                        </span>
+                                    ))}
+                                </div>
+
+                                {/* Measured Coverage */}
+                                {report.measured && (
+                                    <div className="grid grid-cols-3 gap-2 text-center">
+                                        <div className="bg-[#0f0f11] border border-[#27272a] rounded-md py-2">
+                                            <div className="text-sm font-bold text-zinc-200">{report.measured.lineCoveragePercentage}%</div>
+                                            <div className="text-[8px] text-zinc-500 uppercase">lcov lines</div>
+                                        </div>
+                                        <div className="bg-[#0f0f11] border border-[#27272a] rounded-md py-2">
+                                            <div className="text-sm font-bold text-zinc-200">{report.measured.functionCoveragePercentage}%</div>
+                                            <div className="text-[8px] text-zinc-500 uppercase">lcov methods</div>
+                                        </div>
+                                        <div className="bg-[#0f0f11] border border-[#27272a] rounded-md py-2">
+                                            <div className={`text-sm font-bold ${report.measured.disagreements > 0 ? 'text-fuchsia-400' : 'text-zinc-200'}`}>{report.measured.disagreements}</div>
+                                            <div className="text-[8px] text-zinc-500 uppercase">Disagree</div>
+                                        </div>
+                                    </div>
+                                )}
+
                                 {/* Summary */}
                                 <div className="bg-[#0f0f11] border border-[#27272a] rounded-lg p-3">
                                     <div className="text-[9px] text-blue-400 font-bold uppercase mb-2 flex items-center gap-2">
@@ -484,13 +1047,49 @@ export default function App() {
                                         <span className="text-[9px] font-bold text-zinc-500 uppercase">Coverage Details</span>
                                         <span className="text-[9px] text-zinc-600">{report.testedFunctions}/{report.totalFunctions} Passing</span>
                                     </div>
-                                    <div className="space-y-1">
-                                        {report.functions.map((fn, i) => (
-                                            <FunctionReportCard key={i} fn={fn} index={i} />
+                                    <div className="space-y-3">
+                                        {report.declarations.map((decl) => (
+                                            <div key={`${decl.kind}:${decl.name}`} className="space-y-1">
+                                                <div className="flex items-center justify-between px-1">
+                                                    <div className="flex items-center gap-2 min-w-0">
+                                                        <span className="text-[8px] font-mono uppercase px-1 py-0.5 rounded bg-zinc-900 border border-zinc-800 text-zinc-500">{OWNER_KIND_LABELS[decl.kind]}</span>
+                                                        <span className="text-[10px] font-mono text-zinc-300 truncate">{decl.kind === 'topLevel' ? 'Top-level functions' : decl.name}</span>
+                                                    </div>
+                                                    <span className="text-[9px] text-zinc-600 shrink-0">
+                                                        {decl.testedFunctions}/{decl.totalFunctions} · {decl.coveragePercentage}%
+                                                        {decl.strengthBreakdown.strong > 0 && <span className="text-emerald-500"> · {decl.strengthBreakdown.strong} strong</span>}
+                                                    </span>
+                                                </div>
+                                                {decl.functions.map((fn) => {
+                                                    const i = report.functions.indexOf(fn);
+                                                    return <FunctionReportCard key={i} fn={fn} index={i} />;
+                                                })}
+                                            </div>
                                         ))}
                                     </div>
                                 </div>
 
+                                {/* Test Smells */}
+                                {report.testSmells.length > 0 && (
+                                    <div className="space-y-2">
+                                        <div className="flex items-center justify-between">
+                                            <span className="text-[9px] font-bold text-zinc-500 uppercase">Test Smells</span>
+                                            <span className="text-[9px] text-amber-500">{report.testSmells.length} found</span>
+                                        </div>
+                                        <div className="bg-[#0f0f11] border border-[#27272a] rounded-lg p-1">
+                                            {report.testSmells.map((smell, i) => (
+                                                <div key={i} className="flex items-start gap-2 px-2 py-1.5">
+                                                    <span className="text-[9px] font-mono text-zinc-600 w-10 shrink-0 text-right">L{smell.line}</span>
+                                                    <div className="min-w-0">
+                                                        <p className="text-[10px] text-zinc-300">{smell.message}</p>
+                                                        {smell.test && <p className="text-[9px] font-mono text-zinc-600 truncate">{smell.test}</p>}
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
                                 {/* Generation Actions */}
                                 {report.testedFunctions < report.totalFunctions && (
                                     <div className="pt-4 border-t border-white/5">
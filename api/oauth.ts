@@ -55,8 +55,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             });
         }
 
-        // Exchange code for access token
-        const tokenResponse = await fetch('https://github.com/login/oauth/access_token', {
+        // Exchange code for access token; GITHUB_HOST_URL points at a GitHub Enterprise Server instance.
+        // The host is server configuration only so the client secret is never sent elsewhere.
+        const githubHostUrl = (process.env.GITHUB_HOST_URL || 'https://github.com').replace(/\/+$/, '');
+        const tokenResponse = await fetch(`${githubHostUrl}/login/oauth/access_token`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
@@ -0,0 +1,53 @@
+import { access, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { CoverageBaseline, CoverageThresholds } from '../types';
+import { parseBaseline } from '../services/coverageGate';
+
+/**
+ * CLI Configuration
+ *
+ * `sentinel.config.json` at the project root holds thresholds and the baseline
+ * location so CI and local runs agree without repeating flags.
+ */
+
+export const DEFAULT_CONFIG_FILE = 'sentinel.config.json';
+export const DEFAULT_BASELINE_FILE = 'sentinel-baseline.json';
+
+export interface SentinelConfig {
+  thresholds?: CoverageThresholds;
+  baseline?: string; // Baseline path, relative to the project root
+}
+
+const exists = async (file: string): Promise<boolean> => {
+  try {
+    await access(file);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reads the config file. An explicit path must exist; the default may not.
+ */
+export const loadConfig = async (root: string, configPath?: string): Promise<SentinelConfig> => {
+  const file = path.resolve(root, configPath ?? DEFAULT_CONFIG_FILE);
+  if (!configPath && !(await exists(file))) return {};
+
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as SentinelConfig;
+  } catch (e: any) {
+    throw new Error(`Could not read config ${file}: ${e.message}`);
+  }
+};
+
+export const resolveBaselinePath = (root: string, config: SentinelConfig, flag?: string): string =>
+  path.resolve(root, flag ?? config.baseline ?? DEFAULT_BASELINE_FILE);
+
+export const readBaseline = async (file: string): Promise<CoverageBaseline | null> => {
+  if (!(await exists(file))) return null;
+  return parseBaseline(await readFile(file, 'utf8'));
+};
+
+export const writeBaseline = (file: string, baseline: CoverageBaseline): Promise<void> =>
+  writeFile(file, JSON.stringify(baseline, null, 2) + '\n');
@@ -0,0 +1,57 @@
+/**
+ * Local Checkout Source Tests
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { listLocalFiles, loadLocalCoverage, loadLocalRepository, readLocalFile } from './localSource';
+import { scanRepository } from '../services/repoScanService';
+import { formatCoverageReport } from './report';
+
+let root: string;
+
+const write = async (relative: string, content: string) => {
+  const absolute = path.join(root, relative);
+  await mkdir(path.dirname(absolute), { recursive: true });
+  await writeFile(absolute, content);
+};
+
+beforeAll(async () => {
+  root = await mkdtemp(path.join(os.tmpdir(), 'sentinel-'));
+  await write('pubspec.yaml', 'name: shop\n');
+  await write('lib/cart.dart', 'class Cart {\n  void add() {}\n  void clear() {}\n}\n');
+  await write('test/cart_test.dart', `void main() { test('add', () { final c = Cart(); c.add(); expect(c.size, 1); }); }\n`);
+  await write('coverage/lcov.info', 'SF:lib/cart.dart\nDA:2,1\nDA:3,0\nend_of_record\n');
+  await write('.dart_tool/cache.dart', 'void hidden() {}');
+  await write('build/lib/generated.dart', 'void generated() {}');
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('listLocalFiles', () => {
+  it('should list repo-relative paths and skip hidden and build folders', async () => {
+    const listed = await listLocalFiles(root);
+    expect(listed.map(f => f.path)).toEqual(['coverage/lcov.info', 'lib/cart.dart', 'pubspec.yaml', 'test/cart_test.dart']);
+    expect(listed[1].url).toBe(path.join(root, 'lib', 'cart.dart'));
+  });
+});
+
+describe('local scan', () => {
+  it('should pair, analyze and print a checkout without the GitHub API', async () => {
+    const structure = await loadLocalRepository(root);
+    expect(structure.rootPackageName).toBe('shop');
+    expect(structure.pairs[0].matchType).toBe('exact');
+
+    const report = await scanRepository(structure, readLocalFile, { lcov: await loadLocalCoverage(structure) });
+    expect(report.totals).toMatchObject({ testedFunctions: 1, totalFunctions: 2 });
+    expect(report.files[0].measured?.functionsHit).toBe(1);
+
+    const output = formatCoverageReport(report);
+    expect(output).toContain('lib/cart.dart');
+    expect(output).toContain('Total: 1/2 public methods tested (50%) across 1 files');
+  });
+});
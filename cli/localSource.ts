@@ -0,0 +1,65 @@
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { LcovReport, RepoFile, RepoStructure } from '../types';
+import { mergeLcovReports, parseLcov } from '../services/lcovService';
+import { MELOS_CONFIG_PATH, buildRepoStructure, isIgnoredDirectory } from '../services/repoStructure';
+
+/**
+ * Local Checkout Source
+ *
+ * Reads a Flutter project from disk and produces the same RepoStructure the
+ * GitHub client does. A RepoFile's `url` holds the absolute path on disk.
+ */
+
+const toRepoPath = (root: string, absolute: string): string =>
+  path.relative(root, absolute).split(path.sep).join('/');
+
+/**
+ * Recursively lists files under root, skipping hidden and build directories
+ */
+export const listLocalFiles = async (root: string): Promise<RepoFile[]> => {
+  const files: RepoFile[] = [];
+
+  const walk = async (dir: string) => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const absolute = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!isIgnoredDirectory(entry.name)) await walk(absolute);
+      } else if (entry.isFile()) {
+        files.push({ path: toRepoPath(root, absolute), type: 'blob', url: absolute });
+      }
+    }
+  };
+
+  await walk(path.resolve(root));
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+export const readLocalFile = (file: RepoFile): Promise<string> => readFile(file.url, 'utf8');
+
+/**
+ * Lists and pairs a local checkout, using every pubspec.yaml as a package root
+ * (or only the workspace members, when melos.yaml or a pub workspace lists them)
+ */
+export const loadLocalRepository = async (root: string): Promise<RepoStructure> => {
+  const allFiles = await listLocalFiles(root);
+  const pubspecs: Record<string, string> = {};
+
+  await Promise.all(allFiles.filter(f => f.path.endsWith('pubspec.yaml')).map(async (file) => {
+    pubspecs[file.path] = await readLocalFile(file);
+  }));
+
+  const melosFile = allFiles.find(f => f.path === MELOS_CONFIG_PATH);
+  return buildRepoStructure(allFiles, pubspecs, melosFile && await readLocalFile(melosFile));
+};
+
+/**
+ * Merges any lcov.info files found in the checkout
+ */
+export const loadLocalCoverage = async (structure: RepoStructure): Promise<LcovReport | null> => {
+  if (structure.coverageFiles.length === 0) return null;
+  const reports = await Promise.all(structure.coverageFiles.map(async (file) => parseLcov(await readLocalFile(file), file.path)));
+  return mergeLcovReports(reports);
+};
@@ -0,0 +1,63 @@
+import { CoverageRollup, FileCoverageResult, GateResult, RepoCoverageReport } from '../types';
+
+/**
+ * Plain-text coverage tables for terminal output
+ */
+
+const formatTable = (headers: string[], rows: string[][], rightAligned: Set<number>): string => {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => row[i].length)));
+  const formatRow = (row: string[]) => row
+    .map((cell, i) => rightAligned.has(i) ? cell.padStart(widths[i]) : cell.padEnd(widths[i]))
+    .join('  ')
+    .trimEnd();
+
+  return [
+    formatRow(headers),
+    widths.map(w => '-'.repeat(w)).join('  '),
+    ...rows.map(formatRow)
+  ].join('\n');
+};
+
+const fileRow = (file: FileCoverageResult): string[] => [
+  file.path,
+  file.architectureType,
+  file.hasTestFile ? 'yes' : 'no',
+  file.error ? '-' : `${file.testedFunctions}/${file.totalFunctions}`,
+  file.error ? 'error' : `${file.coveragePercentage}%`
+];
+
+const rollupRow = (rollup: CoverageRollup): string[] => [
+  rollup.label ? `${rollup.label} (${rollup.key})` : rollup.key,
+  String(rollup.files),
+  `${rollup.testedFunctions}/${rollup.totalFunctions}`,
+  `${rollup.coveragePercentage}%`
+];
+
+/**
+ * Per-file table followed by package totals and the overall number
+ */
+export const formatCoverageReport = (report: RepoCoverageReport): string => {
+  const files = [...report.files].sort((a, b) => a.path.localeCompare(b.path));
+  const sections = [
+    formatTable(['File', 'Type', 'Test', 'Tested', 'Coverage'], files.map(fileRow), new Set([3, 4])),
+    formatTable(['Package', 'Files', 'Tested', 'Coverage'], report.byPackage.map(rollupRow), new Set([1, 2, 3])),
+    `Total: ${report.totals.testedFunctions}/${report.totals.totalFunctions} public methods tested (${report.totals.coveragePercentage}%) across ${report.totals.files} files`
+  ];
+
+  if (report.failedFiles > 0) {
+    sections.push(`${report.failedFiles} file(s) could not be analyzed:\n${files.filter(f => f.error).map(f => `  ${f.path}: ${f.error}`).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+};
+
+/**
+ * One line per violation, prefixed for easy scanning in CI logs
+ */
+export const formatGateResult = (result: GateResult): string => {
+  if (result.passed) return '✓ Coverage gate passed';
+  return [
+    `✗ Coverage gate failed with ${result.violations.length} violation(s):`,
+    ...result.violations.map(v => `  [${v.kind}] ${v.message}`)
+  ].join('\n');
+};
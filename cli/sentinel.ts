@@ -0,0 +1,106 @@
+import path from 'path';
+import { parseArgs } from 'util';
+import { createBaseline, evaluateGate } from '../services/coverageGate';
+import { scanRepository } from '../services/repoScanService';
+import { loadConfig, readBaseline, resolveBaselinePath, writeBaseline } from './config';
+import { loadLocalCoverage, loadLocalRepository, readLocalFile } from './localSource';
+import { formatCoverageReport, formatGateResult } from './report';
+
+/**
+ * Sentinel CLI
+ *
+ * Scans a local Flutter checkout with the same analysis the web UI runs,
+ * without the GitHub API or a token.
+ */
+
+const USAGE = `Usage: sentinel [directory] [options]
+
+Scans a local Flutter project and prints static test coverage per file.
+
+Options:
+  --json               Print the full report as JSON
+  --concurrency <n>    Files analyzed in parallel (default 8)
+  -h, --help           Show this help
+
+CI gating:
+  --ci                 Exit with code 1 when thresholds fail or coverage regresses
+  --config <file>      Thresholds and baseline location (default sentinel.config.json)
+  --min-coverage <n>   Global threshold, overrides thresholds.global from the config
+  --baseline <file>    Baseline to compare against (default sentinel-baseline.json)
+  --update-baseline    Write the current coverage as the new baseline, unless it regressed`;
+
+export const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean', default: false },
+      concurrency: { type: 'string', default: '8' },
+      help: { type: 'boolean', short: 'h', default: false },
+      ci: { type: 'boolean', default: false },
+      config: { type: 'string' },
+      'min-coverage': { type: 'string' },
+      baseline: { type: 'string' },
+      'update-baseline': { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const rawMinCoverage = values['min-coverage'];
+  const minCoverage = rawMinCoverage === undefined ? undefined : rawMinCoverage.trim() === '' ? NaN : Number(rawMinCoverage);
+  if (minCoverage !== undefined && !(Number.isFinite(minCoverage) && minCoverage >= 0 && minCoverage <= 100)) {
+    throw new Error(`--min-coverage must be a number between 0 and 100, got '${rawMinCoverage}'`);
+  }
+
+  const root = path.resolve(positionals[0] ?? '.');
+  const config = await loadConfig(root, values.config);
+  const structure = await loadLocalRepository(root);
+
+  if (structure.pairs.length === 0) {
+    console.error(`No Dart files under lib/ found in ${root}`);
+    return 1;
+  }
+
+  const report = await scanRepository(structure, readLocalFile, {
+    concurrency: Number(values.concurrency) || 8,
+    lcov: await loadLocalCoverage(structure)
+  });
+
+  console.log(values.json ? JSON.stringify(report, null, 2) : formatCoverageReport(report));
+
+  if (!values.ci && !values['update-baseline']) return 0;
+
+  const thresholds = { ...config.thresholds };
+  if (minCoverage !== undefined) thresholds.global = minCoverage;
+
+  const baselinePath = resolveBaselinePath(root, config, values.baseline);
+  const baseline = await readBaseline(baselinePath);
+  const result = evaluateGate(report, thresholds, baseline);
+  const regressed = result.violations.some(v => v.kind === 'regression');
+
+  // Logs go to stderr so --json output stays machine readable
+  console.error('\n' + formatGateResult(result));
+
+  if (values['update-baseline']) {
+    if (regressed) {
+      console.error(`Baseline not updated: coverage regressed. Fix the regressions or delete ${path.relative(root, baselinePath)} to reset it.`);
+    } else {
+      await writeBaseline(baselinePath, createBaseline(report));
+      console.error(`Baseline written to ${path.relative(root, baselinePath)}`);
+    }
+  }
+
+  return values.ci && !result.passed ? 1 : 0;
+};
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  (error: Error) => {
+    console.error(`sentinel: ${error.message}`);
+    process.exit(2);
+  }
+);
@@ -1,20 +1,29 @@
 import React from 'react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
+import { StrengthBreakdown } from '../types';
 
 interface CoverageChartProps {
   covered: number;
   total: number;
+  breakdown?: StrengthBreakdown; // Splits the covered slice into strong / partial / weak
 }
 
-export const CoverageChart: React.FC<CoverageChartProps> = ({ covered, total }) => {
+export const CoverageChart: React.FC<CoverageChartProps> = ({ covered, total, breakdown }) => {
   const missing = total - covered;
-  const data = [
-    { name: 'Covered', value: covered },
-    { name: 'Missing', value: missing },
-  ];
+  const data = breakdown
+    ? [
+        { name: 'Strong', value: breakdown.strong },
+        { name: 'Partial', value: breakdown.partial },
+        { name: 'Weak', value: breakdown.weak },
+        { name: 'Missing', value: missing },
+      ]
+    : [
+        { name: 'Covered', value: covered },
+        { name: 'Missing', value: missing },
+      ];
 
   // Dark Mode Colors: Emerald-500 vs Red-500 but slightly desaturated/matte
-  const COLORS = ['#10b981', '#ef4444']; 
+  const COLORS = breakdown ? ['#10b981', '#f59e0b', '#f97316', '#ef4444'] : ['#10b981', '#ef4444'];
 
   if (total === 0) return <div className="w-full h-full flex items-center justify-center text-[10px] text-zinc-600">N/A</div>;
 
@@ -36,7 +45,7 @@ export const CoverageChart: React.FC<CoverageChartProps> = ({ covered, total })
             <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
           ))}
         </Pie>
-        <Tooltip 
+        <Tooltip
             contentStyle={{ backgroundColor: '#18181b', borderColor: '#27272a', color: '#f4f4f5', fontSize: '10px', borderRadius: '4px' }}
             itemStyle={{ color: '#e4e4e7' }}
             cursor={false}
@@ -44,4 +53,4 @@ export const CoverageChart: React.FC<CoverageChartProps> = ({ covered, total })
       </PieChart>
     </ResponsiveContainer>
   );
-};
\ No newline at end of file
+};
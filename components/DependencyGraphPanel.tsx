@@ -0,0 +1,207 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { DependencyGraphNode, ImportGraph, RepoCoverageReport, RepoStructure } from '../types';
+import { buildDependencyGraph, rankByExposure } from '../services/dependencyGraph';
+
+interface DependencyGraphPanelProps {
+  graph: ImportGraph | null;
+  structure: RepoStructure;
+  report: RepoCoverageReport | null;
+  isLoading: boolean;
+  isScanning: boolean;
+  selectedId?: string;
+  onScan: () => void;
+  onSelectFile: (pairId: string) => void;
+  onClose: () => void;
+}
+
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 6;
+
+// Red at 0% through amber to green at 100%; grey until the repository is scanned
+const nodeColor = (coverage: number | null): string =>
+  coverage === null ? '#52525b' : `hsl(${Math.round(coverage * 1.4)}, 70%, 45%)`;
+
+const NodeDetails: React.FC<{ node: DependencyGraphNode }> = ({ node }) => (
+  <div className="space-y-1">
+    <p className="text-[11px] font-mono text-zinc-200 break-all">{node.id}</p>
+    <p className="text-[10px] text-zinc-500">
+      {node.coverage === null ? 'Not scanned' : `${node.coverage}% of ${node.functions} public functions tested`}
+    </p>
+    <p className="text-[10px] text-zinc-500">Imported by {node.importedBy} files · {node.dependents} depend on it</p>
+  </div>
+);
+
+export const DependencyGraphPanel: React.FC<DependencyGraphPanelProps> = ({
+  graph, structure, report, isLoading, isScanning, selectedId, onScan, onSelectFile, onClose
+}) => {
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 });
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const drag = useRef<{ x: number; y: number } | null>(null);
+
+  const layout = useMemo(() => graph ? buildDependencyGraph(graph, structure, report) : null, [graph, structure, report]);
+  const exposed = useMemo(() => layout ? rankByExposure(layout.nodes) : [], [layout]);
+  const byId = useMemo(() => new Map(layout?.nodes.map(n => [n.id, n]) ?? []), [layout]);
+
+  const focusId = hoveredId ?? selectedId ?? null;
+  const neighbours = useMemo(() => {
+    const ids = new Set<string>();
+    layout?.links.forEach(link => {
+      if (link.source === focusId) ids.add(link.target);
+      if (link.target === focusId) ids.add(link.source);
+    });
+    return ids;
+  }, [layout, focusId]);
+  const focused = focusId ? byId.get(focusId) : undefined;
+
+  const handleWheel = (e: React.WheelEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, view.scale * (e.deltaY < 0 ? 1.1 : 1 / 1.1)));
+    // Zoom around the cursor
+    const px = ((e.clientX - rect.left) / rect.width) * (layout?.width ?? 1);
+    const py = ((e.clientY - rect.top) / rect.height) * (layout?.height ?? 1);
+    setView({
+      scale,
+      x: px - ((px - view.x) / view.scale) * scale,
+      y: py - ((py - view.y) / view.scale) * scale,
+    });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!drag.current || !layout) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX;
+    const y = e.clientY;
+    const dx = ((x - drag.current.x) / rect.width) * layout.width;
+    const dy = ((y - drag.current.y) / rect.height) * layout.height;
+    drag.current = { x, y };
+    setView(v => ({ ...v, x: v.x + dx, y: v.y + dy }));
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="h-10 flex items-center justify-between px-4 border-b border-white/5 bg-black/40">
+        <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">Dependency Graph</span>
+        <div className="flex items-center gap-4">
+          {!report && (
+            <button onClick={onScan} disabled={isScanning} className="text-[10px] text-blue-400 hover:text-blue-300 disabled:opacity-50 transition-colors">
+              {isScanning ? 'Scanning...' : 'Scan to color by coverage'}
+            </button>
+          )}
+          <button onClick={() => setView({ x: 0, y: 0, scale: 1 })} className="text-[10px] text-zinc-500 hover:text-zinc-200 transition-colors">Reset view</button>
+          <button onClick={onClose} className="text-[10px] text-zinc-500 hover:text-zinc-200 transition-colors">Back to editor</button>
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="flex-1 flex items-center justify-center">
+          <span className="text-xs text-blue-400 font-mono">Reading imports...</span>
+        </div>
+      )}
+
+      {layout && !isLoading && (
+        <div className="flex-1 flex min-h-0">
+          <svg
+            viewBox={`0 0 ${layout.width} ${layout.height}`}
+            className="flex-1 min-w-0 bg-[#050505] cursor-grab active:cursor-grabbing"
+            onWheel={handleWheel}
+            onMouseDown={(e) => { drag.current = { x: e.clientX, y: e.clientY }; }}
+            onMouseMove={handleMouseMove}
+            onMouseUp={() => { drag.current = null; }}
+            onMouseLeave={() => { drag.current = null; }}
+          >
+            <defs>
+              <marker id="graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="4" markerHeight="4" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#3f3f46" />
+              </marker>
+            </defs>
+            <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+              {layout.links.map(link => {
+                const source = byId.get(link.source)!;
+                const target = byId.get(link.target)!;
+                const active = link.source === focusId || link.target === focusId;
+                // Stop the line at the target's edge so the arrowhead stays visible
+                const length = Math.max(1, Math.hypot(target.x - source.x, target.y - source.y));
+                const x2 = target.x - ((target.x - source.x) / length) * target.radius;
+                const y2 = target.y - ((target.y - source.y) / length) * target.radius;
+                return (
+                  <line
+                    key={`${link.source}->${link.target}`}
+                    x1={source.x} y1={source.y} x2={x2} y2={y2}
+                    stroke={active ? '#60a5fa' : '#27272a'}
+                    strokeOpacity={focusId && !active ? 0.3 : 1}
+                    strokeWidth={active ? 1.5 : 0.75}
+                    markerEnd="url(#graph-arrow)"
+                  />
+                );
+              })}
+              {layout.nodes.map(node => {
+                const dimmed = focusId !== null && node.id !== focusId && !neighbours.has(node.id);
+                return (
+                  <g
+                    key={node.id}
+                    transform={`translate(${node.x} ${node.y})`}
+                    className="cursor-pointer"
+                    opacity={dimmed ? 0.25 : 1}
+                    onMouseEnter={() => setHoveredId(node.id)}
+                    onMouseLeave={() => setHoveredId(null)}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={() => onSelectFile(node.id)}
+                  >
+                    <circle r={node.radius} fill={nodeColor(node.coverage)} stroke={node.id === selectedId ? '#fafafa' : '#09090b'} strokeWidth={node.id === selectedId ? 2 : 1} />
+                    {(node.radius >= 10 || node.id === focusId) && (
+                      <text y={node.radius + 10} textAnchor="middle" className="fill-zinc-400 text-[9px] font-mono pointer-events-none">{node.label}</text>
+                    )}
+                  </g>
+                );
+              })}
+            </g>
+          </svg>
+
+          {/* Details */}
+          <div className="w-64 shrink-0 border-l border-white/5 p-4 space-y-6 overflow-y-auto custom-scrollbar">
+            <div className="space-y-2">
+              <span className="text-[9px] font-bold text-zinc-500 uppercase">{hoveredId ? 'File' : selectedId ? 'Selected' : 'Legend'}</span>
+              {focused ? <NodeDetails node={focused} /> : (
+                <div className="space-y-1 text-[10px] text-zinc-500">
+                  <p>Size: public functions</p>
+                  <p className="flex items-center gap-1">
+                    Color:
+                    <span className="inline-block w-2 h-2 rounded-full" style={{ background: nodeColor(0) }}></span> 0%
+                    <span className="inline-block w-2 h-2 rounded-full" style={{ background: nodeColor(50) }}></span> 50%
+                    <span className="inline-block w-2 h-2 rounded-full" style={{ background: nodeColor(100) }}></span> 100%
+                  </p>
+                  <p>Arrows point at the imported file. Scroll to zoom, drag to pan.</p>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <span className="text-[9px] font-bold text-zinc-500 uppercase">Most Depended On, Least Covered</span>
+              {exposed.length === 0 && (
+                <p className="text-[10px] text-zinc-600">{report ? 'No shared file is missing coverage' : 'Scan the repository to rank files'}</p>
+              )}
+              {exposed.map(node => (
+                <button
+                  key={node.id}
+                  onClick={() => onSelectFile(node.id)}
+                  onMouseEnter={() => setHoveredId(node.id)}
+                  onMouseLeave={() => setHoveredId(null)}
+                  className="w-full flex items-center gap-2 px-2 py-1 rounded hover:bg-[#18181b] transition-colors text-left"
+                >
+                  <span className="inline-block w-2 h-2 rounded-full shrink-0" style={{ background: nodeColor(node.coverage) }}></span>
+                  <span className="flex-1 text-[10px] font-mono text-zinc-300 truncate" title={node.id}>{node.label}</span>
+                  <span className="text-[9px] text-zinc-600">{node.dependents} deps · {node.coverage}%</span>
+                </button>
+              ))}
+            </div>
+
+            {graph && graph.unreadable.length > 0 && (
+              <p className="text-[10px] text-amber-400">{graph.unreadable.length} files could not be read; their imports are missing.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
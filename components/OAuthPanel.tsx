@@ -10,6 +10,7 @@
 
 import React, { useState } from 'react';
 import type { Permission, AppMetadata } from '../types';
+import { getGithubHost } from '../services/githubHost';
 
 export interface OAuthPanelProps {
   appName: string;
@@ -171,7 +172,7 @@ export const OAuthPanel: React.FC<OAuthPanelProps> = ({
 
         <p className="text-xs text-center text-[#8b949e] pt-2">
           Authorizing will redirect to<br />
-          <span className="text-[#1f6feb]">github.com</span>
+          <span className="text-[#1f6feb]">{new URL(getGithubHost().webUrl).host}</span>
         </p>
       </div>
 
@@ -0,0 +1,88 @@
+import React from 'react';
+import { FunctionChange, PullRequestReport } from '../types';
+
+interface PullRequestPanelProps {
+  report: PullRequestReport | null;
+  isLoading: boolean;
+  onSelectFile: (pairId: string) => void;
+  onClose: () => void;
+}
+
+const CHANGE_STYLES: Record<FunctionChange, string> = {
+  added: 'text-blue-400 bg-blue-500/10 border-blue-500/20',
+  modified: 'text-zinc-400 bg-zinc-500/10 border-zinc-500/20',
+};
+
+export const PullRequestPanel: React.FC<PullRequestPanelProps> = ({ report, isLoading, onSelectFile, onClose }) => {
+  const filesWithChanges = report ? report.files.filter(f => f.changedFunctions.length > 0 || f.error) : [];
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="h-10 flex items-center justify-between px-4 border-b border-white/5 bg-black/40">
+        <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">Pull Request Coverage</span>
+        <button onClick={onClose} className="text-[10px] text-zinc-500 hover:text-zinc-200 transition-colors">Back to editor</button>
+      </div>
+
+      {isLoading && !report && (
+        <div className="flex-1 flex items-center justify-center">
+          <span className="text-xs text-blue-400 font-mono animate-pulse">Analyzing changed files...</span>
+        </div>
+      )}
+
+      {report && (
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+          {/* Summary */}
+          <div className="space-y-2">
+            <a href={report.pullRequest.url} target="_blank" rel="noreferrer" className="text-sm font-bold text-zinc-100 hover:text-blue-400 transition-colors">
+              #{report.pullRequest.number} {report.pullRequest.title}
+            </a>
+            <p className="text-[10px] font-mono text-zinc-600">
+              {report.pullRequest.headRef} → {report.pullRequest.baseRef} · {report.pullRequest.headSha.slice(0, 7)}
+            </p>
+            <p className={`text-[11px] ${report.untestedFunctions > 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+              {report.untestedFunctions > 0
+                ? `${report.untestedFunctions} of ${report.changedFunctions} added or modified public methods have no tests`
+                : `All ${report.changedFunctions} added or modified public methods are tested`}
+            </p>
+            {report.skippedFiles.length > 0 && (
+              <p className="text-[10px] text-zinc-600">{report.skippedFiles.length} changed files are not analyzable lib files</p>
+            )}
+          </div>
+
+          {/* Changed Files */}
+          <div className="space-y-3">
+            {filesWithChanges.map(file => (
+              <div key={file.path} className="bg-[#0f0f11] border border-[#27272a] rounded-lg">
+                <button
+                  onClick={() => file.pairId && onSelectFile(file.pairId)}
+                  className="w-full flex items-center justify-between gap-3 px-3 py-2 border-b border-[#27272a] text-left hover:bg-[#18181b] transition-colors"
+                >
+                  <span className="text-[11px] font-mono text-zinc-300 truncate">{file.path}</span>
+                  <span className="text-[9px] text-zinc-600 shrink-0">
+                    {file.status}
+                    {!file.hasTestFile && <span className="text-red-400"> · no test file</span>}
+                    {file.testChanged && <span className="text-emerald-500"> · tests updated</span>}
+                  </span>
+                </button>
+                {file.error && <p className="px-3 py-2 text-[10px] text-red-400">{file.error}</p>}
+                <div className="p-1">
+                  {file.changedFunctions.map(fn => (
+                    <div key={`${fn.owner}.${fn.name}`} className="flex items-center gap-2 px-2 py-1.5">
+                      <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${fn.isTested ? 'bg-emerald-500' : 'bg-red-500'}`}></span>
+                      <span className="flex-1 text-[11px] font-mono text-zinc-300 truncate">
+                        {fn.owner ? `${fn.owner}.` : ''}{fn.name}
+                      </span>
+                      <span className={`text-[8px] font-mono uppercase px-1 py-0.5 rounded border ${CHANGE_STYLES[fn.change]}`}>{fn.change}</span>
+                      <span className="text-[9px] text-zinc-600 w-14 text-right">{fn.isTested ? fn.strength : 'untested'}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
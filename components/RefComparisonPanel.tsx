@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { FunctionDiffStatus, GitRef, GitRefType, RefComparison } from '../types';
+import { RefSelector } from './RefSelector';
+
+interface RefComparisonPanelProps {
+  refs: GitRef[];
+  defaultBranch?: string;
+  comparison: RefComparison | null;
+  isLoading: boolean;
+  onCompare: (base: { name: string; type: GitRefType }, head: { name: string; type: GitRefType }) => void;
+  onSelectFile: (path: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<FunctionDiffStatus, { label: string; className: string }> = {
+  added: { label: 'added', className: 'text-blue-400 bg-blue-500/10 border-blue-500/20' },
+  removed: { label: 'removed', className: 'text-zinc-400 bg-zinc-500/10 border-zinc-500/20' },
+  newlyCovered: { label: 'now covered', className: 'text-emerald-400 bg-emerald-500/10 border-emerald-500/20' },
+  newlyUncovered: { label: 'lost coverage', className: 'text-red-400 bg-red-500/10 border-red-500/20' },
+  unchanged: { label: 'unchanged', className: 'text-zinc-600 bg-zinc-500/5 border-zinc-800' },
+};
+
+const SUMMARY_ORDER: FunctionDiffStatus[] = ['added', 'removed', 'newlyCovered', 'newlyUncovered'];
+
+// Picker needs a GitRef; refs typed by hand have no known SHA yet
+const toGitRef = (refs: GitRef[], ref: { name: string; type: GitRefType } | null): GitRef | undefined =>
+  ref ? refs.find(r => r.name === ref.name) ?? { ...ref, sha: '' } : undefined;
+
+const formatDelta = (delta: number): string => (delta > 0 ? `+${delta}` : `${delta}`) + '%';
+
+export const RefComparisonPanel: React.FC<RefComparisonPanelProps> = ({
+  refs, defaultBranch, comparison, isLoading, onCompare, onSelectFile, onClose
+}) => {
+  const [baseRef, setBaseRef] = useState<{ name: string; type: GitRefType } | null>(defaultBranch ? { name: defaultBranch, type: 'branch' } : null);
+  const [headRef, setHeadRef] = useState<{ name: string; type: GitRefType } | null>(null);
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="h-10 flex items-center justify-between px-4 border-b border-white/5 bg-black/40">
+        <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">Compare Refs</span>
+        <button onClick={onClose} className="text-[10px] text-zinc-500 hover:text-zinc-200 transition-colors">Back to editor</button>
+      </div>
+
+      {/* Ref Pickers */}
+      <div className="flex items-center gap-3 px-6 py-4 border-b border-white/5">
+        <span className="text-[9px] uppercase text-zinc-600">Base</span>
+        <RefSelector refs={refs} current={toGitRef(refs, baseRef)} defaultBranch={defaultBranch} onSelect={(name, type) => setBaseRef({ name, type })} />
+        <span className="text-zinc-600">←</span>
+        <span className="text-[9px] uppercase text-zinc-600">Head</span>
+        <RefSelector refs={refs} current={toGitRef(refs, headRef)} defaultBranch={defaultBranch} onSelect={(name, type) => setHeadRef({ name, type })} />
+        <button
+          onClick={() => baseRef && headRef && onCompare(baseRef, headRef)}
+          disabled={!baseRef || !headRef || isLoading}
+          className="ml-auto px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded text-[10px] font-bold disabled:opacity-50 transition-colors"
+        >
+          {isLoading ? 'COMPARING...' : 'COMPARE'}
+        </button>
+      </div>
+
+      {comparison && (
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+          {/* Summary */}
+          <div className="flex flex-wrap items-center gap-2">
+            {SUMMARY_ORDER.map(status => (
+              <span key={status} className={`text-[9px] font-mono uppercase px-1.5 py-0.5 rounded border ${STATUS_STYLES[status].className}`}>
+                {comparison.summary[status]} {STATUS_STYLES[status].label}
+              </span>
+            ))}
+            <span className="text-[10px] text-zinc-600 ml-2">
+              {comparison.files.length} files changed · {comparison.unchangedFiles} unchanged
+            </span>
+          </div>
+
+          {/* Per-file Diff */}
+          <div className="space-y-3">
+            {comparison.files.map(file => {
+              const changes = file.functions.filter(fn => fn.status !== 'unchanged');
+              return (
+                <div key={file.path} className="bg-[#0f0f11] border border-[#27272a] rounded-lg">
+                  <button
+                    onClick={() => file.status !== 'removed' && onSelectFile(file.path)}
+                    className="w-full grid grid-cols-[1fr_auto_auto_auto] items-center gap-4 px-3 py-2 border-b border-[#27272a] text-left hover:bg-[#18181b] transition-colors"
+                  >
+                    <span className="text-[11px] font-mono text-zinc-300 truncate">{file.path}</span>
+                    <span className="text-[10px] font-mono text-zinc-500 w-12 text-right">{file.base ? `${file.base.coveragePercentage}%` : '-'}</span>
+                    <span className="text-[10px] font-mono text-zinc-300 w-12 text-right">{file.head ? `${file.head.coveragePercentage}%` : '-'}</span>
+                    <span className={`text-[10px] font-mono w-14 text-right ${file.status !== 'modified' ? 'text-zinc-500' : file.coverageDelta > 0 ? 'text-emerald-400' : file.coverageDelta < 0 ? 'text-red-400' : 'text-zinc-600'}`}>
+                      {file.status === 'modified' ? formatDelta(file.coverageDelta) : file.status}
+                    </span>
+                  </button>
+                  {file.error && <p className="px-3 py-2 text-[10px] text-red-400">{file.error}</p>}
+                  {changes.length > 0 && (
+                    <div className="p-1">
+                      {changes.map(fn => (
+                        <div key={fn.key} className="flex items-center gap-2 px-2 py-1.5">
+                          <span className="flex-1 text-[11px] font-mono text-zinc-300 truncate">{fn.owner ? `${fn.owner}.` : ''}{fn.name}</span>
+                          {fn.status === 'added' && <span className="text-[9px] text-zinc-600">{fn.head?.isTested ? 'tested' : 'untested'}</span>}
+                          <span className={`text-[8px] font-mono uppercase px-1 py-0.5 rounded border ${STATUS_STYLES[fn.status].className}`}>{STATUS_STYLES[fn.status].label}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
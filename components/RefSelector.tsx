@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GitRef, GitRefType } from '../types';
+
+interface RefSelectorProps {
+  refs: GitRef[];
+  current?: GitRef;
+  defaultBranch?: string;
+  onSelect: (name: string, type: GitRefType) => void;
+  disabled?: boolean;
+}
+
+const MAX_VISIBLE_REFS = 50;
+
+const TYPE_LABELS: Record<GitRefType, string> = {
+  branch: 'branch',
+  tag: 'tag',
+  commit: 'commit',
+};
+
+export const RefSelector: React.FC<RefSelectorProps> = ({ refs, current, defaultBranch, onSelect, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const needle = query.trim().toLowerCase();
+  const matches = refs.filter(r => r.name.toLowerCase().includes(needle)).slice(0, MAX_VISIBLE_REFS);
+  const isExactMatch = refs.some(r => r.name === query.trim());
+
+  const choose = (name: string, type: GitRefType) => {
+    setIsOpen(false);
+    setQuery('');
+    onSelect(name, type);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center gap-2 px-3 py-2 bg-[#0f0f11] border border-[#27272a] hover:border-zinc-600 rounded-lg text-[10px] font-mono text-zinc-300 disabled:opacity-50 transition-colors max-w-[180px]"
+        title={current ? `${current.name} @ ${current.sha}` : 'Select branch, tag or commit'}
+      >
+        <svg className="w-3 h-3 text-zinc-500 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 3v12m0 0a3 3 0 103 3m-3-3a3 3 0 013 3m0 0h6a3 3 0 003-3V9m0 0a3 3 0 10-3-3m3 3a3 3 0 01-3-3" /></svg>
+        <span className="truncate">{current ? current.name : 'ref'}</span>
+        {current && current.type !== 'commit' && <span className="text-zinc-600 shrink-0">{current.sha.slice(0, 7)}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-72 bg-[#0f0f11] border border-[#27272a] rounded-lg shadow-2xl z-50 overflow-hidden">
+          <input
+            autoFocus
+            className="w-full bg-transparent border-b border-[#27272a] px-3 py-2 text-[11px] text-zinc-200 focus:outline-none placeholder-zinc-600"
+            placeholder="Filter branches and tags, or paste a SHA"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && query.trim()) {
+                const exact = refs.find(r => r.name === query.trim());
+                choose(query.trim(), exact ? exact.type : 'commit');
+              }
+              if (e.key === 'Escape') setIsOpen(false);
+            }}
+          />
+          <div className="max-h-72 overflow-y-auto custom-scrollbar py-1">
+            {query.trim() && !isExactMatch && (
+              <button
+                onClick={() => choose(query.trim(), 'commit')}
+                className="w-full text-left px-3 py-1.5 text-[11px] text-blue-400 hover:bg-[#18181b]"
+              >
+                Use '{query.trim()}'
+              </button>
+            )}
+            {matches.map(r => (
+              <button
+                key={`${r.type}:${r.name}`}
+                onClick={() => choose(r.name, r.type)}
+                className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left hover:bg-[#18181b] ${current?.name === r.name ? 'bg-blue-500/10' : ''}`}
+              >
+                <span className="text-[11px] font-mono text-zinc-300 truncate">{r.name}</span>
+                <span className="text-[8px] uppercase text-zinc-600 shrink-0">
+                  {r.name === defaultBranch ? 'default' : TYPE_LABELS[r.type]}
+                </span>
+              </button>
+            ))}
+            {matches.length === 0 && !query.trim() && (
+              <p className="px-3 py-2 text-[10px] text-zinc-600">No branches or tags loaded</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
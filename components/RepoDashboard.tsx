@@ -0,0 +1,201 @@
+import React, { useMemo, useState } from 'react';
+import { ChurnReport, CoverageRollup, FileRisk, RepoCoverageReport, ScanProgress } from '../types';
+import { CHURN_WINDOW_DAYS, scoreRisk } from '../services/riskScore';
+import { CoverageChart } from './CoverageChart';
+
+interface RepoDashboardProps {
+  report: RepoCoverageReport | null;
+  progress: ScanProgress | null;
+  churn: ChurnReport | null;
+  churnProgress: ScanProgress | null;
+  onLoadChurn?: () => void; // Unset where commit history is unavailable
+  onSelectFile: (pairId: string) => void;
+  onClose: () => void;
+}
+
+type RollupView = 'byPackage' | 'byDirectory' | 'byArchitecture';
+
+const ROLLUP_TABS: { id: RollupView; label: string }[] = [
+  { id: 'byPackage', label: 'Packages' },
+  { id: 'byDirectory', label: 'Directories' },
+  { id: 'byArchitecture', label: 'Architecture' },
+];
+
+type RiskSort = 'score' | 'uncoveredFunctions' | 'complexity' | 'commits';
+
+const RISK_COLUMNS: { id: RiskSort; label: string }[] = [
+  { id: 'score', label: 'Risk' },
+  { id: 'uncoveredFunctions', label: 'Untested' },
+  { id: 'complexity', label: 'Complexity' },
+  { id: 'commits', label: 'Commits' },
+];
+
+const MAX_RISK_ROWS = 20;
+
+const coverageColor = (percentage: number): string => {
+  if (percentage >= 70) return 'text-emerald-400';
+  if (percentage >= 40) return 'text-amber-400';
+  return 'text-red-400';
+};
+
+const RollupRow: React.FC<{ rollup: CoverageRollup }> = ({ rollup }) => (
+  <div className="flex items-center gap-3 px-3 py-2 rounded-md hover:bg-[#18181b] transition-colors">
+    <span className="flex-1 text-[11px] font-mono text-zinc-300 truncate" title={rollup.key}>
+      {rollup.label ?? rollup.key}
+      {rollup.label && <span className="ml-2 text-zinc-600">{rollup.key}</span>}
+    </span>
+    <span className="text-[9px] text-zinc-600 w-14 text-right">{rollup.files} files</span>
+    <div className="w-24 h-1.5 bg-zinc-900 rounded-full overflow-hidden">
+      <div className="h-full bg-blue-500" style={{ width: `${rollup.coveragePercentage}%` }}></div>
+    </div>
+    <span className={`text-[10px] font-mono w-20 text-right ${coverageColor(rollup.coveragePercentage)}`}>
+      {rollup.testedFunctions}/{rollup.totalFunctions} · {rollup.coveragePercentage}%
+    </span>
+  </div>
+);
+
+export const RepoDashboard: React.FC<RepoDashboardProps> = ({ report, progress, churn, churnProgress, onLoadChurn, onSelectFile, onClose }) => {
+  const [view, setView] = useState<RollupView>('byPackage');
+  const [riskSort, setRiskSort] = useState<RiskSort>('score');
+
+  const risks = useMemo(() => report ? scoreRisk(report.files, churn) : [], [report, churn]);
+  const riskiestFiles = useMemo(
+    () => [...risks].sort((a: FileRisk, b: FileRisk) => (b[riskSort] ?? -1) - (a[riskSort] ?? -1) || b.score - a.score).slice(0, MAX_RISK_ROWS),
+    [risks, riskSort]
+  );
+
+  const isScanning = !report && progress;
+  const weakestFiles = report
+    ? report.files.filter(f => !f.error && f.totalFunctions > 0).sort((a, b) => a.coveragePercentage - b.coveragePercentage).slice(0, 15)
+    : [];
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Header */}
+      <div className="h-10 flex items-center justify-between px-4 border-b border-white/5 bg-black/40">
+        <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">Repository Coverage</span>
+        <button onClick={onClose} className="text-[10px] text-zinc-500 hover:text-zinc-200 transition-colors">Back to editor</button>
+      </div>
+
+      {isScanning && (
+        <div className="flex-1 flex flex-col items-center justify-center gap-3">
+          <span className="text-xs text-blue-400 font-mono">Scanning {progress.completed}/{progress.total} files...</span>
+          <div className="w-64 h-1.5 bg-zinc-900 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all duration-300"
+              style={{ width: `${progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+            ></div>
+          </div>
+          {progress.current && <span className="text-[9px] text-zinc-600 font-mono truncate max-w-md">{progress.current}</span>}
+        </div>
+      )}
+
+      {report && (
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+          {/* Totals */}
+          <div className="flex items-center gap-8">
+            <div className="w-32 h-32 relative shrink-0">
+              <CoverageChart covered={report.totals.testedFunctions} total={report.totals.totalFunctions} breakdown={report.totals.strengthBreakdown} />
+              <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+                <span className="text-3xl font-bold text-white drop-shadow-lg">{report.totals.coveragePercentage}%</span>
+                <span className="text-[9px] text-zinc-500 uppercase">Repo</span>
+              </div>
+            </div>
+            <div className="space-y-1 text-[11px] text-zinc-400">
+              <p><span className="text-zinc-200 font-bold">{report.totals.testedFunctions}/{report.totals.totalFunctions}</span> public methods tested across <span className="text-zinc-200 font-bold">{report.totals.files}</span> files</p>
+              <p>{report.files.filter(f => !f.hasTestFile).length} files have no matching test file</p>
+              {report.failedFiles > 0 && <p className="text-red-400">{report.failedFiles} files could not be analyzed</p>}
+              <p className="text-[9px] text-zinc-600 font-mono">Scanned {new Date(report.scannedAt).toLocaleString()}</p>
+            </div>
+          </div>
+
+          {/* Rollups */}
+          <div className="bg-[#0f0f11] border border-[#27272a] rounded-lg">
+            <div className="flex items-center gap-1 p-2 border-b border-[#27272a]">
+              {ROLLUP_TABS.map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setView(tab.id)}
+                  className={`text-[10px] px-2 py-1 rounded transition-colors ${view === tab.id ? 'bg-blue-500/10 text-blue-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+            <div className="p-1">
+              {report[view].map(rollup => <RollupRow key={rollup.key} rollup={rollup} />)}
+            </div>
+          </div>
+
+          {/* Riskiest Untested Files */}
+          {risks.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-[9px] font-bold text-zinc-500 uppercase">Riskiest Untested Files</span>
+                {churnProgress ? (
+                  <span className="text-[10px] text-blue-400 font-mono">Reading history {churnProgress.completed}/{churnProgress.total}...</span>
+                ) : churn ? (
+                  <span className="text-[9px] text-zinc-600">
+                    Commits since {new Date(churn.since).toLocaleDateString()}
+                    {churn.failed > 0 && <span className="text-amber-400"> · {churn.failed} files without history</span>}
+                  </span>
+                ) : onLoadChurn && (
+                  <button onClick={onLoadChurn} className="text-[10px] text-blue-400 hover:text-blue-300 transition-colors" title={`One API request per file, last ${CHURN_WINDOW_DAYS} days`}>
+                    Include commit churn
+                  </button>
+                )}
+              </div>
+              <div className="bg-[#0f0f11] border border-[#27272a] rounded-lg p-1">
+                <div className="flex items-center gap-3 px-3 py-1 text-[9px] text-zinc-600 uppercase">
+                  <span className="flex-1">File</span>
+                  {RISK_COLUMNS.filter(column => column.id !== 'commits' || churn).map(column => (
+                    <button
+                      key={column.id}
+                      onClick={() => setRiskSort(column.id)}
+                      className={`w-14 text-right transition-colors ${riskSort === column.id ? 'text-blue-400' : 'hover:text-zinc-300'}`}
+                    >
+                      {column.label}
+                    </button>
+                  ))}
+                </div>
+                {riskiestFiles.map(risk => (
+                  <button
+                    key={risk.pairId}
+                    onClick={() => onSelectFile(risk.pairId)}
+                    className="w-full flex items-center gap-3 px-3 py-2 rounded-md hover:bg-[#18181b] transition-colors text-left"
+                  >
+                    <span className="flex-1 text-[11px] font-mono text-zinc-300 truncate">{risk.path}</span>
+                    <span className={`w-14 text-right text-[10px] font-mono ${coverageColor(100 - risk.score)}`}>{risk.score}</span>
+                    <span className="w-14 text-right text-[10px] font-mono text-zinc-400">{risk.uncoveredFunctions}</span>
+                    <span className="w-14 text-right text-[10px] font-mono text-zinc-400">{risk.complexity}</span>
+                    {churn && <span className="w-14 text-right text-[10px] font-mono text-zinc-400">{risk.commits ?? '–'}</span>}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Weakest Files */}
+          <div className="space-y-2">
+            <span className="text-[9px] font-bold text-zinc-500 uppercase">Lowest Coverage</span>
+            <div className="bg-[#0f0f11] border border-[#27272a] rounded-lg p-1">
+              {weakestFiles.map(file => (
+                <button
+                  key={file.pairId}
+                  onClick={() => onSelectFile(file.pairId)}
+                  className="w-full flex items-center gap-3 px-3 py-2 rounded-md hover:bg-[#18181b] transition-colors text-left"
+                >
+                  <span className="flex-1 text-[11px] font-mono text-zinc-300 truncate">{file.path}</span>
+                  <span className="text-[9px] text-zinc-600 uppercase">{file.architectureType}</span>
+                  <span className={`text-[10px] font-mono w-20 text-right ${coverageColor(file.coveragePercentage)}`}>
+                    {file.testedFunctions}/{file.totalFunctions} · {file.coveragePercentage}%
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
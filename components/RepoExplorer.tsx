@@ -107,6 +107,16 @@ export const RepoExplorer: React.FC<RepoExplorerProps> = ({ structure, onSelectP
       {/* Footer Stats */}
       <div className="h-8 border-t border-white/5 flex items-center justify-center gap-4 text-[9px] text-zinc-600 font-mono bg-black/20">
           <span>{structure.unpairedTests.length} Orphan Tests</span>
+          {structure.treeStats && (
+              <span
+                  className={structure.treeStats.complete ? (structure.treeStats.truncated ? 'text-amber-500' : '') : 'text-red-400'}
+                  title={structure.treeStats.truncated
+                      ? `GitHub truncated the tree; it was walked in ${structure.treeStats.requests} requests${structure.treeStats.complete ? '' : ' and some directories were skipped'}`
+                      : undefined}
+              >
+                  {structure.treeStats.totalFiles} Files{structure.treeStats.complete ? '' : ' (partial)'}
+              </span>
+          )}
       </div>
     </div>
   );
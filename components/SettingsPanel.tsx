@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CacheStats } from '../types';
+import { ContentCache } from '../services/contentCache';
+
+interface SettingsPanelProps {
+  cache: ContentCache;
+  githubHostUrl: string;
+  onGithubHostChange: (webUrl: string) => void;
+  providerTokens: Record<'gitlab' | 'bitbucket', string>;
+  onProviderTokenChange: (provider: 'gitlab' | 'bitbucket', token: string) => void;
+}
+
+const TOKEN_FIELDS: { provider: 'gitlab' | 'bitbucket'; label: string }[] = [
+  { provider: 'gitlab', label: 'GitLab token' },
+  { provider: 'bitbucket', label: 'Bitbucket token' },
+];
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ cache, githubHostUrl, onGithubHostChange, providerTokens, onProviderTokenChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [hostInput, setHostInput] = useState(githubHostUrl);
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Sizes are read fresh each time the panel opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setHostInput(githubHostUrl);
+    cache.stats().then(setStats).catch(() => setStats(null));
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen, cache, githubHostUrl]);
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    try {
+      await cache.clear();
+      setStats(await cache.stats());
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-1.5 text-zinc-500 hover:text-zinc-200 transition-colors"
+        title="Settings"
+        aria-label="Settings"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-72 bg-[#0f0f11] border border-[#27272a] rounded-lg shadow-2xl z-50 p-4 space-y-3">
+          <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">GitHub Host</span>
+          <p className="text-[10px] text-zinc-600">
+            Web URL of a GitHub Enterprise Server instance. Leave empty for github.com.
+          </p>
+          <div className="flex gap-2">
+            <input
+              className="flex-1 min-w-0 bg-transparent border border-[#27272a] rounded px-2 py-1.5 text-[11px] font-mono text-zinc-200 focus:border-blue-500/50 focus:outline-none placeholder-zinc-600"
+              placeholder="https://github.com"
+              value={hostInput}
+              onChange={(e) => setHostInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && onGithubHostChange(hostInput)}
+            />
+            <button
+              onClick={() => onGithubHostChange(hostInput)}
+              disabled={hostInput.trim() === githubHostUrl}
+              className="px-2 py-1.5 border border-zinc-800 hover:border-zinc-600 text-zinc-300 disabled:opacity-50 text-[10px] font-bold rounded transition-colors"
+            >
+              SAVE
+            </button>
+          </div>
+
+          <div className="border-t border-[#27272a]" />
+
+          <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">Other Providers</span>
+          <p className="text-[10px] text-zinc-600">
+            Needed for private GitLab and Bitbucket repositories. Each token is only sent to its own provider.
+          </p>
+          {TOKEN_FIELDS.map(({ provider, label }) => (
+            <input
+              key={provider}
+              type="password"
+              className="w-full bg-transparent border border-[#27272a] rounded px-2 py-1.5 text-[11px] font-mono text-zinc-200 focus:border-blue-500/50 focus:outline-none placeholder-zinc-600"
+              placeholder={label}
+              value={providerTokens[provider]}
+              onChange={(e) => onProviderTokenChange(provider, e.target.value)}
+            />
+          ))}
+
+          <div className="border-t border-[#27272a]" />
+
+          <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">Offline Cache</span>
+          <p className="text-[10px] text-zinc-600">
+            Trees and files are stored by SHA, so re-opening a repository skips the API.
+          </p>
+          {stats ? (
+            <div className="grid grid-cols-2 gap-y-1 text-[11px] font-mono">
+              <span className="text-zinc-500">Trees</span><span className="text-zinc-300 text-right">{stats.trees}</span>
+              <span className="text-zinc-500">Files</span><span className="text-zinc-300 text-right">{stats.blobs}</span>
+              <span className="text-zinc-500">Size</span><span className="text-zinc-300 text-right">{formatBytes(stats.bytes)}</span>
+            </div>
+          ) : (
+            <p className="text-[10px] text-zinc-600">Cache unavailable</p>
+          )}
+          <button
+            onClick={handleClear}
+            disabled={isClearing || !stats || stats.trees + stats.blobs === 0}
+            className="w-full px-3 py-2 border border-zinc-800 hover:border-red-500/50 hover:text-red-400 text-zinc-300 disabled:opacity-50 text-[10px] font-bold rounded transition-colors"
+          >
+            {isClearing ? 'CLEARING...' : 'CLEAR CACHE'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+/**
+ * Static Analysis Engine Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeFlutterCoverageStatic, generateMissingTestsStatic, parseDartFunctions } from './analysisEngine';
+import { parsePubspecDependencies } from './repoStructure';
+
+const noDependencies = parsePubspecDependencies('');
+
+const MULTI_DECLARATION_SOURCE = `
+class Formatter {
+  String format(int value) => '$value';
+  static Formatter standard() => Formatter();
+}
+
+mixin Describable {
+  String describe() => 'thing';
+}
+
+extension on DateTime {
+  String toIso() => toIso8601String();
+}
+
+String shout(String s) => s.toUpperCase();
+`;
+
+describe('Function ownership', () => {
+  it('should record the owning declaration and static flag', () => {
+    const fns = parseDartFunctions(MULTI_DECLARATION_SOURCE);
+    expect(fns.map(f => [f.name, f.owner, f.ownerKind, f.isStatic])).toEqual([
+      ['format', 'Formatter', 'class', false],
+      ['standard', 'Formatter', 'class', true],
+      ['describe', 'Describable', 'mixin', false],
+      ['toIso', 'on DateTime', 'extension', false],
+      ['shout', '', 'topLevel', false],
+    ]);
+  });
+
+  it('should skip abstract and interface methods without a body', () => {
+    const fns = parseDartFunctions(`
+abstract class UserRepository {
+  Future<User> fetchUser(String id);
+  Stream<User> get users;
+  bool isCached(String id) => false;
+}
+
+abstract interface class Clock {
+  DateTime now();
+}
+
+class SystemClock implements Clock {
+  @override
+  DateTime now() => DateTime.now();
+}
+`);
+    expect(fns.map(f => [f.owner, f.name])).toEqual([
+      ['UserRepository', 'isCached'],
+      ['SystemClock', 'now'],
+    ]);
+  });
+
+  it('should group the report per declaration', () => {
+    const report = analyzeFlutterCoverageStatic(
+      MULTI_DECLARATION_SOURCE,
+      `void main() { test('format', () { expect(Formatter().format(1), '1'); }); }`,
+      noDependencies
+    );
+
+    expect(report.declarations.map(d => [d.kind, d.name, d.testedFunctions, d.totalFunctions])).toEqual([
+      ['class', 'Formatter', 1, 2],
+      ['mixin', 'Describable', 0, 1],
+      ['extension', 'on DateTime', 0, 1],
+      ['topLevel', '', 0, 1],
+    ]);
+    expect(report.declarations[0].coveragePercentage).toBe(50);
+  });
+});
+
+describe('Complexity-weighted coverage', () => {
+  it('should let branchy functions count for more than trivial ones', () => {
+    const report = analyzeFlutterCoverageStatic(`
+class Cart {
+  int get count => _items.length;
+  double total(bool member) {
+    if (_items.isEmpty) return 0;
+    final sum = _items.fold(0.0, (a, b) => a + b.price);
+    return member && sum > 100 ? sum * 0.9 : sum;
+  }
+}
+`, `void main() { test('count', () { expect(Cart().count, 0); }); }`, noDependencies);
+
+    expect(report.functions.map(f => [f.name, f.complexity])).toEqual([['count', 1], ['total', 4]]);
+    expect(report.coveragePercentage).toBe(50);
+    expect(report.weightedCoveragePercentage).toBe(20);
+  });
+});
+
+describe('generateMissingTestsStatic', () => {
+  it('should target the real owner instead of the file name', () => {
+    const report = analyzeFlutterCoverageStatic(MULTI_DECLARATION_SOURCE, '', noDependencies);
+    const result = generateMissingTestsStatic(
+      MULTI_DECLARATION_SOURCE,
+      report.functions.filter(f => !f.isTested),
+      noDependencies
+    );
+
+    expect(result.code).toContain(`group('Formatter Tests'`);
+    expect(result.code).toContain('final instance = Formatter();');
+    expect(result.code).toContain('Formatter.standard()');
+    expect(result.code).toContain(`group('Describable Tests'`);
+    expect(result.code).toContain(`group('Top-level functions Tests'`);
+    expect(result.code).toContain('final result = shout();');
+  });
+
+  it('should follow the mockito and bloc_test APIs of the pinned versions', () => {
+    const generate = (devDependencies: string) => {
+      const deps = parsePubspecDependencies(`dev_dependencies:\n${devDependencies}`);
+      const report = analyzeFlutterCoverageStatic(MULTI_DECLARATION_SOURCE, '', deps);
+      return generateMissingTestsStatic(MULTI_DECLARATION_SOURCE, report.functions, deps).code;
+    };
+
+    expect(generate('  mockito: ^5.4.0\n')).toContain('@GenerateNiceMocks([MockSpec<YourDependency>()])\nvoid main() {');
+    expect(generate('  mockito: ">=5.0.0 <5.3.0"\n')).toContain('@GenerateMocks([YourDependency])');
+
+    const legacy = generate('  mockito: ^4.1.1\n');
+    expect(legacy).toContain('class MockYourDependency extends Mock implements YourDependency {}');
+    expect(legacy).not.toContain('annotations.dart');
+  });
+
+  it('should suggest the test packages the pubspec already has', () => {
+    const clockSource = 'class Session {\n  bool get expired => DateTime.now().isAfter(end);\n}\n';
+    const deps = parsePubspecDependencies('dev_dependencies:\n  clock: ^1.1.0\n  mockito: ^4.0.0\n');
+
+    const { suggestions } = analyzeFlutterCoverageStatic(clockSource, '', deps);
+
+    expect(suggestions).toContain('Read the time through clock.now() and pin it with withClock() in tests');
+    expect(suggestions).toContain('Upgrade to mockito 5 for null-safe generated mocks');
+  });
+});
+
+describe('Assertion strength', () => {
+  const CALCULATOR = `
+class Calculator {
+  int add(int a, int b) => a + b;
+  int divide(int a, int b) => a ~/ b;
+  int square(int a) => a * a;
+}
+`;
+
+  const CALCULATOR_TEST = `
+void main() {
+  late Calculator calculator;
+  setUp(() => calculator = Calculator());
+
+  test('add sums', () {
+    expect(calculator.add(1, 2), equals(3));
+  });
+
+  test('add handles negatives', () {
+    expect(calculator.add(-1, -2), -3);
+  });
+
+  test('divide returns something', () {
+    expect(calculator.divide(4, 2), isNotNull);
+  });
+
+  test('square runs', () {
+    calculator.square(3);
+  });
+}
+`;
+
+  it('should grade functions by how well their tests check them', () => {
+    const report = analyzeFlutterCoverageStatic(CALCULATOR, CALCULATOR_TEST, noDependencies);
+    const byName = Object.fromEntries(report.functions.map(f => [f.name, f]));
+
+    expect(byName['add'].strength).toBe('strong');
+    expect(byName['divide'].strength).toBe('weak');
+    expect(byName['square'].strength).toBe('weak');
+    expect(byName['square'].strengthScore).toBeLessThan(byName['divide'].strengthScore);
+    expect(report.strengthBreakdown).toEqual({ none: 0, weak: 2, partial: 0, strong: 1 });
+  });
+
+  it('should reward error-path checks', () => {
+    const report = analyzeFlutterCoverageStatic(CALCULATOR, `
+void main() {
+  final calculator = Calculator();
+  test('divide by zero throws', () {
+    expect(() => calculator.divide(1, 0), throwsA(isA<UnsupportedError>()));
+  });
+}
+`, noDependencies);
+    const divide = report.functions.find(f => f.name === 'divide')!;
+    expect(divide.strengthScore).toBe(50);
+    expect(divide.strength).toBe('partial');
+    expect(report.functions.find(f => f.name === 'add')!.strength).toBe('none');
+  });
+});
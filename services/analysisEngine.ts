@@ -1,5 +1,10 @@
 
-import { ArchitectureType, AnalysisReport, FunctionMetadata, PackageDependencies, GeneratedTestResponse } from "../types";
+import { ArchitectureType, AnalysisReport, CoverageStrength, DeclarationCoverage, FunctionMetadata, LcovFileCoverage, MeasuredCoverage, OwnerKind, PackageDependencies, GeneratedTestResponse, StrengthBreakdown } from "../types";
+import { DartDeclaration, DartMember, DartMemberKind, cyclomaticComplexity, parseDartSource, tokenizeDart } from "./dartParser";
+import { detectDisagreement, measureSpan, summarizeMeasuredCoverage } from "./lcovService";
+import { dependencyConstraint, minimumVersion } from "./repoStructure";
+import { CallSite, TestAssertion, TestCase, TestFileModel, TestTarget, analyzeTestFile, findCallSites } from "./testFileAnalyzer";
+import { detectTestSmells } from "./testSmellDetector";
 
 /**
  * Performs client-side static analysis to detect the architectural component type
@@ -76,116 +81,157 @@ export const extractImports = (code: string): string[] => {
  */
 interface ParsedFunction {
   name: string;
+  kind: DartMemberKind;
   signature: string;
   lineStart: number;
   lineEnd: number;
+  complexity: number;
   isPublic: boolean;
+  isStatic: boolean;
   returnType: string;
   isAsync: boolean;
+  parameters: string;
+  owner: string;
+  ownerKind: OwnerKind;
 }
 
+// Members that are boilerplate or generated and rarely deserve their own test
+const IGNORED_MEMBER_NAMES = new Set(['build', 'createState', 'toJson', 'fromJson', 'toString', 'hashCode', 'operator ==']);
+
+const isTestableMember = (member: DartMember): boolean => {
+  if (!member.isPublic || member.kind === 'field' || member.kind === 'constructor') return false;
+  // Abstract and interface methods and redirecting factories (e.g. Freezed `= _User`) have no logic of their own
+  if (!member.hasBody && !member.isExternal) return false;
+  const shortName = member.kind === 'factory' ? member.name.split('.').pop() || member.name : member.name;
+  return !IGNORED_MEMBER_NAMES.has(shortName);
+};
+
+// Unnamed extensions are labelled by the type they extend
+const declarationName = (decl: DartDeclaration): string =>
+  decl.name || `on ${decl.onTypes.join(', ') || 'dynamic'}`;
+
 export const parseDartFunctions = (code: string): ParsedFunction[] => {
-  const functions: ParsedFunction[] = [];
-  const lines = code.split('\n');
-
-  // Match method declarations (handles Future, async, static, etc.)
-  const functionRegex = /^\s*(static\s+)?(Future<[^>]+>|Stream<[^>]+>|[\w<>?]+)?\s+(\w+)\s*\(([^)]*)\)\s*(async)?\s*(?:=>|\{)/;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const match = line.match(functionRegex);
-
-    if (match) {
-      const name = match[3];
-
-      // Filter: Ignore private, constructors, build, common overrides
-      if (!name.startsWith('_') &&
-        name !== 'build' &&
-        name !== 'createState' &&
-        name !== 'toJson' &&
-        name !== 'fromJson' &&
-        name !== 'toString' &&
-        name !== 'hashCode' &&
-        !/^[A-Z]/.test(name)) { // Not a constructor
-
-        functions.push({
-          name,
-          signature: line.trim(),
-          lineStart: i + 1,
-          lineEnd: -1,
-          isPublic: true,
-          returnType: match[2] || 'void',
-          isAsync: !!match[5]
-        });
-      }
-    }
-  }
+  const unit = parseDartSource(code);
+  const tokens = tokenizeDart(code);
+  const owned: { member: DartMember; owner: string; ownerKind: OwnerKind }[] = [
+    ...unit.topLevel.map(member => ({ member, owner: '', ownerKind: 'topLevel' as OwnerKind })),
+    ...unit.declarations.flatMap(decl =>
+      decl.members.map(member => ({ member, owner: declarationName(decl), ownerKind: decl.kind as OwnerKind }))
+    ),
+  ];
+
+  return owned
+    .filter(({ member }) => isTestableMember(member))
+    .sort((a, b) => a.member.lineStart - b.member.lineStart)
+    .map(({ member, owner, ownerKind }) => ({
+      name: member.name,
+      kind: member.kind,
+      signature: member.signature,
+      lineStart: member.lineStart,
+      lineEnd: member.lineEnd,
+      complexity: cyclomaticComplexity(code, tokens.filter(t => t.start >= member.start && t.end <= member.end)),
+      isPublic: member.isPublic,
+      isStatic: member.isStatic,
+      returnType: member.returnType,
+      isAsync: member.isAsync,
+      parameters: member.parameters,
+      owner,
+      ownerKind
+    }));
+};
+
+// Matchers that only prove something was returned, not what
+const WEAK_MATCHERS = new Set(['isNotNull', 'anything', 'isA', 'isInstanceOf', 'isNotEmpty', 'returnsNormally', 'findsWidgets', 'none']);
+const ERROR_MATCHERS = /^(throws\w*|emitsError|isA?Failure)$/;
+
+/**
+ * Grades how well the tests that call a function check it.
+ * Signals: distinct test cases (up to 30), any assertion (20),
+ * a specific matcher (30) and an error-path check (20).
+ */
+export const scoreAssertionStrength = (calls: CallSite[]): { strength: CoverageStrength; score: number } => {
+  if (calls.length === 0) return { strength: 'none', score: 0 };
+
+  const tests = [...new Set(calls.map(c => c.test).filter((t): t is TestCase => t !== null))];
+  const assertions = tests.flatMap(t => t.assertions);
+  const isErrorPath = (a: TestAssertion) => a.kind === 'blocErrors' || ERROR_MATCHERS.test(a.matcher);
+
+  let score = Math.min(tests.length, 3) * 10;
+  if (assertions.length > 0) score += 20;
+  if (assertions.some(a => !isErrorPath(a) && !WEAK_MATCHERS.has(a.matcher))) score += 30;
+  if (assertions.some(isErrorPath)) score += 20;
+  // Calls made only from setUp still exercise the function
+  score = Math.max(score, 10);
+
+  const strength: CoverageStrength = score >= 70 ? 'strong' : score >= 40 ? 'partial' : 'weak';
+  return { strength, score };
+};
 
-  return functions;
+export const countByStrength = (functions: FunctionMetadata[]): StrengthBreakdown => {
+  const breakdown: StrengthBreakdown = { none: 0, weak: 0, partial: 0, strong: 0 };
+  functions.forEach(fn => breakdown[fn.strength]++);
+  return breakdown;
 };
 
 /**
- * Find if a function is tested in test code
+ * Find if a function is tested in test code.
+ * Only calls made on the system under test count; calls on mocks are
+ * reported separately as stubs.
  */
 export const findTestsForFunction = (
-  functionName: string,
-  testCode: string
-): { isTested: boolean; testCount: number; details: string[] } => {
+  fn: TestTarget,
+  testCode: string,
+  testModel?: TestFileModel
+): { isTested: boolean; testCount: number; strength: CoverageStrength; strengthScore: number; calls: CallSite[]; stubs: CallSite[]; details: string[] } => {
 
   if (!testCode || testCode.startsWith('//')) {
-    return { isTested: false, testCount: 0, details: ['No test file'] };
+    return { isTested: false, testCount: 0, strength: 'none', strengthScore: 0, calls: [], stubs: [], details: ['No test file'] };
   }
 
+  const model = testModel || analyzeTestFile(testCode);
+  const { calls, stubs } = findCallSites(model, fn);
   const details: string[] = [];
-  let testCount = 0;
-
-  // Pattern 1: Test descriptions mentioning the function
-  const testPatterns = [
-    new RegExp(`test\\(['"][^'"]*${functionName}[^'"]*['"]`, 'gi'),
-    new RegExp(`testWidgets\\(['"][^'"]*${functionName}[^'"]*['"]`, 'gi'),
-    new RegExp(`blocTest<[^>]+>\\(['"][^'"]*${functionName}[^'"]*['"]`, 'gi'),
-  ];
+  const describeSite = (site: CallSite) => {
+    const where = site.test ? `in '${site.test.name}'` : 'outside any test';
+    return `${where} (line ${site.line})`;
+  };
 
-  for (const pattern of testPatterns) {
-    const matches = [...testCode.matchAll(pattern)];
-    testCount += matches.length;
-    matches.forEach(m => {
-      details.push(`Test found: ${m[0].substring(0, 60)}...`);
-    });
+  calls.slice(0, 3).forEach(site => {
+    details.push(`Called ${site.receiver ? `on ${site.receiver} ` : ''}${describeSite(site)}`);
+  });
+  if (calls.length > 3) {
+    details.push(`+${calls.length - 3} more call(s)`);
   }
-
-  // Pattern 2: Direct function invocations in test
-  const invocationPattern = new RegExp(`\\b${functionName}\\s*\\(`, 'g');
-  const invocations = [...testCode.matchAll(invocationPattern)];
-
-  if (invocations.length > 0) {
-    details.push(`Function invoked ${invocations.length} time(s)`);
+  if (calls.length === 0 && stubs.length > 0) {
+    details.push(`Only stubbed on mock ${stubs[0].receiver} ${describeSite(stubs[0])} - never called on the system under test`);
   }
 
-  // Pattern 3: Verify/expect statements
-  const verifyPattern = new RegExp(`(verify|expect)\\([^)]*${functionName}`, 'gi');
-  const verifications = [...testCode.matchAll(verifyPattern)];
-
-  if (verifications.length > 0) {
-    details.push(`${verifications.length} assertion(s) found`);
+  const testCount = new Set(calls.map(c => c.test).filter(Boolean)).size;
+  const { strength, score } = scoreAssertionStrength(calls);
+  if (strength === 'weak') {
+    details.push('Weak checks - add specific assertions (e.g. equals) and error-path tests');
   }
 
-  const isTested = testCount > 0 || invocations.length > 0 || verifications.length > 0;
-
   return {
-    isTested,
-    testCount: testCount + invocations.length,
+    isTested: calls.length > 0,
+    testCount,
+    strength,
+    strengthScore: score,
+    calls,
+    stubs,
     details: details.length > 0 ? details : ['No test references found']
   };
 };
 
 /**
  * MAIN STATIC ANALYSIS FUNCTION - Replaces AI analysis
+ * When an lcov record for the file is given, measured coverage is reported alongside.
  */
 export const analyzeFlutterCoverageStatic = (
   prodCode: string,
   testCode: string,
-  dependencies: PackageDependencies
+  dependencies: PackageDependencies,
+  lcovFile?: LcovFileCoverage
 ): AnalysisReport => {
 
   if (!prodCode || prodCode === 'Loading...') {
@@ -194,44 +240,111 @@ export const analyzeFlutterCoverageStatic = (
 
   const functions = parseDartFunctions(prodCode);
   const archType = detectArchitecture(prodCode);
+  const testModel = testCode ? analyzeTestFile(testCode) : undefined;
 
   const analyzedFunctions: FunctionMetadata[] = functions.map(fn => {
-    const testResult = findTestsForFunction(fn.name, testCode);
+    const testResult = findTestsForFunction(fn, testCode, testModel);
+    const measured = lcovFile ? measureSpan(lcovFile, fn.lineStart, fn.lineEnd) : undefined;
 
     return {
       name: fn.name,
       signature: fn.signature,
       isTested: testResult.isTested,
-      reason: testResult.isTested
-        ? testResult.details.join(', ')
-        : 'No test coverage detected - Consider adding unit tests'
+      strength: testResult.strength,
+      strengthScore: testResult.strengthScore,
+      reason: testResult.isTested || testResult.stubs.length > 0
+        ? testResult.details.join('; ')
+        : 'No test coverage detected - Consider adding unit tests',
+      owner: fn.owner,
+      ownerKind: fn.ownerKind,
+      isStatic: fn.isStatic,
+      isSetter: fn.kind === 'setter',
+      lineStart: fn.lineStart,
+      lineEnd: fn.lineEnd,
+      complexity: fn.complexity,
+      measured,
+      disagreement: measured ? detectDisagreement(testResult.isTested, measured) : undefined
     };
   });
 
   const testedCount = analyzedFunctions.filter(f => f.isTested).length;
   const totalCount = analyzedFunctions.length;
   const coverage = totalCount > 0 ? Math.round((testedCount / totalCount) * 100) : 0;
+  const declarations = groupByDeclaration(analyzedFunctions);
+  const measured = lcovFile ? summarizeMeasuredCoverage(lcovFile, analyzedFunctions) : undefined;
 
   return {
     architectureType: archType,
     totalFunctions: totalCount,
     testedFunctions: testedCount,
     coveragePercentage: coverage,
+    weightedCoveragePercentage: weightedCoverage(analyzedFunctions),
+    strengthBreakdown: countByStrength(analyzedFunctions),
     functions: analyzedFunctions,
-    summary: generateStaticSummary(testedCount, totalCount, archType, dependencies),
-    suggestions: generateStaticSuggestions(analyzedFunctions, archType, dependencies)
+    declarations,
+    measured,
+    testSmells: testModel ? detectTestSmells(testCode, testModel) : [],
+    summary: generateStaticSummary(testedCount, totalCount, archType, dependencies, declarations.length, measured),
+    suggestions: generateStaticSuggestions(analyzedFunctions, archType, dependencies, prodCode)
   };
 };
 
+/**
+ * Coverage with each function weighted by its cyclomatic complexity, so an
+ * untested branchy method costs more than an untested getter
+ */
+export const weightedCoverage = (functions: Pick<FunctionMetadata, 'isTested' | 'complexity'>[]): number => {
+  const total = functions.reduce((sum, fn) => sum + fn.complexity, 0);
+  const tested = functions.reduce((sum, fn) => sum + (fn.isTested ? fn.complexity : 0), 0);
+  return total > 0 ? Math.round((tested / total) * 100) : 0;
+};
+
+/**
+ * Groups analyzed functions by their owning declaration, in source order
+ */
+export const groupByDeclaration = (functions: FunctionMetadata[]): DeclarationCoverage[] => {
+  const groups = new Map<string, DeclarationCoverage>();
+
+  for (const fn of functions) {
+    const key = `${fn.ownerKind}:${fn.owner}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        name: fn.owner,
+        kind: fn.ownerKind,
+        totalFunctions: 0,
+        testedFunctions: 0,
+        coveragePercentage: 0,
+        strengthBreakdown: { none: 0, weak: 0, partial: 0, strong: 0 },
+        functions: []
+      };
+      groups.set(key, group);
+    }
+    group.functions.push(fn);
+    group.totalFunctions++;
+    if (fn.isTested) group.testedFunctions++;
+  }
+
+  return [...groups.values()].map(group => ({
+    ...group,
+    coveragePercentage: Math.round((group.testedFunctions / group.totalFunctions) * 100),
+    strengthBreakdown: countByStrength(group.functions)
+  }));
+};
+
 const generateStaticSummary = (
   tested: number,
   total: number,
   arch: ArchitectureType,
-  deps: PackageDependencies
+  deps: PackageDependencies,
+  declarationCount: number,
+  measured?: MeasuredCoverage
 ): string => {
   const coverage = total > 0 ? Math.round((tested / total) * 100) : 0;
 
-  let summary = `Static analysis detected ${total} public methods in this ${arch} class. `;
+  let summary = declarationCount > 1
+    ? `Static analysis detected ${total} public methods across ${declarationCount} declarations in this ${arch} file. `
+    : `Static analysis detected ${total} public methods in this ${arch} class. `;
 
   if (coverage === 100) {
     summary += '✅ Excellent! All methods have test coverage.';
@@ -243,13 +356,40 @@ const generateStaticSummary = (
     summary += `Only ${tested}/${total} methods are tested (${coverage}%). ⚠️ Low coverage detected!`;
   }
 
+  if (measured) {
+    summary += ` lcov measured ${measured.lineCoveragePercentage}% of lines and ${measured.functionsHit}/${measured.functionsMeasured} methods.`;
+    if (measured.disagreements > 0) {
+      summary += ` ${measured.disagreements} method(s) disagree with the static estimate.`;
+    }
+  }
+
   return summary;
 };
 
+type MockitoStyle = 'niceMocks' | 'generateMocks' | 'manual';
+
+/**
+ * mockito 5 generates null-safe mocks with build_runner (@GenerateNiceMocks from 5.3),
+ * older releases use hand-written mock classes. Unpinned versions get the current API.
+ */
+export const mockitoStyle = (deps: PackageDependencies): MockitoStyle => {
+  const version = minimumVersion(dependencyConstraint(deps, 'mockito'));
+  if (!version) return 'niceMocks';
+  if (version.major < 5) return 'manual';
+  return version.major === 5 && version.minor < 3 ? 'generateMocks' : 'niceMocks';
+};
+
+// bloc_test 8 made `expect` a function so states are built lazily
+const hasLazyBlocExpect = (deps: PackageDependencies): boolean =>
+  (minimumVersion(dependencyConstraint(deps, 'bloc_test'))?.major ?? 8) >= 8;
+
+const TIME_DEPENDENT = /\bDateTime\.now\(\)|\bTimer(?:\.periodic)?\(|\bFuture\.delayed\(|\bStopwatch\(/;
+
 const generateStaticSuggestions = (
   functions: FunctionMetadata[],
   arch: ArchitectureType,
-  deps: PackageDependencies
+  deps: PackageDependencies,
+  prodCode: string
 ): string[] => {
   const suggestions: string[] = [];
   const untested = functions.filter(f => !f.isTested);
@@ -258,6 +398,21 @@ const generateStaticSuggestions = (
     suggestions.push(`Add unit tests for: ${untested.slice(0, 5).map(f => f.name).join(', ')}${untested.length > 5 ? '...' : ''}`);
   }
 
+  const weak = functions.filter(f => f.strength === 'weak');
+  if (weak.length > 0) {
+    suggestions.push(`Strengthen assertions for: ${weak.slice(0, 5).map(f => f.name).join(', ')}${weak.length > 5 ? '...' : ''}`);
+  }
+
+  const neverRan = functions.filter(f => f.disagreement === 'staticOnly');
+  if (neverRan.length > 0) {
+    suggestions.push(`Referenced by tests but never executed per lcov: ${neverRan.slice(0, 5).map(f => f.name).join(', ')}${neverRan.length > 5 ? '...' : ''}`);
+  }
+
+  const indirect = functions.filter(f => f.disagreement === 'measuredOnly');
+  if (indirect.length > 0) {
+    suggestions.push(`Only covered indirectly per lcov, add direct tests for: ${indirect.slice(0, 5).map(f => f.name).join(', ')}${indirect.length > 5 ? '...' : ''}`);
+  }
+
   // Architecture-specific suggestions
   if (arch === 'bloc' || arch === 'cubit') {
     if (deps.hasBlocTest) {
@@ -270,11 +425,23 @@ const generateStaticSuggestions = (
   if (arch === 'repository') {
     suggestions.push('Ensure all DataSource methods are mocked');
     suggestions.push('Test exception handling and error propagation');
+    if (deps.hasHttpMockAdapter && /\bDio\b/.test(prodCode)) {
+      suggestions.push('Stub Dio responses with DioAdapter from http_mock_adapter');
+    }
   }
 
   if (arch === 'widget') {
     suggestions.push('Use testWidgets() and Finder patterns');
-    suggestions.push('Consider golden tests for UI regression');
+    if (deps.hasAlchemist) {
+      suggestions.push('Add goldenTest() scenarios with alchemist for UI regression');
+    } else if (deps.hasGoldenToolkit) {
+      suggestions.push('Use testGoldens() and screenMatchesGolden() for UI regression');
+    } else {
+      suggestions.push('Consider golden tests for UI regression');
+    }
+    if (deps.hasPatrol) {
+      suggestions.push('Cover complete user flows with patrolTest()');
+    }
   }
 
   if (arch === 'model') {
@@ -282,9 +449,17 @@ const generateStaticSuggestions = (
     suggestions.push('Test equality and hashCode if using Equatable');
   }
 
+  if (TIME_DEPENDENT.test(prodCode)) {
+    if (deps.hasClock) suggestions.push('Read the time through clock.now() and pin it with withClock() in tests');
+    if (deps.hasFakeAsync) suggestions.push('Drive timers and delays with fakeAsync() instead of waiting');
+    if (!deps.hasClock && !deps.hasFakeAsync) suggestions.push('Add fake_async and clock to test time-dependent code deterministically');
+  }
+
   // Dependency-specific suggestions
   if (!deps.hasMocktail && !deps.hasMockito) {
     suggestions.push('Add mocktail or mockito for easier mocking');
+  } else if (!deps.hasMocktail && mockitoStyle(deps) === 'manual') {
+    suggestions.push('Upgrade to mockito 5 for null-safe generated mocks');
   }
 
   return suggestions;
@@ -295,45 +470,105 @@ const generateStaticSuggestions = (
  */
 export const generateMissingTestsStatic = (
   prodCode: string,
-  missingFunctionNames: string[],
-  dependencies: PackageDependencies,
-  className: string
+  missingFunctions: FunctionMetadata[],
+  dependencies: PackageDependencies
 ): GeneratedTestResponse => {
 
   const archType = detectArchitecture(prodCode);
   const functions = parseDartFunctions(prodCode);
-  const targetFunctions = functions.filter(f => missingFunctionNames.includes(f.name));
+  const targetFunctions = functions.filter(f =>
+    missingFunctions.some(m => m.name === f.name && m.owner === f.owner && m.ownerKind === f.ownerKind)
+  );
+
+  // One group per owning declaration, in source order
+  const owners = new Map<string, ParsedFunction[]>();
+  targetFunctions.forEach(fn => {
+    const key = `${fn.ownerKind}:${fn.owner}`;
+    owners.set(key, [...(owners.get(key) || []), fn]);
+  });
 
   let testCode = '';
 
   // Generate imports
   testCode += generateTestImports(dependencies, archType);
   testCode += '\n\n';
+  testCode += generateMockDeclarations(dependencies);
 
   // Generate main test block
   testCode += `void main() {\n`;
-  testCode += `  group('${className} Tests', () {\n`;
-
-  if (archType === 'bloc' || archType === 'cubit') {
-    testCode += generateBlocTests(targetFunctions, className, dependencies);
-  } else if (archType === 'repository') {
-    testCode += generateRepositoryTests(targetFunctions, className);
-  } else if (archType === 'widget') {
-    testCode += generateWidgetTests(targetFunctions, className);
-  } else {
-    testCode += generateGenericTests(targetFunctions, className);
-  }
 
-  testCode += `  });\n`;
+  [...owners.values()].forEach((ownerFunctions, index) => {
+    const { owner, ownerKind } = ownerFunctions[0];
+    if (index > 0) testCode += '\n';
+    testCode += `  group('${ownerKind === 'topLevel' ? 'Top-level functions' : owner} Tests', () {\n`;
+
+    if (ownerKind !== 'class') {
+      testCode += generateGenericTests(ownerFunctions);
+    } else if (archType === 'bloc' || archType === 'cubit') {
+      testCode += generateBlocTests(ownerFunctions, owner, dependencies);
+    } else if (archType === 'repository') {
+      testCode += generateRepositoryTests(ownerFunctions, owner);
+    } else if (archType === 'widget') {
+      testCode += generateWidgetTests(ownerFunctions, owner);
+    } else {
+      testCode += generateGenericTests(ownerFunctions);
+    }
+
+    testCode += `  });\n`;
+  });
+
   testCode += `}\n`;
 
   return {
     code: testCode,
-    explanation: `Generated ${targetFunctions.length} test template(s) for ${archType} architecture. ` +
+    explanation: `Generated ${targetFunctions.length} test template(s) for ${archType} architecture` +
+      `${owners.size > 1 ? ` across ${owners.size} declarations` : ''}. ` +
       `Customize the assertions and mock behaviors as needed.`
   };
 };
 
+/**
+ * Builds the Dart expression that exercises a member on `receiver`
+ */
+const invokeMember = (fn: ParsedFunction, receiver: string): string => {
+  const target = fn.isStatic ? fn.owner : receiver;
+
+  switch (fn.kind) {
+    case 'function':
+    case 'factory':
+      return `${fn.name}()`;
+    case 'getter':
+      return `${target}.${fn.name}`;
+    case 'setter':
+      return `${target}.${fn.name} = value`;
+    case 'operator': {
+      const op = fn.name.replace(/^operator /, '');
+      if (op === '[]') return `${receiver}[0]`;
+      if (op === '[]=') return `${receiver}[0] = value`;
+      if (fn.parameters.trim() === '') return `${op.replace(/^unary/, '')}${receiver}`;
+      return `${receiver} ${op} other`;
+    }
+    default:
+      return `${target}.${fn.name}()`;
+  }
+};
+
+// Arrange step for an instance member, depending on what kind of declaration owns it
+const arrangeInstance = (fn: ParsedFunction): string => {
+  switch (fn.ownerKind) {
+    case 'enum':
+      return `final instance = ${fn.owner}.values.first;`;
+    case 'mixin':
+      return `final instance = Your${fn.owner}Host(); // TODO: A class that mixes in ${fn.owner}`;
+    case 'extension':
+      return `final instance = YourValue(); // TODO: A value the ${fn.owner} extension applies to`;
+    case 'extensionType':
+      return `final instance = ${fn.owner}(value);`;
+    default:
+      return `final instance = ${fn.owner}();`;
+  }
+};
+
 const generateTestImports = (deps: PackageDependencies, arch: ArchitectureType): string => {
   let imports = "import 'package:flutter_test/flutter_test.dart';\n";
 
@@ -341,7 +576,7 @@ const generateTestImports = (deps: PackageDependencies, arch: ArchitectureType):
     imports += "import 'package:mocktail/mocktail.dart';\n";
   } else if (deps.hasMockito) {
     imports += "import 'package:mockito/mockito.dart';\n";
-    imports += "import 'package:mockito/annotations.dart';\n";
+    if (mockitoStyle(deps) !== 'manual') imports += "import 'package:mockito/annotations.dart';\n";
   }
 
   if ((arch === 'bloc' || arch === 'cubit') && deps.hasBlocTest) {
@@ -350,10 +585,27 @@ const generateTestImports = (deps: PackageDependencies, arch: ArchitectureType):
 
   imports += "\n// TODO: Import your production file here\n";
   imports += "// import 'package:your_app/path/to/file.dart';\n";
+  if (!deps.hasMocktail && deps.hasMockito && mockitoStyle(deps) !== 'manual') {
+    imports += "// import 'your_file_test.mocks.dart'; // Generated by `dart run build_runner build`\n";
+  }
 
   return imports;
 };
 
+// mocktail mocks are declared inline by the developer; mockito needs codegen or a subclass
+const generateMockDeclarations = (deps: PackageDependencies): string => {
+  if (deps.hasMocktail || !deps.hasMockito) return '';
+
+  switch (mockitoStyle(deps)) {
+    case 'manual':
+      return 'class MockYourDependency extends Mock implements YourDependency {}\n\n';
+    case 'generateMocks':
+      return '@GenerateMocks([YourDependency])\n';
+    default:
+      return '@GenerateNiceMocks([MockSpec<YourDependency>()])\n';
+  }
+};
+
 const generateBlocTests = (functions: ParsedFunction[], className: string, deps: PackageDependencies): string => {
   let tests = '';
 
@@ -362,7 +614,7 @@ const generateBlocTests = (functions: ParsedFunction[], className: string, deps:
     tests += `      'emits correct states',\n`;
     tests += `      build: () => ${className}(),\n`;
     tests += `      act: (bloc) => bloc.add(YourEvent()),\n`;
-    tests += `      expect: () => [YourExpectedState()],\n`;
+    tests += `      expect: ${hasLazyBlocExpect(deps) ? '() => ' : ''}[YourExpectedState()],\n`;
     tests += `    );\n\n`;
   }
 
@@ -379,7 +631,7 @@ const generateRepositoryTests = (functions: ParsedFunction[], className: string)
     tests += `      final repository = ${className}(dataSource: mockDataSource);\n`;
     tests += `      // when(mockDataSource.method()).thenAnswer((_) async => mockData);\n\n`;
     tests += `      // Act\n`;
-    tests += `      final result = await repository.${fn.name}();\n\n`;
+    tests += `      final result = await ${invokeMember(fn, 'repository')};\n\n`;
     tests += `      // Assert\n`;
     tests += `      expect(result, isA<SuccessType>());\n`;
     tests += `    });\n\n`;
@@ -404,18 +656,29 @@ const generateWidgetTests = (functions: ParsedFunction[], className: string): st
   return tests;
 };
 
-const generateGenericTests = (functions: ParsedFunction[], className: string): string => {
+const generateGenericTests = (functions: ParsedFunction[]): string => {
   let tests = '';
 
   functions.forEach(fn => {
-    tests += `    test('${fn.name} works correctly', () {\n`;
-    tests += `      // Arrange\n`;
-    tests += `      final instance = ${className}();\n\n`;
+    const needsInstance = fn.ownerKind !== 'topLevel' && !fn.isStatic && fn.kind !== 'factory';
+    const invocation = invokeMember(fn, 'instance');
+
+    tests += `    test('${fn.name} works correctly', () ${fn.isAsync ? 'async ' : ''}{\n`;
+    if (needsInstance) {
+      tests += `      // Arrange\n`;
+      tests += `      ${arrangeInstance(fn)}\n\n`;
+    }
     tests += `      // Act\n`;
-    tests += `      final result = instance.${fn.name}();\n\n`;
-    tests += `      // Assert\n`;
-    tests += `      expect(result, isNotNull);\n`;
-    tests += `      // TODO: Add specific assertions\n`;
+    if (fn.kind === 'setter' || fn.name === 'operator []=') {
+      tests += `      ${invocation};\n\n`;
+      tests += `      // Assert\n`;
+      tests += `      // TODO: Verify the effect of ${fn.name}\n`;
+    } else {
+      tests += `      final result = ${fn.isAsync ? 'await ' : ''}${invocation};\n\n`;
+      tests += `      // Assert\n`;
+      tests += `      expect(result, isNotNull);\n`;
+      tests += `      // TODO: Add specific assertions\n`;
+    }
     tests += `    });\n\n`;
   });
 
@@ -0,0 +1,130 @@
+import { GitRef, GitRefType, RepoFile, RepoStructure, TreeStats } from '../types';
+import { GithubClient } from './githubClient';
+import { ContentCache, contentCache } from './contentCache';
+import { BaseSourceProvider, CachedBlob, MAX_FILE_SIZE_BYTES } from './sourceProvider';
+
+/**
+ * Bitbucket Cloud Source Provider
+ *
+ * Reads repositories through the 2.0 `src` API, which lists directories as
+ * JSON and serves files as raw text. Bitbucket exposes no blob SHAs, so file
+ * contents are cached by their commit-pinned URL instead.
+ */
+
+const BITBUCKET_API_BASE = 'https://api.bitbucket.org/2.0/repositories';
+const MAX_REF_PAGES = 5; // Up to 500 branches and 500 tags in the ref picker
+const MAX_TREE_PAGES = 200; // 20,000 entries; beyond that the listing is reported partial
+const MAX_TREE_DEPTH = 30; // Nesting the recursive src listing descends into
+
+// Separate instance so Bitbucket traffic does not share GitHub's queue and quota
+const bitbucketClient = new GithubClient();
+
+export class BitbucketService extends BaseSourceProvider {
+  readonly kind = 'bitbucket';
+  private apiBase: string;
+
+  constructor(token?: string, client: GithubClient = bitbucketClient, cache: ContentCache = contentCache, apiBase: string = BITBUCKET_API_BASE) {
+    super(token, client, cache);
+    this.apiBase = apiBase;
+  }
+
+  protected getHeaders() {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+    return headers;
+  }
+
+  async fetchDefaultBranch(owner: string, repo: string): Promise<string> {
+    const response = await this.client.request(`${this.apiBase}/${owner}/${repo}`, this.getHeaders());
+    if (!response.ok) {
+      throw new Error(`Bitbucket API Error: ${response.statusText} (Check URL or Token permissions)`);
+    }
+    const data = await response.json();
+    return data.mainbranch.name;
+  }
+
+  async fetchRefs(owner: string, repo: string): Promise<GitRef[]> {
+    const list = async (kind: 'branches' | 'tags', type: GitRefType): Promise<GitRef[]> => {
+      const refs: GitRef[] = [];
+      let url: string | undefined = `${this.apiBase}/${owner}/${repo}/refs/${kind}?pagelen=100`;
+      for (let page = 1; url && page <= MAX_REF_PAGES; page++) {
+        const response = await this.client.request(url, this.getHeaders());
+        if (!response.ok) throw new Error(`Bitbucket API Error: ${response.statusText}`);
+        const data = await response.json();
+        refs.push(...data.values.map((r: any) => ({ name: r.name, type, sha: r.target.hash })));
+        url = data.next;
+      }
+      return refs;
+    };
+
+    const [branches, tags] = await Promise.all([list('branches', 'branch'), list('tags', 'tag')]);
+    return [...branches, ...tags];
+  }
+
+  async resolveRef(owner: string, repo: string, ref: string): Promise<string> {
+    const response = await this.client.request(`${this.apiBase}/${owner}/${repo}/commit/${encodeURIComponent(ref)}`, this.getHeaders());
+    if (!response.ok) {
+      throw new Error(`Bitbucket API Error: ${response.statusText} (Unknown branch, tag or commit '${ref}')`);
+    }
+    return (await response.json()).hash;
+  }
+
+  /**
+   * Lists the tree at the ref's commit with one recursive, paginated src call
+   */
+  async fetchRepoTree(owner: string, repo: string, ref?: string, refType: GitRefType = 'branch'): Promise<RepoStructure> {
+    const name = ref || await this.fetchDefaultBranch(owner, repo);
+    const sha = await this.resolveRef(owner, repo, name);
+    const srcUrl = `${this.apiBase}/${owner}/${repo}/src/${sha}`;
+
+    let listing = await this.cache.get<{ files: RepoFile[]; complete: boolean; requests: number }>('tree', srcUrl);
+
+    if (!listing) {
+      const files: RepoFile[] = [];
+      let url: string | undefined = `${srcUrl}/?max_depth=${MAX_TREE_DEPTH}&pagelen=100`;
+      let requests = 0;
+
+      while (url && requests < MAX_TREE_PAGES) {
+        const response = await this.client.request(url, this.getHeaders());
+        if (!response.ok) throw new Error(`Bitbucket API Error: ${response.statusText} (Check URL or Token permissions)`);
+        requests++;
+
+        const data = await response.json();
+        files.push(...data.values.map((entry: any) => ({
+          path: entry.path,
+          type: entry.type === 'commit_directory' ? 'tree' as const : 'blob' as const,
+          size: entry.size,
+          url: `${srcUrl}/${entry.path.split('/').map(encodeURIComponent).join('/')}`
+        })));
+        url = data.next;
+      }
+
+      listing = { files, complete: !url, requests };
+      await this.cache.put('tree', srcUrl, listing);
+    }
+
+    const treeStats: TreeStats = {
+      totalFiles: listing.files.filter(f => f.type === 'blob').length,
+      truncated: !listing.complete,
+      complete: listing.complete,
+      requests: listing.requests
+    };
+    return this.buildStructure(listing.files, { name, type: this.refTypeOf(name, sha, refType), sha }, treeStats);
+  }
+
+  // src serves raw text; its URLs are pinned to a commit, so they never go stale either
+  async fetchFileContent(url: string, maxSizeBytes: number = MAX_FILE_SIZE_BYTES): Promise<string> {
+    const cached = await this.cache.get<CachedBlob>('blob', url);
+    if (cached) return cached.size > maxSizeBytes ? "// File too large." : cached.content;
+
+    const response = await this.client.request(url, this.getHeaders());
+    if (!response.ok) throw new Error("Failed to fetch content");
+    const content = await response.text();
+    const size = new TextEncoder().encode(content).length;
+
+    await this.cache.put('blob', url, { size, content });
+    return size > maxSizeBytes ? "// File too large." : content;
+  }
+}
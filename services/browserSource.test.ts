@@ -0,0 +1,103 @@
+/**
+ * Browser Local Source Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { createLocalSource, entriesFromDirectoryHandle, LocalDirectoryHandle, LocalEntry, readZipArchive } from './browserSource';
+
+const entry = (path: string, content: string): LocalEntry => ({ path, read: async () => content });
+
+/**
+ * Minimal zip writer; CRCs are left at zero because the reader does not check them
+ */
+const buildZip = (files: Record<string, string>, compress: boolean): Uint8Array => {
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [path, content] of Object.entries(files)) {
+    const name = Buffer.from(path);
+    const raw = Buffer.from(content);
+    const data = compress ? deflateRawSync(raw) : raw;
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(compress ? 8 : 0, 8);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt32LE(raw.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    local.push(header, name, data);
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(compress ? 8 : 0, 10);
+    record.writeUInt32LE(data.length, 20);
+    record.writeUInt32LE(raw.length, 24);
+    record.writeUInt16LE(name.length, 28);
+    record.writeUInt32LE(offset, 42);
+    central.push(record, name);
+
+    offset += header.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...local, directory, end]));
+};
+
+describe('createLocalSource', () => {
+  it('should build the same structure as a hosted repository', async () => {
+    const source = await createLocalSource('shop', [
+      entry('shop/pubspec.yaml', 'name: shop\ndev_dependencies:\n  mocktail: ^1.0.0\n'),
+      entry('shop/lib/cart.dart', 'class Cart {}'),
+      entry('shop/test/cart_test.dart', "import 'package:shop/cart.dart';"),
+      entry('shop/build/app/lib/generated.dart', 'class Generated {}'),
+      entry('shop/.dart_tool/lib/cache.dart', 'class Cache {}'),
+    ]);
+
+    expect(source.structure.pairs.map(p => [p.id, p.testFile?.path])).toEqual([['lib/cart.dart', 'test/cart_test.dart']]);
+    expect(source.structure.packages[''].hasMocktail).toBe(true);
+    expect(Object.keys(source.structure.fileMap).sort()).toEqual(['lib/cart.dart', 'pubspec.yaml', 'test/cart_test.dart']);
+    expect(await source.readFile(source.structure.pairs[0].libFile)).toBe('class Cart {}');
+  });
+});
+
+describe('readZipArchive', () => {
+  it('should read stored and deflated entries', async () => {
+    for (const compress of [false, true]) {
+      const entries = readZipArchive(buildZip({ 'app/lib/cart.dart': 'class Cart {}', 'app/README.md': '# App' }, compress));
+
+      expect(entries.map(e => e.path)).toEqual(['app/lib/cart.dart', 'app/README.md']);
+      expect(await entries[0].read()).toBe('class Cart {}');
+    }
+  });
+
+  it('should reject files that are not zip archives', () => {
+    expect(() => readZipArchive(new TextEncoder().encode('definitely not a zip archive'))).toThrow('Not a zip archive');
+  });
+});
+
+describe('entriesFromDirectoryHandle', () => {
+  it('should walk the folder without descending into ignored directories', async () => {
+    const file = (name: string, content: string) => ({ kind: 'file' as const, name, getFile: async () => ({ text: async () => content }) as File });
+    const dir = (name: string, children: any[]): LocalDirectoryHandle => ({
+      kind: 'directory', name, values: async function* () { yield* children; }
+    });
+
+    const entries = await entriesFromDirectoryHandle(dir('shop', [
+      dir('lib', [file('cart.dart', 'class Cart {}')]),
+      dir('build', [file('out.dart', '')]),
+      file('pubspec.yaml', 'name: shop'),
+    ]));
+
+    expect(entries.map(e => e.path)).toEqual(['lib/cart.dart', 'pubspec.yaml']);
+    expect(await entries[0].read()).toBe('class Cart {}');
+  });
+});
@@ -0,0 +1,194 @@
+import { LcovReport, RepoFile, RepoStructure } from '../types';
+import { mergeLcovReports, parseLcov } from './lcovService';
+import { MELOS_CONFIG_PATH, buildRepoStructure, isIgnoredDirectory } from './repoStructure';
+
+/**
+ * Browser Local Source
+ *
+ * Builds the same RepoStructure as the hosted providers from files that never
+ * leave the machine: a picked folder or a dropped zip archive. A RepoFile's
+ * `url` is `local:<path>`, and contents are only read when asked for.
+ */
+
+export const LOCAL_URL_PREFIX = 'local:';
+
+export interface LocalEntry {
+  path: string;
+  read: () => Promise<string>;
+}
+
+// Subset of the File System Access API; not yet part of TypeScript's DOM typings
+export interface LocalDirectoryHandle {
+  kind: 'directory';
+  name: string;
+  values(): AsyncIterable<LocalDirectoryHandle | LocalFileHandle>;
+}
+
+interface LocalFileHandle {
+  kind: 'file';
+  name: string;
+  getFile(): Promise<File>;
+}
+
+export class LocalSource {
+  readonly name: string;
+  readonly structure: RepoStructure;
+  private readers: Map<string, () => Promise<string>>;
+
+  constructor(name: string, structure: RepoStructure, readers: Map<string, () => Promise<string>>) {
+    this.name = name;
+    this.structure = structure;
+    this.readers = readers;
+  }
+
+  /**
+   * Content loader over the source's files; usable wherever a provider's is
+   */
+  readFile = async (file: RepoFile): Promise<string> => {
+    const read = this.readers.get(file.path);
+    if (!read) throw new Error(`${file.path} is not part of ${this.name}`);
+    return read();
+  };
+
+  async fetchCoverageReport(): Promise<LcovReport | null> {
+    if (this.structure.coverageFiles.length === 0) return null;
+    const reports = await Promise.all(this.structure.coverageFiles.map(async (file) => parseLcov(await this.readFile(file), file.path)));
+    return mergeLcovReports(reports);
+  }
+}
+
+/**
+ * Drops a shared top-level folder (`my_app/lib/...` in most zips and folder
+ * picks) and skips hidden and build directories
+ */
+const normalizeEntries = (allEntries: LocalEntry[]): LocalEntry[] => {
+  // Finder adds resource forks under __MACOSX/ when zipping
+  const entries = allEntries.filter(e => !e.path.startsWith('__MACOSX/'));
+  const paths = entries.map(e => e.path.replace(/^\/+/, ''));
+  const roots = new Set(paths.map(p => p.split('/')[0]));
+  const shared = roots.size === 1 && paths.every(p => p.includes('/')) ? `${[...roots][0]}/` : '';
+
+  return entries
+    .map((entry, i) => ({ ...entry, path: paths[i].slice(shared.length) }))
+    .filter(entry => !entry.path.split('/').slice(0, -1).some(isIgnoredDirectory));
+};
+
+/**
+ * Pairs the entries into a structure, reading every pubspec.yaml and melos.yaml up front
+ */
+export const createLocalSource = async (name: string, entries: LocalEntry[]): Promise<LocalSource> => {
+  const normalized = normalizeEntries(entries).sort((a, b) => a.path.localeCompare(b.path));
+  const readers = new Map(normalized.map(e => [e.path, e.read]));
+  const allFiles: RepoFile[] = normalized.map(e => ({ path: e.path, type: 'blob', url: `${LOCAL_URL_PREFIX}${e.path}` }));
+
+  const pubspecs: Record<string, string> = {};
+  await Promise.all(normalized.filter(e => e.path.endsWith('pubspec.yaml')).map(async (entry) => {
+    try {
+      pubspecs[entry.path] = await entry.read();
+    } catch (e) {
+      console.warn("Failed to read pubspec", entry.path);
+    }
+  }));
+
+  const melosConfig = await readers.get(MELOS_CONFIG_PATH)?.().catch(() => undefined);
+
+  const structure: RepoStructure = {
+    ...buildRepoStructure(allFiles, pubspecs, melosConfig),
+    treeStats: { totalFiles: allFiles.length, truncated: false, complete: true, requests: 0 }
+  };
+  return new LocalSource(name, structure, readers);
+};
+
+/**
+ * Entries for files picked with `<input webkitdirectory>`
+ */
+export const entriesFromFileList = (files: ArrayLike<File>): LocalEntry[] =>
+  Array.from(files).map(file => ({ path: file.webkitRelativePath || file.name, read: () => file.text() }));
+
+/**
+ * Entries for a folder opened with `showDirectoryPicker()`; ignored
+ * directories are not descended into at all
+ */
+export const entriesFromDirectoryHandle = async (root: LocalDirectoryHandle): Promise<LocalEntry[]> => {
+  const entries: LocalEntry[] = [];
+
+  const walk = async (dir: LocalDirectoryHandle, prefix: string) => {
+    for await (const handle of dir.values()) {
+      if (handle.kind === 'directory') {
+        if (!isIgnoredDirectory(handle.name)) await walk(handle, `${prefix}${handle.name}/`);
+      } else {
+        entries.push({ path: `${prefix}${handle.name}`, read: async () => (await handle.getFile()).text() });
+      }
+    }
+  };
+
+  await walk(root, '');
+  return entries;
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const MAX_EOCD_SEARCH = 22 + 0xffff; // Fixed record plus the longest archive comment
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Response(data).body!.pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Lists a zip archive from its central directory. Stored and deflated entries
+ * are supported; each is decompressed only when read. ZIP64 and encrypted
+ * archives are rejected.
+ */
+export const readZipArchive = (data: Uint8Array): LocalEntry[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - MAX_EOCD_SEARCH); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a zip archive');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  const entries: LocalEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) throw new Error('Corrupt zip central directory');
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+
+    entries.push({
+      path,
+      read: async () => {
+        if (flags & 0x1) throw new Error(`${path} is encrypted`);
+        if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) throw new Error(`Corrupt zip entry ${path}`);
+        // The local header repeats name and extra field with its own lengths
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const raw = data.subarray(start, start + compressedSize);
+
+        if (method === 0) return decoder.decode(raw);
+        if (method === 8) return decoder.decode(await inflateRaw(raw));
+        throw new Error(`${path} uses unsupported zip compression method ${method}`);
+      }
+    });
+  }
+
+  return entries;
+};
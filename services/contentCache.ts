@@ -0,0 +1,152 @@
+import { CacheStats } from '../types';
+
+/**
+ * Content Cache
+ *
+ * Git trees and blobs are addressed by their SHA, so a cached copy can never
+ * go stale. Keeping them in IndexedDB lets a reload re-open a repository
+ * without spending API quota on anything but resolving the ref.
+ */
+
+export type CacheKind = 'tree' | 'blob';
+
+interface CacheEntry {
+  key: string;
+  kind: CacheKind;
+  value: unknown;
+  size: number;
+}
+
+export interface ContentCache {
+  get<T>(kind: CacheKind, key: string): Promise<T | undefined>;
+  put(kind: CacheKind, key: string, value: unknown): Promise<void>;
+  stats(): Promise<CacheStats>;
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'sentinel-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+const entryKey = (kind: CacheKind, key: string) => `${kind}:${key}`;
+
+const summarize = (entries: Iterable<Pick<CacheEntry, 'kind' | 'size'>>): CacheStats => {
+  const stats: CacheStats = { trees: 0, blobs: 0, bytes: 0 };
+  for (const entry of entries) {
+    if (entry.kind === 'tree') stats.trees++;
+    else stats.blobs++;
+    stats.bytes += entry.size;
+  }
+  return stats;
+};
+
+/**
+ * In-memory fallback for environments without IndexedDB (tests, the CLI,
+ * private browsing)
+ */
+export class MemoryCache implements ContentCache {
+  private entries = new Map<string, CacheEntry>();
+
+  async get<T>(kind: CacheKind, key: string): Promise<T | undefined> {
+    return this.entries.get(entryKey(kind, key))?.value as T | undefined;
+  }
+
+  async put(kind: CacheKind, key: string, value: unknown): Promise<void> {
+    const id = entryKey(kind, key);
+    this.entries.set(id, { key: id, kind, value, size: JSON.stringify(value).length });
+  }
+
+  async stats(): Promise<CacheStats> {
+    return summarize(this.entries.values());
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Persistent cache. Storage failures (quota, blocked upgrades) are logged
+ * and treated as misses so the cache can never break an analysis.
+ */
+export class IndexedDbCache implements ContentCache {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const pending = new Promise<IDBDatabase>((resolve, reject) => {
+        let blocked = false;
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        request.onsuccess = () => {
+          // Opened after we gave up on it; close it so it does not block the next upgrade
+          if (blocked) request.result.close();
+          else resolve(request.result);
+        };
+        request.onerror = () => reject(request.error);
+        // Another tab still has an older version open; without this the upgrade waits forever
+        request.onblocked = () => {
+          blocked = true;
+          reject(new Error('Content cache upgrade blocked by another tab'));
+        };
+      });
+      // Forget a failed open so a later call can try again
+      pending.catch(() => {
+        if (this.db === pending) this.db = null;
+      });
+      this.db = pending;
+    }
+    return this.db;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async get<T>(kind: CacheKind, key: string): Promise<T | undefined> {
+    try {
+      const entry = await this.run<CacheEntry | undefined>('readonly', store => store.get(entryKey(kind, key)));
+      return entry?.value as T | undefined;
+    } catch (e) {
+      console.warn('Content cache read failed', e);
+      return undefined;
+    }
+  }
+
+  async put(kind: CacheKind, key: string, value: unknown): Promise<void> {
+    try {
+      const entry: CacheEntry = { key: entryKey(kind, key), kind, value, size: JSON.stringify(value).length };
+      await this.run('readwrite', store => store.put(entry));
+    } catch (e) {
+      console.warn('Content cache write failed', e);
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    const db = await this.open();
+    // Walk with a cursor rather than getAll so large caches are not loaded at once
+    return new Promise((resolve, reject) => {
+      const sizes: Pick<CacheEntry, 'kind' | 'size'>[] = [];
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve(summarize(sizes));
+        const { kind, size } = cursor.value as CacheEntry;
+        sizes.push({ kind, size });
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear());
+  }
+}
+
+export const contentCache: ContentCache = typeof indexedDB !== 'undefined' ? new IndexedDbCache() : new MemoryCache();
@@ -0,0 +1,91 @@
+/**
+ * Coverage Gate Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareToBaseline, createBaseline, evaluateGate, evaluateThresholds, parseBaseline } from './coverageGate';
+import { summarizeScan } from './repoScanService';
+import type { ArchitectureType, FileCoverageResult } from '../types';
+
+const result = (path: string, packageRoot: string, architectureType: ArchitectureType, tested: number, total: number): FileCoverageResult => ({
+  pairId: path,
+  path,
+  packageRoot,
+  directory: path.slice(0, path.lastIndexOf('/')),
+  architectureType,
+  hasTestFile: tested > 0,
+  totalFunctions: total,
+  testedFunctions: tested,
+  coveragePercentage: Math.round((tested / total) * 100),
+  strengthBreakdown: { none: total - tested, weak: 0, partial: 0, strong: tested },
+  complexity: total * 5
+});
+
+const scan = (cartTested: number) => summarizeScan([
+  result('lib/cart_bloc.dart', '', 'bloc', cartTested, 4),
+  result('packages/core/lib/math.dart', 'packages/core/', 'util', 3, 4),
+]);
+
+describe('evaluateThresholds', () => {
+  it('should check global, package and architecture minimums', () => {
+    const violations = evaluateThresholds(scan(2), {
+      global: 70,
+      packages: { 'packages/core': 80, '.': 50 },
+      architectures: { bloc: 60, util: 75 }
+    });
+
+    expect(violations.map(v => [v.scope, v.key, v.actual, v.expected])).toEqual([
+      ['total', 'total', 63, 70],
+      ['package', 'packages/core', 75, 80],
+      ['architecture', 'bloc', 50, 60],
+    ]);
+  });
+
+  it('should accept workspace package names as threshold keys', () => {
+    const report = summarizeScan([{ ...result('packages/core/lib/math.dart', 'packages/core/', 'util', 3, 4), packageName: 'core' }]);
+
+    expect(report.byPackage[0]).toMatchObject({ key: 'packages/core/', label: 'core' });
+    expect(evaluateThresholds(report, { packages: { core: 80 } }).map(v => v.key)).toEqual(['packages/core']);
+  });
+});
+
+describe('baseline', () => {
+  it('should pass when coverage holds and fail only on regressions', () => {
+    const baseline = parseBaseline(JSON.stringify(createBaseline(scan(2))));
+
+    expect(compareToBaseline(scan(2), baseline)).toEqual([]);
+    expect(compareToBaseline(scan(4), baseline)).toEqual([]);
+
+    const regressions = compareToBaseline(scan(1), baseline);
+    expect(regressions.map(v => [v.scope, v.key])).toEqual([
+      ['total', 'total'],
+      ['package', '.'],
+      ['architecture', 'bloc'],
+      ['file', 'lib/cart_bloc.dart'],
+    ]);
+    expect(regressions[3].message).toBe('File lib/cart_bloc.dart dropped from 50% to 25%');
+  });
+
+  it('should ignore files that are new since the baseline', () => {
+    const baseline = createBaseline(summarizeScan([result('lib/a.dart', '', 'util', 1, 1)]));
+    const report = summarizeScan([result('lib/a.dart', '', 'util', 1, 1), result('lib/b.dart', '', 'util', 0, 3)]);
+    const regressions = compareToBaseline(report, baseline);
+    expect(regressions.map(v => v.scope)).toEqual(['total', 'package', 'architecture']);
+  });
+
+  it('should reject files that are not baselines', () => {
+    expect(() => parseBaseline('{"totals": {}}')).toThrow('Unrecognized baseline file');
+    // Older or hand-edited files without the package and architecture sections
+    expect(() => parseBaseline('{"version": 1, "totals": {}, "files": {}}')).toThrow('Unrecognized baseline file');
+  });
+});
+
+describe('evaluateGate', () => {
+  it('should combine thresholds and regressions', () => {
+    const baseline = createBaseline(scan(3));
+    const gate = evaluateGate(scan(2), { global: 60 }, baseline);
+    expect(gate.passed).toBe(false);
+    expect(gate.violations.every(v => v.kind === 'regression')).toBe(true);
+    expect(evaluateGate(scan(3), { global: 60 }, baseline).passed).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+import { BaselineEntry, CoverageBaseline, CoverageRollup, CoverageThresholds, GateResult, GateScope, GateViolation, RepoCoverageReport } from "../types";
+
+/**
+ * Coverage Gate
+ *
+ * Turns a repository scan into a pass/fail result for CI: minimum thresholds
+ * plus a committed baseline that only fails on regressions.
+ */
+
+// Package roots are written as `packages/core`, `packages/core/` or `.` for the repo root;
+// thresholds may also name the package from its pubspec
+const normalizePackageKey = (key: string): string => key.replace(/\/+$/, '') || '.';
+
+const toEntry = (rollup: { testedFunctions: number; totalFunctions: number; coveragePercentage: number }): BaselineEntry => ({
+  testedFunctions: rollup.testedFunctions,
+  totalFunctions: rollup.totalFunctions,
+  coveragePercentage: rollup.coveragePercentage
+});
+
+const byKey = (rollups: CoverageRollup[], normalize: (key: string) => string = k => k): Record<string, BaselineEntry> =>
+  Object.fromEntries(rollups.map(r => [normalize(r.key), toEntry(r)]));
+
+const scopeLabel = (scope: GateScope, key: string): string =>
+  scope === 'total' ? 'Total coverage' : `${scope[0].toUpperCase()}${scope.slice(1)} ${key}`;
+
+/**
+ * Checks the report against minimum coverage percentages
+ */
+export const evaluateThresholds = (report: RepoCoverageReport, thresholds: CoverageThresholds): GateViolation[] => {
+  const violations: GateViolation[] = [];
+
+  const check = (scope: GateScope, key: string, actual: number, expected: number | undefined) => {
+    if (expected === undefined || actual >= expected) return;
+    violations.push({
+      kind: 'threshold',
+      scope,
+      key,
+      actual,
+      expected,
+      message: `${scopeLabel(scope, key)} is ${actual}%, below the ${expected}% threshold`
+    });
+  };
+
+  check('total', 'total', report.totals.coveragePercentage, thresholds.global);
+
+  const packages = byKey(report.byPackage, normalizePackageKey);
+  const packageRoots = Object.fromEntries(report.byPackage.filter(r => r.label).map(r => [r.label, normalizePackageKey(r.key)]));
+  for (const [key, expected] of Object.entries(thresholds.packages ?? {})) {
+    const root = packageRoots[key] ?? normalizePackageKey(key);
+    const entry = packages[root];
+    if (entry) check('package', root, entry.coveragePercentage, expected);
+  }
+
+  const architectures = byKey(report.byArchitecture);
+  for (const [key, expected] of Object.entries(thresholds.architectures ?? {})) {
+    const entry = architectures[key];
+    if (entry) check('architecture', key, entry.coveragePercentage, expected);
+  }
+
+  return violations;
+};
+
+/**
+ * Snapshots the current coverage so later runs can detect regressions
+ */
+export const createBaseline = (report: RepoCoverageReport): CoverageBaseline => ({
+  version: 1,
+  generatedAt: report.scannedAt,
+  totals: toEntry(report.totals),
+  packages: byKey(report.byPackage, normalizePackageKey),
+  architectures: byKey(report.byArchitecture),
+  files: Object.fromEntries(report.files.filter(f => !f.error).map(f => [f.path, toEntry(f)]))
+});
+
+/**
+ * Fails when any total, package, architecture or file present in both the
+ * baseline and the report lost coverage. New and deleted files are ignored.
+ */
+export const compareToBaseline = (report: RepoCoverageReport, baseline: CoverageBaseline): GateViolation[] => {
+  const current = createBaseline(report);
+  const violations: GateViolation[] = [];
+
+  const compare = (scope: GateScope, previous: Record<string, BaselineEntry>, next: Record<string, BaselineEntry>) => {
+    for (const [key, before] of Object.entries(previous)) {
+      const after = next[key];
+      if (!after || after.coveragePercentage >= before.coveragePercentage) continue;
+      violations.push({
+        kind: 'regression',
+        scope,
+        key,
+        actual: after.coveragePercentage,
+        expected: before.coveragePercentage,
+        message: `${scopeLabel(scope, key)} dropped from ${before.coveragePercentage}% to ${after.coveragePercentage}%`
+      });
+    }
+  };
+
+  compare('total', { total: baseline.totals }, { total: current.totals });
+  compare('package', baseline.packages, current.packages);
+  compare('architecture', baseline.architectures, current.architectures);
+  compare('file', baseline.files, current.files);
+
+  return violations;
+};
+
+/**
+ * Runs both checks. Without a baseline only thresholds apply.
+ */
+export const evaluateGate = (
+  report: RepoCoverageReport,
+  thresholds: CoverageThresholds,
+  baseline?: CoverageBaseline | null
+): GateResult => {
+  const violations = [
+    ...evaluateThresholds(report, thresholds),
+    ...(baseline ? compareToBaseline(report, baseline) : [])
+  ];
+  return { passed: violations.length === 0, violations };
+};
+
+/**
+ * Parses a committed baseline file, rejecting anything that is not one
+ */
+export const parseBaseline = (json: string): CoverageBaseline => {
+  const data = JSON.parse(json);
+  const sections = ['totals', 'packages', 'architectures', 'files'];
+  if (data?.version !== 1 || sections.some(key => typeof data[key] !== 'object' || data[key] === null)) {
+    throw new Error('Unrecognized baseline file (expected version 1)');
+  }
+  return data as CoverageBaseline;
+};
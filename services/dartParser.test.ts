@@ -0,0 +1,269 @@
+/**
+ * Dart Parser Tests
+ *
+ * Verifies the tokenizer and declaration parser against the Dart constructs
+ * the old line-based regex used to miss.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { cyclomaticComplexity, tokenizeDart, parseDartDirectives, parseDartSource } from './dartParser';
+import { parseDartFunctions } from './analysisEngine';
+
+describe('tokenizeDart', () => {
+  it('should drop line, doc and nested block comments', () => {
+    const tokens = tokenizeDart(`
+      // void hidden() {}
+      /// Doc comment
+      /* outer /* inner */ still comment */
+      int visible;
+    `);
+    expect(tokens.map(t => t.value)).toEqual(['int', 'visible', ';']);
+  });
+
+  it('should keep strings with interpolation as a single token', () => {
+    const tokens = tokenizeDart(`final s = 'a \${map['}']} b \$name';`);
+    const strings = tokens.filter(t => t.type === 'string');
+    expect(strings).toHaveLength(1);
+    expect(strings[0].value).toBe(`'a \${map['}']} b \$name'`);
+  });
+
+  it('should not treat backslashes in raw strings as escapes', () => {
+    const tokens = tokenizeDart(`final re = r'\\d+\\'; final x = 1;`);
+    expect(tokens.filter(t => t.type === 'string').map(t => t.value)).toEqual([`r'\\d+\\'`]);
+    expect(tokens.map(t => t.value)).toContain('x');
+  });
+
+  it('should track line numbers across multi-line strings', () => {
+    const tokens = tokenizeDart(`const a = '''\nline\n''';\nint b;`);
+    const str = tokens.find(t => t.type === 'string')!;
+    expect(str.line).toBe(1);
+    expect(str.endLine).toBe(3);
+    expect(tokens.find(t => t.value === 'b')!.line).toBe(4);
+  });
+
+  it('should never throw on arbitrary input', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 200 }), (source) => {
+        expect(() => parseDartSource(source)).not.toThrow();
+      }),
+      { numRuns: 200 }
+    );
+  });
+});
+
+describe('parseDartSource', () => {
+  it('should parse multi-line signatures with nested generics', () => {
+    const unit = parseDartSource(`
+class UserRepository {
+  Future<Either<Failure, List<User>>> fetchUsers(
+    int page, {
+    Map<String, List<int>> filters = const {},
+  }) async {
+    if (page < 0) {
+      return left(Failure());
+    }
+    return right([]);
+  }
+}
+`);
+    expect(unit.declarations).toHaveLength(1);
+    const [method] = unit.declarations[0].members;
+    expect(method.name).toBe('fetchUsers');
+    expect(method.kind).toBe('method');
+    expect(method.returnType).toBe('Future<Either<Failure, List<User>>>');
+    expect(method.isAsync).toBe(true);
+    expect(method.lineStart).toBe(3);
+    expect(method.lineEnd).toBe(11);
+  });
+
+  it('should recognise getters, setters, operators and factories', () => {
+    const unit = parseDartSource(`
+class Money {
+  final int cents;
+  const Money(this.cents);
+  factory Money.fromDollars(int d) => Money(d * 100);
+  const factory Money.zero() = _ZeroMoney;
+  int get dollars => cents ~/ 100;
+  set label(String value) {}
+  Money operator +(Money other) => Money(cents + other.cents);
+  bool operator ==(Object other) => other is Money && other.cents == cents;
+  int operator [](int index) => cents;
+  static Money parse(String s) => Money(int.parse(s));
+}
+`);
+    const members = unit.declarations[0].members;
+    const byName = Object.fromEntries(members.map(m => [m.name, m]));
+
+    expect(byName['cents'].kind).toBe('field');
+    expect(byName['Money'].kind).toBe('constructor');
+    expect(byName['Money.fromDollars'].kind).toBe('factory');
+    expect(byName['Money.zero'].hasBody).toBe(false);
+    expect(byName['dollars'].kind).toBe('getter');
+    expect(byName['label'].kind).toBe('setter');
+    expect(byName['operator +'].kind).toBe('operator');
+    expect(byName['operator =='].kind).toBe('operator');
+    expect(byName['operator []'].kind).toBe('operator');
+    expect(byName['parse'].isStatic).toBe(true);
+  });
+
+  it('should mark abstract and external members', () => {
+    const unit = parseDartSource(`
+abstract interface class AuthRepository {
+  Future<User?> currentUser();
+  external void nativeLogout();
+}
+`);
+    const [decl] = unit.declarations;
+    expect(decl.modifiers).toEqual(['abstract', 'interface']);
+    expect(decl.members.map(m => [m.name, m.isAbstract, m.isExternal])).toEqual([
+      ['currentUser', true, false],
+      ['nativeLogout', false, true],
+    ]);
+  });
+
+  it('should parse mixins, extensions, enums and top-level functions', () => {
+    const unit = parseDartSource(`
+import 'package:flutter/material.dart';
+part 'user.g.dart';
+
+mixin Logging on Object {
+  void log(String message) {}
+}
+
+extension StringX on String {
+  String capitalize() => this[0].toUpperCase() + substring(1);
+}
+
+extension on int {
+  bool get isEven2 => this % 2 == 0;
+}
+
+enum Status {
+  idle('i'),
+  busy('b');
+
+  const Status(this.code);
+  final String code;
+  bool get isBusy => this == busy;
+}
+
+Future<void> main() async {
+  if (true) {
+    print('hello');
+  }
+}
+`);
+    expect(unit.declarations.map(d => [d.kind, d.name])).toEqual([
+      ['mixin', 'Logging'],
+      ['extension', 'StringX'],
+      ['extension', ''],
+      ['enum', 'Status'],
+    ]);
+    expect(unit.declarations[0].onTypes).toEqual(['Object']);
+    expect(unit.declarations[2].onTypes).toEqual(['int']);
+    expect(unit.declarations[3].members.map(m => m.name)).toEqual(['Status', 'code', 'isBusy']);
+    expect(unit.topLevel.map(m => [m.name, m.kind])).toEqual([['main', 'function']]);
+  });
+
+  it('should capture class header clauses', () => {
+    const unit = parseDartSource(`
+class UserBloc extends Bloc<UserEvent, UserState> with Logging implements Disposable, Resettable {}
+class MockRepo extends Mock implements UserRepository {}
+`);
+    expect(unit.declarations[0].superclass).toBe('Bloc<UserEvent, UserState>');
+    expect(unit.declarations[0].mixins).toEqual(['Logging']);
+    expect(unit.declarations[0].interfaces).toEqual(['Disposable', 'Resettable']);
+    expect(unit.declarations[1].superclass).toBe('Mock');
+  });
+});
+
+describe('parseDartDirectives', () => {
+  it('should read imports, exports, parts and conditional alternatives', () => {
+    const directives = parseDartDirectives(`
+@deprecated
+library shop.cart;
+
+import 'dart:async';
+import "src/a.dart" if (dart.library.io) 'src/a_io.dart' as a;
+export 'src/b.dart' show B;
+part 'cart.g.dart';
+
+class Importer {
+  void import(String path) {}
+}
+`);
+
+    expect(directives.map(d => [d.kind, d.uri ?? d.libraryName, d.configurations])).toEqual([
+      ['library', 'shop.cart', []],
+      ['import', 'dart:async', []],
+      ['import', 'src/a.dart', ['src/a_io.dart']],
+      ['export', 'src/b.dart', []],
+      ['part', 'cart.g.dart', []],
+    ]);
+  });
+
+  it('should read both forms of part of', () => {
+    expect(parseDartDirectives("part of 'cart.dart';")).toMatchObject([{ kind: 'partOf', uri: 'cart.dart' }]);
+    expect(parseDartDirectives('part of shop.cart;')).toMatchObject([{ kind: 'partOf', libraryName: 'shop.cart' }]);
+  });
+});
+
+describe('cyclomaticComplexity', () => {
+  it('should count one path plus every branch point', () => {
+    const code = `
+Future<String?> load(String? id, List<int>? ids) async {
+  if (id == null || id.isEmpty) return null;
+  else if (ids?.isEmpty ?? true) return 'none';
+  for (final i in ids!) {
+    while (i > 0 && ready) {}
+  }
+  try {
+    return cache[id] ?? await fetch(id);
+  } catch (e) {
+    return id.length > 3 ? 'long' : 'short';
+  }
+}`;
+    // if, ||, else if, ?., ??, for, while, &&, ??, catch, ternary
+    expect(cyclomaticComplexity(code)).toBe(12);
+  });
+
+  it('should count switch cases and ignore branch words in strings and comments', () => {
+    expect(cyclomaticComplexity(`
+String label(int n) {
+  // if this is zero, or else
+  switch (n) {
+    case 0: return 'if';
+    case 1: return 'for';
+    default: return 'while';
+  }
+}`)).toBe(3);
+    expect(cyclomaticComplexity('int get value => _value;')).toBe(1);
+  });
+});
+
+describe('parseDartFunctions', () => {
+  it('should ignore control flow, private members and boilerplate', () => {
+    const fns = parseDartFunctions(`
+class Counter {
+  Counter();
+  int _value = 0;
+  void increment() {
+    if (_value > 10) {
+      while (true) { break; }
+    }
+  }
+  void _reset() {}
+  @override
+  String toString() => 'Counter';
+  factory Counter.fromJson(Map<String, dynamic> json) => Counter();
+  factory Counter.seeded(int v) { return Counter(); }
+  int get value => _value;
+}
+`);
+    expect(fns.map(f => f.name)).toEqual(['increment', 'Counter.seeded', 'value']);
+    expect(fns[0].lineStart).toBe(5);
+    expect(fns[0].lineEnd).toBe(9);
+    expect(fns.map(f => f.complexity)).toEqual([3, 1, 1]);
+  });
+});
@@ -0,0 +1,863 @@
+/**
+ * Dart Lexer & Declaration Parser
+ *
+ * A lightweight, dependency-free front end for Dart source code. It does not
+ * build a full AST: it tokenizes the file (skipping comments, strings, raw
+ * strings and nested interpolation correctly) and then recognises the
+ * declarations Sentinel cares about - classes, mixins, extensions, enums,
+ * their members and top-level functions - with accurate line spans.
+ */
+
+export type DartTokenType = 'identifier' | 'string' | 'number' | 'symbol';
+
+export interface DartToken {
+  type: DartTokenType;
+  value: string;
+  start: number; // Offset of the first character
+  end: number; // Offset after the last character
+  line: number; // 1-based line of the first character
+  endLine: number; // 1-based line of the last character
+}
+
+export type DartDeclarationKind = 'class' | 'mixin' | 'extension' | 'extensionType' | 'enum';
+
+export type DartMemberKind =
+  | 'method'
+  | 'getter'
+  | 'setter'
+  | 'operator'
+  | 'constructor'
+  | 'factory'
+  | 'field'
+  | 'function';
+
+export interface DartMember {
+  name: string;
+  kind: DartMemberKind;
+  signature: string;
+  returnType: string;
+  parameters: string;
+  modifiers: string[];
+  annotations: string[];
+  isPublic: boolean;
+  isStatic: boolean;
+  isAbstract: boolean;
+  isExternal: boolean;
+  isAsync: boolean;
+  hasBody: boolean;
+  lineStart: number;
+  lineEnd: number;
+  start: number;
+  end: number;
+}
+
+export interface DartDeclaration {
+  kind: DartDeclarationKind;
+  name: string; // Empty for unnamed extensions
+  modifiers: string[];
+  annotations: string[];
+  typeParameters: string;
+  superclass?: string;
+  interfaces: string[];
+  mixins: string[];
+  onTypes: string[]; // `on` clause of mixins and extensions
+  members: DartMember[];
+  lineStart: number;
+  lineEnd: number;
+  start: number;
+  end: number;
+}
+
+export type DartDirectiveKind = 'import' | 'export' | 'part' | 'partOf' | 'library';
+
+export interface DartDirective {
+  kind: DartDirectiveKind;
+  uri?: string; // Unset for `library name;` and `part of name;`
+  libraryName?: string; // Dotted name of `library a.b;` and `part of a.b;`
+  configurations: string[]; // URIs of the `if (...)` alternatives of a conditional import or export
+  line: number;
+}
+
+export interface DartCompilationUnit {
+  declarations: DartDeclaration[];
+  topLevel: DartMember[]; // Top-level functions, getters, setters and variables
+}
+
+// Longest first. `>` is deliberately always a single token so that nested
+// generics such as `List<Map<String, int>>` close one level per token.
+const MULTI_CHAR_SYMBOLS = [
+  '...?', '<<=', '~/=', '??=', '?..',
+  '...', '=>', '==', '!=', '<=', '&&', '||', '??', '?.', '..',
+  '++', '--', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<', '~/',
+];
+
+const NUMBER_PATTERN = /0[xX][0-9a-fA-F_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?|\.\d[\d_]*(?:[eE][+-]?\d+)?/y;
+
+const isIdentStart = (c: string) => /[A-Za-z_$]/.test(c);
+const isIdentPart = (c: string) => /[A-Za-z0-9_$]/.test(c);
+const isDigit = (c: string) => c >= '0' && c <= '9';
+
+/**
+ * Splits Dart source into tokens. Comments and whitespace are dropped;
+ * every string literal (including adjacent interpolation) becomes one token.
+ */
+export const tokenizeDart = (code: string): DartToken[] => {
+  const tokens: DartToken[] = [];
+  const length = code.length;
+  let pos = 0;
+  let line = 1;
+
+  const advanceTo = (target: number) => {
+    for (let k = pos; k < target && k < length; k++) {
+      if (code[k] === '\n') line++;
+    }
+    pos = Math.min(target, length);
+  };
+
+  // Returns the offset just after a (possibly nested) block comment
+  const skipBlockComment = (from: number): number => {
+    let depth = 0;
+    let k = from;
+    while (k < length) {
+      if (code[k] === '/' && code[k + 1] === '*') {
+        depth++;
+        k += 2;
+      } else if (code[k] === '*' && code[k + 1] === '/') {
+        depth--;
+        k += 2;
+        if (depth === 0) return k;
+      } else {
+        k++;
+      }
+    }
+    return length;
+  };
+
+  // Returns the offset just after the `}` closing an interpolation
+  const skipInterpolation = (from: number): number => {
+    let depth = 1;
+    let k = from;
+    while (k < length) {
+      const c = code[k];
+      if (c === '/' && code[k + 1] === '/') {
+        while (k < length && code[k] !== '\n') k++;
+      } else if (c === '/' && code[k + 1] === '*') {
+        k = skipBlockComment(k);
+      } else if (c === '\'' || c === '"') {
+        k = skipString(k, false);
+      } else if (c === 'r' && (code[k + 1] === '\'' || code[k + 1] === '"') && !isIdentPart(code[k - 1] || '')) {
+        k = skipString(k + 1, true);
+      } else if (c === '{') {
+        depth++;
+        k++;
+      } else if (c === '}') {
+        depth--;
+        k++;
+        if (depth === 0) return k;
+      } else {
+        k++;
+      }
+    }
+    return length;
+  };
+
+  // `from` points at the opening quote. Returns the offset after the closing quote.
+  const skipString = (from: number, raw: boolean): number => {
+    const quote = code[from];
+    const triple = code[from + 1] === quote && code[from + 2] === quote;
+    const delimiter = triple ? quote.repeat(3) : quote;
+    let k = from + delimiter.length;
+    while (k < length) {
+      const c = code[k];
+      if (!raw && c === '\\') {
+        k += 2;
+      } else if (!raw && c === '$' && code[k + 1] === '{') {
+        k = skipInterpolation(k + 2);
+      } else if (code.startsWith(delimiter, k)) {
+        return k + delimiter.length;
+      } else if (!triple && c === '\n') {
+        return k; // Unterminated single-line string
+      } else {
+        k++;
+      }
+    }
+    return length;
+  };
+
+  const push = (type: DartTokenType, end: number) => {
+    const startLine = line;
+    const start = pos;
+    advanceTo(end);
+    tokens.push({ type, value: code.slice(start, end), start, end, line: startLine, endLine: line });
+  };
+
+  while (pos < length) {
+    const c = code[pos];
+    const next = code[pos + 1];
+
+    if (c === '\n' || c === ' ' || c === '\t' || c === '\r' || c === '\f' || c === '\v') {
+      advanceTo(pos + 1);
+      continue;
+    }
+
+    if (c === '/' && next === '/') {
+      let k = pos;
+      while (k < length && code[k] !== '\n') k++;
+      advanceTo(k);
+      continue;
+    }
+
+    if (c === '/' && next === '*') {
+      advanceTo(skipBlockComment(pos));
+      continue;
+    }
+
+    if (c === 'r' && (next === '\'' || next === '"')) {
+      push('string', skipString(pos + 1, true));
+      continue;
+    }
+
+    if (c === '\'' || c === '"') {
+      push('string', skipString(pos, false));
+      continue;
+    }
+
+    if (isIdentStart(c)) {
+      let k = pos + 1;
+      while (k < length && isIdentPart(code[k])) k++;
+      push('identifier', k);
+      continue;
+    }
+
+    if (isDigit(c) || (c === '.' && isDigit(next || ''))) {
+      NUMBER_PATTERN.lastIndex = pos;
+      const match = NUMBER_PATTERN.exec(code);
+      push('number', pos + (match ? match[0].length : 1));
+      continue;
+    }
+
+    const symbol = MULTI_CHAR_SYMBOLS.find(s => code.startsWith(s, pos));
+    push('symbol', pos + (symbol ? symbol.length : 1));
+  }
+
+  return tokens;
+};
+
+const TYPE_MODIFIERS = new Set(['abstract', 'base', 'final', 'interface', 'sealed', 'mixin', 'augment', 'macro']);
+const MEMBER_MODIFIERS = new Set(['external', 'static', 'abstract', 'factory', 'const', 'final', 'late', 'var', 'covariant', 'augment']);
+const DIRECTIVES = new Set(['import', 'export', 'library', 'part']);
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS = new Set([')', ']', '}']);
+
+/**
+ * Index of the `)`, `]` or `}` closing the bracket opened at `index`
+ * (the last token if the bracket is never closed).
+ */
+export const findClosingToken = (tokens: DartToken[], index: number): number => {
+  let depth = 0;
+  for (let k = index; k < tokens.length; k++) {
+    if (tokens[k].type !== 'symbol') continue;
+    const v = tokens[k].value;
+    if (OPENERS[v]) depth++;
+    else if (CLOSERS.has(v)) {
+      depth--;
+      if (depth === 0) return k;
+    }
+  }
+  return tokens.length - 1;
+};
+
+/**
+ * Index of the `(`, `[` or `{` opening the bracket closed at `index`
+ * (the first token if the bracket is never opened).
+ */
+export const findOpeningToken = (tokens: DartToken[], index: number): number => {
+  let depth = 0;
+  for (let k = index; k >= 0; k--) {
+    if (tokens[k].type !== 'symbol') continue;
+    const v = tokens[k].value;
+    if (CLOSERS.has(v)) depth++;
+    else if (OPENERS[v]) {
+      depth--;
+      if (depth === 0) return k;
+    }
+  }
+  return 0;
+};
+
+// `else if` counts once through its `if`, `do ... while` through its `while`
+const BRANCH_KEYWORDS = new Set(['if', 'case', 'catch', 'for', 'while']);
+const BRANCH_OPERATORS = new Set(['&&', '||', '??', '??=', '?.', '?..', '...?']);
+
+/**
+ * Cyclomatic complexity: one path plus one per branch point. A `?` only
+ * counts as a ternary when whitespace precedes it, which keeps nullable
+ * types such as `String?` out.
+ */
+export const cyclomaticComplexity = (code: string, tokens: DartToken[] = tokenizeDart(code)): number =>
+  tokens.reduce((complexity, token) => {
+    if (token.type === 'identifier') return complexity + (BRANCH_KEYWORDS.has(token.value) ? 1 : 0);
+    if (token.type !== 'symbol') return complexity;
+    if (BRANCH_OPERATORS.has(token.value)) return complexity + 1;
+    return complexity + (token.value === '?' && /\s/.test(code[token.start - 1] ?? '') ? 1 : 0);
+  }, 1);
+
+/**
+ * Parses Dart source into its top-level declarations and their members.
+ * The parser is error tolerant: unrecognised constructs are skipped rather
+ * than aborting, so partially written files still yield useful results.
+ */
+export const parseDartSource = (code: string): DartCompilationUnit => {
+  const tokens = tokenizeDart(code);
+  const declarations: DartDeclaration[] = [];
+  const topLevel: DartMember[] = [];
+
+  const valueAt = (i: number) => tokens[i]?.value;
+  const isIdent = (i: number) => tokens[i]?.type === 'identifier';
+
+  // Index of the token closing the bracket opened at `i`
+  const matchClose = (i: number): number => findClosingToken(tokens, i);
+
+  // Index of the next `;` outside any brackets, bounded by `limit`
+  const skipToSemicolon = (i: number, limit: number): number => {
+    let k = i;
+    while (k < limit) {
+      const v = valueAt(k);
+      if (v === ';') return k;
+      if (tokens[k].type === 'symbol' && OPENERS[v]) {
+        k = matchClose(k) + 1;
+        continue;
+      }
+      if (tokens[k].type === 'symbol' && CLOSERS.has(v)) return k - 1;
+      k++;
+    }
+    return limit - 1;
+  };
+
+  // Index of the `>` matching the `<` at `i`
+  const matchAngle = (i: number, limit: number): number => {
+    let depth = 0;
+    for (let k = i; k < limit; k++) {
+      const v = valueAt(k);
+      if (v === '<') depth++;
+      else if (v === '>') {
+        depth--;
+        if (depth === 0) return k;
+      } else if (OPENERS[v] && tokens[k].type === 'symbol') {
+        k = matchClose(k);
+      }
+    }
+    return i;
+  };
+
+  const textBetween = (from: number, to: number): string => {
+    if (from > to || !tokens[from] || !tokens[to]) return '';
+    return code.slice(tokens[from].start, tokens[to].end).replace(/\s+/g, ' ').trim();
+  };
+
+  // Collects `@name`, `@name.other` and `@Name(...)` annotations starting at `i`
+  const skipAnnotations = (i: number, limit: number, into: string[]): number => {
+    let k = i;
+    while (k < limit && valueAt(k) === '@' && isIdent(k + 1)) {
+      const start = k;
+      k += 2;
+      while (valueAt(k) === '.' && isIdent(k + 1)) k += 2;
+      if (valueAt(k) === '<') k = matchAngle(k, limit) + 1;
+      if (valueAt(k) === '(') k = matchClose(k) + 1;
+      into.push(textBetween(start, k - 1));
+    }
+    return k;
+  };
+
+  // Splits a comma separated type list at angle/bracket depth 0
+  const splitTypeList = (from: number, to: number): string[] => {
+    const result: string[] = [];
+    let depth = 0;
+    let segmentStart = from;
+    for (let k = from; k <= to; k++) {
+      const v = valueAt(k);
+      if (v === '<') depth++;
+      else if (v === '>') depth--;
+      else if (OPENERS[v] && tokens[k].type === 'symbol') {
+        k = matchClose(k);
+        continue;
+      } else if (v === ',' && depth === 0) {
+        if (k > segmentStart) result.push(textBetween(segmentStart, k - 1));
+        segmentStart = k + 1;
+      }
+    }
+    if (segmentStart <= to) result.push(textBetween(segmentStart, to));
+    return result;
+  };
+
+  const buildMember = (
+    fields: Omit<DartMember, 'isPublic' | 'isStatic' | 'isExternal' | 'lineStart' | 'lineEnd' | 'start' | 'end'>,
+    firstIndex: number,
+    lastIndex: number
+  ): DartMember => {
+    const visibleName = fields.name.includes('.') ? fields.name.split('.').pop() || '' : fields.name;
+    return {
+      ...fields,
+      isPublic: !visibleName.startsWith('_') && !fields.name.startsWith('_'),
+      isStatic: fields.modifiers.includes('static'),
+      isExternal: fields.modifiers.includes('external'),
+      lineStart: tokens[firstIndex].line,
+      lineEnd: tokens[lastIndex].endLine,
+      start: tokens[firstIndex].start,
+      end: tokens[lastIndex].end,
+    };
+  };
+
+  /**
+   * Parses one member (or top-level declaration) starting at `i`.
+   * Always returns an index strictly greater than `i`.
+   */
+  const parseMember = (
+    i: number,
+    limit: number,
+    ownerName: string | null
+  ): { member: DartMember | null; next: number } => {
+    const annotations: string[] = [];
+    let k = skipAnnotations(i, limit, annotations);
+    if (k >= limit) return { member: null, next: Math.max(k, i + 1) };
+
+    const declStart = k;
+    const modifiers: string[] = [];
+    // A modifier must be followed by a name, a type or a record type
+    while (k < limit && MEMBER_MODIFIERS.has(valueAt(k)) && (isIdent(k + 1) || valueAt(k + 1) === '(')) {
+      modifiers.push(valueAt(k));
+      k++;
+    }
+
+    const headerStart = k;
+    let angleDepth = 0;
+    let j = k;
+
+    // Finishes a callable member once its name and parameter list are known
+    const finishCallable = (
+      kind: DartMemberKind,
+      name: string,
+      returnType: string,
+      parameters: string,
+      afterParams: number
+    ): { member: DartMember | null; next: number } => {
+      let p = afterParams;
+      let isAsync = false;
+      if (valueAt(p) === 'async') {
+        isAsync = true;
+        p++;
+        if (valueAt(p) === '*') p++;
+      } else if (valueAt(p) === 'sync' && valueAt(p + 1) === '*') {
+        p += 2;
+      }
+
+      let signatureEnd = p - 1;
+      let end: number;
+      let hasBody = true;
+
+      if (valueAt(p) === ':') {
+        // Constructor initializer list
+        let q = p + 1;
+        while (q < limit && !['{', ';', '=>'].includes(valueAt(q))) {
+          q = valueAt(q) === '(' || valueAt(q) === '[' ? matchClose(q) + 1 : q + 1;
+        }
+        signatureEnd = q - 1;
+        p = q;
+      }
+
+      if (valueAt(p) === '{') {
+        end = matchClose(p);
+      } else if (valueAt(p) === '=>') {
+        end = skipToSemicolon(p + 1, limit);
+      } else if (valueAt(p) === '=') {
+        // Redirecting factory constructor
+        end = skipToSemicolon(p + 1, limit);
+        signatureEnd = end - 1;
+        hasBody = false;
+      } else if (valueAt(p) === ';') {
+        end = p;
+        hasBody = false;
+      } else {
+        end = Math.max(p - 1, afterParams - 1);
+        hasBody = false;
+      }
+
+      const isAbstract = !hasBody && ownerName !== null && kind !== 'constructor' && kind !== 'factory' && !modifiers.includes('external');
+      const member = buildMember({
+        name,
+        kind,
+        signature: textBetween(declStart, signatureEnd),
+        returnType,
+        parameters,
+        modifiers,
+        annotations,
+        isAbstract: isAbstract || modifiers.includes('abstract'),
+        isAsync,
+        hasBody,
+      }, declStart, Math.min(end, tokens.length - 1));
+
+      return { member, next: Math.max(end + 1, i + 1) };
+    };
+
+    while (j < limit) {
+      const v = valueAt(j);
+      const isSymbol = tokens[j].type === 'symbol';
+
+      if (v === 'operator' && angleDepth === 0 && tokens[j + 1]?.type === 'symbol' && valueAt(j + 1) !== '(' && valueAt(j + 1) !== '=') {
+        let q = j + 1;
+        while (q < limit && valueAt(q) !== '(') q++;
+        if (q >= limit) break;
+        const close = matchClose(q);
+        return finishCallable(
+          'operator',
+          `operator ${tokens.slice(j + 1, q).map(t => t.value).join('')}`,
+          textBetween(headerStart, j - 1) || 'dynamic',
+          textBetween(q + 1, close - 1),
+          close + 1
+        );
+      }
+
+      if (v === '<' && isSymbol) {
+        angleDepth++;
+        j++;
+        continue;
+      }
+      if (v === '>' && isSymbol && angleDepth > 0) {
+        angleDepth--;
+        j++;
+        continue;
+      }
+      if (angleDepth > 0) {
+        j = isSymbol && OPENERS[v] ? matchClose(j) + 1 : j + 1;
+        continue;
+      }
+
+      if (v === 'get' && isIdent(j) && isIdent(j + 1) && j + 1 < limit) {
+        const after = valueAt(j + 2);
+        if (['{', '=>', ';', 'async', 'sync'].includes(after)) {
+          return finishCallable(
+            'getter',
+            valueAt(j + 1),
+            textBetween(headerStart, j - 1) || 'dynamic',
+            '',
+            j + 2
+          );
+        }
+      }
+
+      if (isSymbol && v === '(') {
+        // Record types at the start of a header and `Function(...)` types are part of the type
+        if (j === headerStart || valueAt(j - 1) === 'Function') {
+          j = matchClose(j) + 1;
+          continue;
+        }
+
+        let nameIndex = j - 1;
+        if (valueAt(nameIndex) === '>') {
+          // Method type parameters: walk back to the matching `<`
+          let depth = 0;
+          for (let q = nameIndex; q >= headerStart; q--) {
+            if (valueAt(q) === '>') depth++;
+            else if (valueAt(q) === '<') {
+              depth--;
+              if (depth === 0) {
+                nameIndex = q - 1;
+                break;
+              }
+            }
+          }
+        }
+        if (!isIdent(nameIndex) || nameIndex < headerStart) break;
+
+        let name = valueAt(nameIndex);
+        let kind: DartMemberKind = ownerName === null ? 'function' : 'method';
+        let typeEnd = nameIndex - 1;
+
+        if (valueAt(nameIndex - 1) === '.' && isIdent(nameIndex - 2) && nameIndex - 2 >= headerStart) {
+          name = `${valueAt(nameIndex - 2)}.${name}`;
+          typeEnd = nameIndex - 3;
+        }
+
+        const baseName = name.split('.')[0];
+        if (ownerName !== null && baseName === ownerName && typeEnd < headerStart) {
+          kind = modifiers.includes('factory') ? 'factory' : 'constructor';
+        } else if (valueAt(typeEnd) === 'set' && typeEnd >= headerStart) {
+          kind = 'setter';
+          typeEnd--;
+        }
+
+        const close = matchClose(j);
+        let returnType = textBetween(headerStart, typeEnd);
+        if (kind === 'constructor' || kind === 'factory') returnType = ownerName || name;
+        else if (!returnType) returnType = kind === 'setter' ? 'void' : 'dynamic';
+
+        return finishCallable(kind, name, returnType, textBetween(j + 1, close - 1), close + 1);
+      }
+
+      if (isSymbol && (v === '=' || v === ';' || v === ',')) {
+        // Field or variable declaration
+        const end = v === ';' ? j : skipToSemicolon(j, limit);
+        const nameIndex = j - 1;
+        if (isIdent(nameIndex) && nameIndex >= headerStart) {
+          const member = buildMember({
+            name: valueAt(nameIndex),
+            kind: 'field',
+            signature: textBetween(declStart, nameIndex),
+            returnType: textBetween(headerStart, nameIndex - 1) || 'dynamic',
+            parameters: '',
+            modifiers,
+            annotations,
+            isAbstract: modifiers.includes('abstract'),
+            isAsync: false,
+            hasBody: false,
+          }, declStart, end);
+          return { member, next: Math.max(end + 1, i + 1) };
+        }
+        return { member: null, next: Math.max(end + 1, i + 1) };
+      }
+
+      if (isSymbol && (v === '{' || v === '=>')) {
+        // Unrecognised block - skip it wholesale
+        const end = v === '{' ? matchClose(j) : skipToSemicolon(j, limit);
+        return { member: null, next: Math.max(end + 1, i + 1) };
+      }
+
+      if (isSymbol && CLOSERS.has(v)) break;
+      j++;
+    }
+
+    return { member: null, next: Math.max(j + 1, i + 1) };
+  };
+
+  const parseMembers = (from: number, to: number, ownerName: string | null): DartMember[] => {
+    const members: DartMember[] = [];
+    let k = from;
+    while (k < to) {
+      if (valueAt(k) === ';') {
+        k++;
+        continue;
+      }
+      const { member, next } = parseMember(k, to, ownerName);
+      if (member) members.push(member);
+      k = next;
+    }
+    return members;
+  };
+
+  const parseTypeDeclaration = (
+    kind: DartDeclarationKind,
+    keywordIndex: number,
+    declStart: number,
+    modifiers: string[],
+    annotations: string[]
+  ): number => {
+    let k = keywordIndex + (kind === 'extensionType' ? 2 : 1);
+    if (kind === 'extensionType' && valueAt(k) === 'const') k++;
+    let name = '';
+    if (isIdent(k) && !(kind === 'extension' && valueAt(k) === 'on')) {
+      name = valueAt(k);
+      k++;
+    }
+
+    let typeParameters = '';
+    if (valueAt(k) === '<') {
+      const close = matchAngle(k, tokens.length);
+      typeParameters = textBetween(k, close);
+      k = close + 1;
+    }
+
+    // Header clauses up to the body
+    const clauses: Record<string, [number, number]> = {};
+    let currentClause: string | null = null;
+    let clauseStart = k;
+    while (k < tokens.length && valueAt(k) !== '{' && valueAt(k) !== ';') {
+      const v = valueAt(k);
+      if (['extends', 'with', 'implements', 'on'].includes(v) && isIdent(k)) {
+        if (currentClause) clauses[currentClause] = [clauseStart, k - 1];
+        currentClause = v;
+        clauseStart = k + 1;
+        k++;
+        continue;
+      }
+      if (v === '=' && kind === 'class') {
+        // Mixin application: class A = B with C;
+        currentClause = 'extends';
+        clauseStart = k + 1;
+        k++;
+        continue;
+      }
+      if (v === '<') {
+        k = matchAngle(k, tokens.length) + 1;
+        continue;
+      }
+      if (OPENERS[v] && tokens[k].type === 'symbol') {
+        k = matchClose(k) + 1;
+        continue;
+      }
+      k++;
+    }
+    if (currentClause) clauses[currentClause] = [clauseStart, k - 1];
+
+    const clauseTypes = (clause: string) => clauses[clause] ? splitTypeList(clauses[clause][0], clauses[clause][1]) : [];
+
+    let end = k;
+    let members: DartMember[] = [];
+    if (valueAt(k) === '{') {
+      end = matchClose(k);
+      let bodyStart = k + 1;
+      if (kind === 'enum') {
+        // Skip the enum values up to the first `;` at depth 0
+        let q = bodyStart;
+        while (q < end && valueAt(q) !== ';') {
+          q = OPENERS[valueAt(q)] && tokens[q].type === 'symbol' ? matchClose(q) + 1 : q + 1;
+        }
+        bodyStart = q + 1;
+      }
+      members = parseMembers(bodyStart, end, name);
+    }
+    if (!tokens[end]) end = tokens.length - 1;
+
+    const withClause = clauseTypes('with');
+    const superclass = kind === 'class' ? clauseTypes('extends')[0] : undefined;
+
+    declarations.push({
+      kind,
+      name,
+      modifiers,
+      annotations,
+      typeParameters,
+      superclass,
+      interfaces: clauseTypes('implements'),
+      mixins: withClause,
+      onTypes: clauseTypes('on'),
+      members,
+      lineStart: tokens[declStart].line,
+      lineEnd: tokens[end].endLine,
+      start: tokens[declStart].start,
+      end: tokens[end].end,
+    });
+
+    return end + 1;
+  };
+
+  let i = 0;
+  while (i < tokens.length) {
+    const annotations: string[] = [];
+    const afterAnnotations = skipAnnotations(i, tokens.length, annotations);
+    let k = afterAnnotations;
+    const v = valueAt(k);
+
+    if (v === undefined) break;
+
+    if (DIRECTIVES.has(v) && isIdent(k) && (tokens[k + 1]?.type === 'string' || isIdent(k + 1) || valueAt(k + 1) === ';')) {
+      i = skipToSemicolon(k, tokens.length) + 1;
+      continue;
+    }
+
+    if (v === 'typedef') {
+      i = skipToSemicolon(k, tokens.length) + 1;
+      continue;
+    }
+
+    const modifiers: string[] = [];
+    while (TYPE_MODIFIERS.has(valueAt(k)) && isIdent(k + 1)) {
+      // `mixin Foo` is a declaration, `mixin class Foo` is a modifier
+      if (valueAt(k) === 'mixin' && valueAt(k + 1) !== 'class') break;
+      modifiers.push(valueAt(k));
+      k++;
+    }
+
+    const keyword = valueAt(k);
+    if (keyword === 'class' && isIdent(k + 1)) {
+      i = parseTypeDeclaration('class', k, afterAnnotations, modifiers, annotations);
+      continue;
+    }
+    if (keyword === 'mixin' && isIdent(k + 1)) {
+      i = parseTypeDeclaration('mixin', k, afterAnnotations, modifiers, annotations);
+      continue;
+    }
+    if (keyword === 'enum' && isIdent(k + 1)) {
+      i = parseTypeDeclaration('enum', k, afterAnnotations, modifiers, annotations);
+      continue;
+    }
+    if (keyword === 'extension' && valueAt(k + 1) === 'type' && isIdent(k + 2)) {
+      i = parseTypeDeclaration('extensionType', k, afterAnnotations, modifiers, annotations);
+      continue;
+    }
+    if (keyword === 'extension' && (isIdent(k + 1) || valueAt(k + 1) === '<')) {
+      i = parseTypeDeclaration('extension', k, afterAnnotations, modifiers, annotations);
+      continue;
+    }
+
+    const { member, next } = parseMember(i, tokens.length, null);
+    if (member) topLevel.push(member);
+    i = next;
+  }
+
+  return { declarations, topLevel };
+};
+
+// Text of a string literal token without its quotes (and `r` prefix)
+const stringLiteralValue = (raw: string): string => {
+  const body = raw.replace(/^r/, '');
+  const quote = body.startsWith("'''") || body.startsWith('"""') ? 3 : 1;
+  return body.slice(quote, body.length - quote);
+};
+
+/**
+ * Reads the import, export, part, part of and library directives. Only
+ * top-level statements are considered, so identifiers named `import` inside
+ * declarations are not mistaken for directives.
+ */
+export const parseDartDirectives = (code: string): DartDirective[] => {
+  const tokens = tokenizeDart(code);
+  const directives: DartDirective[] = [];
+  let depth = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'symbol') {
+      if (OPENERS[token.value]) depth++;
+      else if (CLOSERS.has(token.value)) depth = Math.max(0, depth - 1);
+      continue;
+    }
+    if (depth > 0 || token.type !== 'identifier' || !DIRECTIVES.has(token.value)) continue;
+    // Directives start a statement: `void import()` is a function, `@deprecated import` is not
+    if (i > 0 && tokens[i - 1].type !== 'symbol' && tokens[i - 2]?.value !== '@') continue;
+
+    let end = i + 1;
+    while (end < tokens.length && tokens[end].value !== ';') end++;
+    const body = tokens.slice(i + 1, end);
+    const dottedName = (from: number) => body.slice(from).filter(t => t.type === 'identifier' || t.value === '.').map(t => t.value).join('');
+
+    const isPartOf = token.value === 'part' && body[0]?.value === 'of';
+    const uriToken = body[isPartOf ? 1 : 0];
+    const hasUri = uriToken?.type === 'string';
+
+    const configurations: string[] = [];
+    body.forEach((t, k) => {
+      // `if (dart.library.io) 'io.dart'`: the URI follows the closing parenthesis
+      if (t.value === 'if' && body[k + 1]?.value === '(') {
+        const close = findClosingToken(body, k + 1);
+        if (body[close + 1]?.type === 'string') configurations.push(stringLiteralValue(body[close + 1].value));
+      }
+    });
+
+    if (token.value === 'library') {
+      directives.push({ kind: 'library', libraryName: dottedName(0) || undefined, configurations, line: token.line });
+    } else if (isPartOf) {
+      directives.push({
+        kind: 'partOf',
+        uri: hasUri ? stringLiteralValue(uriToken.value) : undefined,
+        libraryName: hasUri ? undefined : dottedName(1),
+        configurations,
+        line: token.line
+      });
+    } else if (hasUri) {
+      directives.push({ kind: token.value as DartDirectiveKind, uri: stringLiteralValue(uriToken.value), configurations, line: token.line });
+    }
+    i = end;
+  }
+
+  return directives;
+};
@@ -0,0 +1,138 @@
+/**
+ * Dependency Graph Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildDependencyGraph, layoutGraph, libraryLinks, rankByExposure } from './dependencyGraph';
+import { buildRepoStructure } from './repoStructure';
+import { summarizeScan } from './repoScanService';
+import type { DependencyGraphNode, FileCoverageResult, ImportGraph, RepoFile } from '../types';
+
+const PATHS = [
+  'pubspec.yaml',
+  'lib/main.dart',
+  'lib/cart/cart.dart',
+  'lib/cart/cart_item.dart',
+  'lib/cart/cart.g.dart',
+  'lib/utils/format.dart',
+  'lib/utils/currency.dart',
+];
+
+const structure = buildRepoStructure(
+  PATHS.map((path): RepoFile => ({ path, type: 'blob', url: path })),
+  { 'pubspec.yaml': 'name: shop\n' }
+);
+
+const graph: ImportGraph = {
+  files: PATHS.filter(path => path.endsWith('.dart')),
+  unreadable: [],
+  edges: [
+    { from: 'lib/cart/cart.dart', to: 'lib/cart/cart.g.dart', kind: 'part' },
+    { from: 'lib/cart/cart.dart', to: 'lib/cart/cart_item.dart', kind: 'part' },
+    { from: 'lib/cart/cart.dart', to: 'lib/utils/currency.dart', kind: 'export' },
+    { from: 'lib/cart/cart.g.dart', to: 'lib/cart/cart.dart', kind: 'partOf' },
+    { from: 'lib/cart/cart_item.dart', to: 'lib/cart/cart.dart', kind: 'partOf' },
+    { from: 'lib/cart/cart_item.dart', to: 'lib/utils/format.dart', kind: 'import' },
+    { from: 'lib/main.dart', to: 'lib/cart/cart.dart', kind: 'import' },
+    { from: 'lib/main.dart', to: 'lib/utils/format.dart', kind: 'import' },
+  ]
+};
+
+const result = (path: string, tested: number, total: number): FileCoverageResult => ({
+  pairId: path,
+  path,
+  packageRoot: '',
+  directory: path.slice(0, path.lastIndexOf('/')),
+  architectureType: 'util',
+  hasTestFile: tested > 0,
+  totalFunctions: total,
+  testedFunctions: tested,
+  coveragePercentage: total > 0 ? Math.round((tested / total) * 100) : 0,
+  strengthBreakdown: { none: total - tested, weak: 0, partial: 0, strong: tested },
+  complexity: total * 5
+});
+
+const report = summarizeScan([
+  result('lib/main.dart', 1, 1),
+  result('lib/cart/cart.dart', 2, 4),
+  result('lib/cart/cart_item.dart', 0, 4),
+  result('lib/utils/format.dart', 0, 2),
+  result('lib/utils/currency.dart', 3, 3),
+]);
+
+describe('libraryLinks', () => {
+  it('should attribute imports made by parts to their library and drop part edges', () => {
+    const links = libraryLinks(graph, new Set(['lib/main.dart', 'lib/cart/cart.dart', 'lib/utils/format.dart', 'lib/utils/currency.dart']));
+
+    expect(links.map(l => `${l.source} -> ${l.target}`).sort()).toEqual([
+      'lib/cart/cart.dart -> lib/utils/currency.dart',
+      'lib/cart/cart.dart -> lib/utils/format.dart',
+      'lib/main.dart -> lib/cart/cart.dart',
+      'lib/main.dart -> lib/utils/format.dart',
+    ]);
+  });
+});
+
+describe('buildDependencyGraph', () => {
+  it('should fold parts into their library and count direct and transitive importers', () => {
+    const layout = buildDependencyGraph(graph, structure, report);
+    const nodes = Object.fromEntries(layout.nodes.map(n => [n.id, [n.functions, n.coverage, n.importedBy, n.dependents]]));
+
+    expect(nodes).toEqual({
+      'lib/main.dart': [1, 100, 0, 0],
+      'lib/cart/cart.dart': [8, 25, 1, 1],
+      'lib/utils/format.dart': [2, 0, 2, 2],
+      'lib/utils/currency.dart': [3, 100, 1, 2],
+    });
+  });
+
+  it('should leave coverage empty until the repository is scanned', () => {
+    const layout = buildDependencyGraph(graph, structure, null);
+
+    expect(layout.nodes.every(n => n.coverage === null && n.functions === 0)).toBe(true);
+    expect(rankByExposure(layout.nodes)).toEqual([]);
+  });
+
+  it('should keep every node inside the canvas and lay out the same graph the same way', () => {
+    const first = buildDependencyGraph(graph, structure, report, { width: 300, height: 200 });
+    const second = buildDependencyGraph(graph, structure, report, { width: 300, height: 200 });
+
+    for (const node of first.nodes) {
+      expect(node.x).toBeGreaterThanOrEqual(node.radius);
+      expect(node.x).toBeLessThanOrEqual(300 - node.radius);
+      expect(node.y).toBeGreaterThanOrEqual(node.radius);
+      expect(node.y).toBeLessThanOrEqual(200 - node.radius);
+    }
+    expect(second.nodes.map(n => [n.x, n.y])).toEqual(first.nodes.map(n => [n.x, n.y]));
+  });
+});
+
+describe('layoutGraph', () => {
+  it('should pull linked nodes closer together than unlinked ones', () => {
+    const node = (id: string): DependencyGraphNode => ({ id, label: id, functions: 0, coverage: null, importedBy: 0, dependents: 0, x: 0, y: 0, radius: 4 });
+    const nodes = ['a', 'b', 'c', 'd'].map(node);
+    layoutGraph(nodes, [{ source: 'a', target: 'b' }, { source: 'c', target: 'd' }]);
+    const [a, b, c] = nodes;
+
+    expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeLessThan(Math.hypot(a.x - c.x, a.y - c.y));
+  });
+
+  it('should spread a monorepo-sized graph across the canvas', () => {
+    const nodes = Array.from({ length: 2000 }, (_, i): DependencyGraphNode =>
+      ({ id: `n${i}`, label: `n${i}`, functions: 0, coverage: null, importedBy: 0, dependents: 0, x: 0, y: 0, radius: 4 }));
+    const links = nodes.slice(1).map((n, i) => ({ source: n.id, target: nodes[Math.floor(i / 3)].id }));
+    layoutGraph(nodes, links);
+
+    expect(nodes.every(n => n.x >= 4 && n.x <= 956 && n.y >= 4 && n.y <= 636)).toBe(true);
+    const occupied = new Set(nodes.map(n => `${Math.floor(n.x / 20)},${Math.floor(n.y / 20)}`));
+    expect(occupied.size).toBeGreaterThan(nodes.length / 4);
+  });
+});
+
+describe('rankByExposure', () => {
+  it('should rank shared files with the least coverage first', () => {
+    const layout = buildDependencyGraph(graph, structure, report);
+
+    expect(rankByExposure(layout.nodes).map(n => n.id)).toEqual(['lib/utils/format.dart', 'lib/cart/cart.dart']);
+  });
+});
@@ -0,0 +1,246 @@
+import { DependencyGraphLayout, DependencyGraphLink, DependencyGraphNode, ImportGraph, RepoCoverageReport, RepoStructure } from "../types";
+
+/**
+ * Dependency Graph View
+ *
+ * Reduces the import graph to the paired lib/ files, joins it with the
+ * repository scan and lays it out for drawing. Parts are folded into their
+ * library so generated `.g.dart` files do not show up as separate nodes.
+ */
+
+const MIN_RADIUS = 4;
+const MAX_RADIUS = 24;
+const GRAVITY = 0.1; // Mild pull to the centre keeps unconnected files from drifting to the edges
+const THETA = 0.9; // Barnes-Hut: a cell this small relative to its distance acts as one body
+const MAX_QUAD_DEPTH = 16; // Stops splitting when nodes sit on top of each other
+const LAYOUT_BUDGET = 40_000; // Node updates per layout; big graphs get fewer, cheaper steps
+const MIN_ITERATIONS = 20;
+const MAX_ITERATIONS = 200;
+
+export interface GraphLayoutOptions {
+  width?: number;
+  height?: number;
+  iterations?: number;
+}
+
+const radiusFor = (functions: number): number => Math.min(MAX_RADIUS, MIN_RADIUS + Math.sqrt(functions) * 2.5);
+
+// Part file -> the library it belongs to
+const partOwners = (graph: ImportGraph): Map<string, string> => {
+  const libraryOf = new Map<string, string>();
+  for (const edge of graph.edges) {
+    if (edge.kind === 'part') libraryOf.set(edge.to, edge.from);
+    if (edge.kind === 'partOf') libraryOf.set(edge.from, edge.to);
+  }
+  return libraryOf;
+};
+
+/**
+ * Links between lib files, with part files attributed to their library
+ */
+export const libraryLinks = (graph: ImportGraph, nodeIds: Set<string>): DependencyGraphLink[] => {
+  const libraryOf = partOwners(graph);
+  const links = new Map<string, DependencyGraphLink>();
+  for (const edge of graph.edges) {
+    if (edge.kind === 'part' || edge.kind === 'partOf') continue;
+    const source = libraryOf.get(edge.from) ?? edge.from;
+    const target = libraryOf.get(edge.to) ?? edge.to;
+    if (source === target || !nodeIds.has(source) || !nodeIds.has(target)) continue;
+    links.set(`${source}\n${target}`, { source, target });
+  }
+  return [...links.values()];
+};
+
+// Number of nodes reaching each node through the links
+const countDependents = (ids: string[], links: DependencyGraphLink[]): Map<string, number> => {
+  const importers = new Map<string, string[]>(ids.map(id => [id, []]));
+  links.forEach(link => importers.get(link.target)!.push(link.source));
+
+  return new Map(ids.map(id => {
+    const seen = new Set([id]);
+    const queue = [id];
+    while (queue.length > 0) {
+      for (const next of importers.get(queue.shift()!) || []) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    return [id, seen.size - 1];
+  }));
+};
+
+const defaultIterations = (count: number): number =>
+  Math.max(MIN_ITERATIONS, Math.min(MAX_ITERATIONS, Math.round(LAYOUT_BUDGET / Math.max(1, count))));
+
+// Barnes-Hut cell: its nodes' count and centre of mass, split into quadrants
+interface QuadCell {
+  size: number;
+  mass: number;
+  x: number;
+  y: number;
+  bodies: number[]; // Node indices, only kept on leaves
+  children: QuadCell[];
+}
+
+const buildQuadTree = (nodes: DependencyGraphNode[], indices: number[], x0: number, y0: number, size: number, depth = 0): QuadCell => {
+  let x = 0;
+  let y = 0;
+  indices.forEach(i => {
+    x += nodes[i].x;
+    y += nodes[i].y;
+  });
+  const cell: QuadCell = { size, mass: indices.length, x: x / indices.length, y: y / indices.length, bodies: [], children: [] };
+  if (indices.length === 1 || depth >= MAX_QUAD_DEPTH) {
+    cell.bodies = indices;
+    return cell;
+  }
+
+  const half = size / 2;
+  const quadrants: number[][] = [[], [], [], []];
+  indices.forEach(i => quadrants[(nodes[i].x >= x0 + half ? 1 : 0) + (nodes[i].y >= y0 + half ? 2 : 0)].push(i));
+  quadrants.forEach((quadrant, q) => {
+    if (quadrant.length > 0) {
+      cell.children.push(buildQuadTree(nodes, quadrant, x0 + (q & 1 ? half : 0), y0 + (q & 2 ? half : 0), half, depth + 1));
+    }
+  });
+  return cell;
+};
+
+/**
+ * Force-directed placement (Fruchterman-Reingold). Starts from a fixed
+ * spiral so the same graph always lands in the same place. Repulsion is
+ * approximated with a Barnes-Hut quadtree, so each step costs n log n rather
+ * than n², and big graphs take fewer steps so large monorepos lay out without
+ * freezing the page.
+ */
+export const layoutGraph = (
+  nodes: DependencyGraphNode[],
+  links: DependencyGraphLink[],
+  { width = 960, height = 640, iterations = defaultIterations(nodes.length) }: GraphLayoutOptions = {}
+): void => {
+  if (nodes.length === 0) return;
+  const cx = width / 2;
+  const cy = height / 2;
+  const k = Math.sqrt((width * height) / nodes.length) * 0.8;
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+
+  nodes.forEach((node, i) => {
+    const angle = i * 2.399963; // Golden angle
+    const distance = Math.sqrt(i / nodes.length) * Math.min(width, height) * 0.45;
+    node.x = cx + Math.cos(angle) * distance;
+    node.y = cy + Math.sin(angle) * distance;
+  });
+
+  const dx = new Float64Array(nodes.length);
+  const dy = new Float64Array(nodes.length);
+
+  for (let step = 0; step < iterations; step++) {
+    const temperature = (width / 10) * (1 - step / iterations);
+    dx.fill(0);
+    dy.fill(0);
+
+    const root = buildQuadTree(nodes, nodes.map((_, i) => i), 0, 0, Math.max(width, height));
+    const repel = (i: number, fromX: number, fromY: number, mass: number) => {
+      const x = nodes[i].x - fromX;
+      const y = nodes[i].y - fromY;
+      const distance = Math.max(0.01, Math.hypot(x, y));
+      const force = (k * k * mass) / distance;
+      dx[i] += (x / distance) * force;
+      dy[i] += (y / distance) * force;
+    };
+    const visit = (i: number, cell: QuadCell) => {
+      if (cell.children.length === 0) {
+        cell.bodies.forEach(j => j !== i && repel(i, nodes[j].x, nodes[j].y, 1));
+      } else if (cell.size < THETA * Math.hypot(nodes[i].x - cell.x, nodes[i].y - cell.y)) {
+        repel(i, cell.x, cell.y, cell.mass);
+      } else {
+        cell.children.forEach(child => visit(i, child));
+      }
+    };
+    for (let i = 0; i < nodes.length; i++) visit(i, root);
+
+    for (const link of links) {
+      const i = index.get(link.source)!;
+      const j = index.get(link.target)!;
+      const x = nodes[i].x - nodes[j].x;
+      const y = nodes[i].y - nodes[j].y;
+      const distance = Math.max(0.01, Math.hypot(x, y));
+      const force = (distance * distance) / k;
+      dx[i] -= (x / distance) * force;
+      dy[i] -= (y / distance) * force;
+      dx[j] += (x / distance) * force;
+      dy[j] += (y / distance) * force;
+    }
+
+    nodes.forEach((node, i) => {
+      dx[i] += (cx - node.x) * GRAVITY;
+      dy[i] += (cy - node.y) * GRAVITY;
+      const displacement = Math.max(0.01, Math.hypot(dx[i], dy[i]));
+      const move = Math.min(displacement, temperature);
+      node.x = Math.min(width - node.radius, Math.max(node.radius, node.x + (dx[i] / displacement) * move));
+      node.y = Math.min(height - node.radius, Math.max(node.radius, node.y + (dy[i] / displacement) * move));
+    });
+  }
+};
+
+/**
+ * Nodes for every paired lib file, sized by public functions and carrying
+ * coverage from the scan when there is one. A hand-written part counts
+ * towards its library.
+ */
+export const buildDependencyGraph = (
+  graph: ImportGraph,
+  structure: RepoStructure,
+  report: RepoCoverageReport | null,
+  options: GraphLayoutOptions = {}
+): DependencyGraphLayout => {
+  const { width = 960, height = 640 } = options;
+  const libraryOf = partOwners(graph);
+  const ids = structure.pairs.map(pair => pair.id).filter(id => !libraryOf.has(id)).sort();
+
+  const totals = new Map<string, { functions: number; tested: number }>();
+  for (const file of report?.files ?? []) {
+    if (file.error) continue;
+    const id = libraryOf.get(file.pairId) ?? file.pairId;
+    const total = totals.get(id) ?? { functions: 0, tested: 0 };
+    totals.set(id, { functions: total.functions + file.totalFunctions, tested: total.tested + file.testedFunctions });
+  }
+
+  const links = libraryLinks(graph, new Set(ids));
+  const dependents = countDependents(ids, links);
+
+  const importedBy = new Map<string, number>();
+  links.forEach(link => importedBy.set(link.target, (importedBy.get(link.target) ?? 0) + 1));
+
+  const nodes = ids.map((id): DependencyGraphNode => {
+    const total = totals.get(id);
+    const functions = total?.functions ?? 0;
+    return {
+      id,
+      label: id.split('/').pop() || id,
+      functions,
+      coverage: !total ? null : functions === 0 ? 0 : Math.round((total.tested / functions) * 100),
+      importedBy: importedBy.get(id) ?? 0,
+      dependents: dependents.get(id) ?? 0,
+      x: 0,
+      y: 0,
+      radius: radiusFor(functions)
+    };
+  });
+
+  layoutGraph(nodes, links, { ...options, width, height });
+  return { nodes, links, width, height };
+};
+
+/**
+ * Files where a bug does the most damage: many dependents, little coverage
+ */
+export const rankByExposure = (nodes: DependencyGraphNode[], limit = 10): DependencyGraphNode[] =>
+  nodes
+    .filter(node => node.coverage !== null && node.functions > 0 && node.dependents > 0 && node.coverage < 100)
+    .map(node => ({ node, exposure: node.dependents * (100 - node.coverage!) }))
+    .sort((a, b) => b.exposure - a.exposure || (a.node.id < b.node.id ? -1 : 1))
+    .slice(0, limit)
+    .map(({ node }) => node);
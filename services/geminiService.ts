@@ -1,7 +1,7 @@
 
 import { GoogleGenAI, Type, Schema } from "@google/genai";
 import { AnalysisReport, GeneratedTestResponse, PackageDependencies, ArchitectureType, DeepAnalysisContext } from "../types";
-import { detectArchitecture, extractPublicMethods } from "./analysisEngine";
+import { detectArchitecture, extractPublicMethods, mockitoStyle } from "./analysisEngine";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
@@ -33,7 +33,8 @@ const getSystemInstructionForArch = (
 
   // Dependency specific
   if (deps.hasMocktail) base += `Use 'mocktail' for mocking. `;
-  else if (deps.hasMockito) base += `Use 'mockito' with @GenerateMocks. `;
+  else if (deps.hasMockito && mockitoStyle(deps) === 'manual') base += `Use 'mockito' with hand-written classes extending Mock (pre-null-safety). `;
+  else if (deps.hasMockito) base += `Use 'mockito' 5 with ${mockitoStyle(deps) === 'niceMocks' ? '@GenerateNiceMocks' : '@GenerateMocks'} and build_runner. `;
   else base += `Use manual Fake/Mock classes. `;
 
   // Linter Context
@@ -0,0 +1,133 @@
+/**
+ * GitHub Client Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GithubClient, RateLimitError } from './githubClient';
+
+const URL = 'https://api.github.com/repos/acme/shop';
+
+const quota = (remaining: number, resetSeconds = Math.floor(Date.now() / 1000) + 3600) => ({
+  'X-RateLimit-Limit': '60',
+  'X-RateLimit-Remaining': String(remaining),
+  'X-RateLimit-Reset': String(resetSeconds),
+});
+
+const mockFetch = (...responses: (() => Response)[]) => {
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => (responses.shift() ?? (() => new Response('', { status: 500 })))());
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const createClient = () => {
+  const sleep = vi.fn(async (_ms: number) => {});
+  return { client: new GithubClient({ sleep }), sleep };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('GithubClient', () => {
+  it('should track the remaining quota and notify subscribers', async () => {
+    mockFetch(() => new Response('{}', { status: 200, headers: quota(42) }));
+    const { client } = createClient();
+    const listener = vi.fn();
+    client.subscribe(listener);
+
+    await client.request(URL);
+
+    expect(client.getRateLimit()).toMatchObject({ limit: 60, remaining: 42 });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ remaining: 42 }));
+  });
+
+  it('should revalidate with If-None-Match and reuse the cached body on 304', async () => {
+    const fetchMock = mockFetch(
+      () => new Response('{"name":"shop"}', { status: 200, headers: { ETag: '"abc"' } }),
+      () => new Response(null, { status: 304 })
+    );
+    const { client } = createClient();
+
+    await client.request(URL);
+    const second = await client.request(URL);
+
+    expect(fetchMock.mock.calls[1][1]?.headers).toMatchObject({ 'If-None-Match': '"abc"' });
+    expect(second.status).toBe(200);
+    expect(await second.json()).toEqual({ name: 'shop' });
+  });
+
+  it('should pass through responses that cannot have a body', async () => {
+    mockFetch(
+      () => new Response(null, { status: 204, headers: quota(41) }),
+      () => new Response(null, { status: 304, headers: quota(40) }),
+    );
+    const { client } = createClient();
+
+    const noContent = await client.request(URL);
+    const notModified = await client.request(URL);
+
+    expect(noContent.status).toBe(204);
+    expect(await noContent.text()).toBe('');
+    expect(notModified.status).toBe(304);
+  });
+
+  it('should honour Retry-After on 429 and then succeed', async () => {
+    mockFetch(
+      () => new Response('', { status: 429, headers: { 'Retry-After': '2' } }),
+      () => new Response('ok', { status: 200 })
+    );
+    const { client, sleep } = createClient();
+
+    const response = await client.request(URL);
+
+    expect(await response.text()).toBe('ok');
+    expect(sleep).toHaveBeenCalledWith(2000);
+  });
+
+  it('should back off exponentially on server errors', async () => {
+    mockFetch(
+      () => new Response('', { status: 502 }),
+      () => new Response('', { status: 503 }),
+      () => new Response('ok', { status: 200 })
+    );
+    const { client, sleep } = createClient();
+
+    await client.request(URL);
+
+    expect(sleep.mock.calls.map(call => call[0])).toEqual([1000, 2000]);
+  });
+
+  it('should throw a RateLimitError when the quota resets too far away', async () => {
+    mockFetch(() => new Response('', { status: 403, headers: quota(0) }));
+    const { client, sleep } = createClient();
+
+    await expect(client.request(URL)).rejects.toBeInstanceOf(RateLimitError);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should not retry permission errors', async () => {
+    const fetchMock = mockFetch(() => new Response('', { status: 403, headers: quota(30) }));
+    const { client } = createClient();
+
+    const response = await client.request(URL);
+
+    expect(response.status).toBe(403);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should limit concurrent requests', async () => {
+    let active = 0;
+    let peak = 0;
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return new Response('ok', { status: 200 });
+    }));
+    const client = new GithubClient({ maxConcurrent: 2 });
+
+    await Promise.all(Array.from({ length: 6 }, () => client.request(URL)));
+
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,216 @@
+import { RateLimitInfo } from '../types';
+
+/**
+ * GitHub HTTP Client
+ *
+ * Every GitHub API call goes through one shared client that limits
+ * concurrency, tracks the rate-limit headers, retries with backoff and
+ * revalidates repeated GETs with ETags (304 responses do not use quota).
+ */
+
+export class GithubApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'GithubApiError';
+    this.status = status;
+  }
+}
+
+export class RateLimitError extends GithubApiError {
+  resetAt: number;
+
+  constructor(resetAt: number, status: number) {
+    const resetTime = new Date(resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    super(`GitHub API rate limit exceeded until ${resetTime}. Sign in or provide a Personal Access Token for a higher limit.`, status);
+    this.name = 'RateLimitError';
+    this.resetAt = resetAt;
+  }
+}
+
+export interface GithubClientOptions {
+  maxConcurrent?: number;
+  maxRetries?: number;
+  maxWaitMs?: number; // Longest pause before giving up and surfacing the limit
+  maxCachedResponses?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface CachedResponse {
+  etag: string;
+  body: string;
+  headers: [string, string][]; // Replayed on 304 so Link and Content-Type survive
+}
+
+const BASE_BACKOFF_MS = 1000;
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export class GithubClient {
+  private readonly maxConcurrent: number;
+  private readonly maxRetries: number;
+  private readonly maxWaitMs: number;
+  private readonly maxCachedResponses: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  private cache = new Map<string, CachedResponse>();
+  private rateLimit: RateLimitInfo | null = null;
+  private listeners = new Set<(info: RateLimitInfo) => void>();
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(options: GithubClientOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? 6;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.maxWaitMs = options.maxWaitMs ?? 60_000;
+    this.maxCachedResponses = options.maxCachedResponses ?? 500;
+    this.sleep = options.sleep ?? defaultSleep;
+  }
+
+  getRateLimit(): RateLimitInfo | null {
+    return this.rateLimit;
+  }
+
+  /**
+   * Notifies on every quota change; returns the unsubscribe function
+   */
+  subscribe(listener: (info: RateLimitInfo) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * GET with queueing, retries and ETag revalidation. Resolves with a fresh
+   * Response whose body can be read normally, even when served from cache.
+   * Passing a body sends a POST instead, which is never cached.
+   */
+  async request(url: string, headers: Record<string, string> = {}, body?: string): Promise<Response> {
+    await this.acquire();
+    try {
+      return await this.send(url, headers, body);
+    } finally {
+      this.release();
+    }
+  }
+
+  private async send(url: string, headers: Record<string, string>, body?: string): Promise<Response> {
+    // Responses differ per token and media type, so both are part of the key
+    const key = `${headers['Authorization'] ?? ''}|${headers['Accept'] ?? ''}|${url}`;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForQuota();
+
+      const cached = body === undefined ? this.cache.get(key) : undefined;
+      const response = body === undefined
+        ? await fetch(url, { headers: cached ? { ...headers, 'If-None-Match': cached.etag } : headers })
+        : await fetch(url, { method: 'POST', headers, body });
+      this.updateRateLimit(response.headers);
+
+      if (response.status === 304 && cached) {
+        return new Response(cached.body, { status: 200, headers: cached.headers });
+      }
+
+      if (this.isRateLimited(response)) {
+        const delay = this.retryDelay(response, attempt);
+        if (attempt >= this.maxRetries || delay > this.maxWaitMs) {
+          throw new RateLimitError(Date.now() + delay, response.status);
+        }
+        await this.sleep(delay);
+        continue;
+      }
+
+      if (response.status >= 500 && attempt < this.maxRetries) {
+        await this.sleep(BASE_BACKOFF_MS * 2 ** attempt);
+        continue;
+      }
+
+      const text = await response.text();
+      const etag = response.headers.get('ETag');
+      if (response.ok && etag && body === undefined) this.remember(key, { etag, body: text, headers: [...response.headers] });
+
+      // The Response constructor rejects any body, even an empty one, for these statuses
+      const nullBody = NULL_BODY_STATUSES.has(response.status);
+      return new Response(nullBody ? null : text, { status: response.status, statusText: response.statusText, headers: response.headers });
+    }
+  }
+
+  private isRateLimited(response: Response): boolean {
+    if (response.status === 429) return true;
+    // 403 is also used for permission errors; only the quota headers tell them apart
+    return response.status === 403 &&
+      (response.headers.get('X-RateLimit-Remaining') === '0' || response.headers.has('Retry-After'));
+  }
+
+  private retryDelay(response: Response, attempt: number): number {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    if (retryAfter > 0) return retryAfter * 1000;
+
+    if (response.headers.get('X-RateLimit-Remaining') === '0') {
+      const reset = Number(response.headers.get('X-RateLimit-Reset')) * 1000;
+      if (reset > 0) return Math.max(reset - Date.now(), 0) + BASE_BACKOFF_MS;
+    }
+
+    return BASE_BACKOFF_MS * 2 ** attempt;
+  }
+
+  /**
+   * Holds requests once the quota is spent instead of burning them on errors
+   */
+  private async waitForQuota(): Promise<void> {
+    if (!this.rateLimit || this.rateLimit.remaining > 0) return;
+
+    const delay = this.rateLimit.resetAt - Date.now();
+    if (delay <= 0) return;
+    if (delay > this.maxWaitMs) throw new RateLimitError(this.rateLimit.resetAt, 403);
+    await this.sleep(delay);
+  }
+
+  private updateRateLimit(headers: Headers) {
+    // GraphQL has a separate point budget; the header shows the REST quota
+    const resource = headers.get('X-RateLimit-Resource');
+    if (resource && resource !== 'core') return;
+
+    const limit = headers.get('X-RateLimit-Limit');
+    const remaining = headers.get('X-RateLimit-Remaining');
+    const reset = headers.get('X-RateLimit-Reset');
+    if (limit === null || remaining === null || reset === null) return;
+
+    this.rateLimit = { limit: Number(limit), remaining: Number(remaining), resetAt: Number(reset) * 1000 };
+    this.listeners.forEach(listener => listener(this.rateLimit!));
+  }
+
+  private remember(key: string, entry: CachedResponse) {
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    // Maps iterate in insertion order, so the first key is the oldest
+    if (this.cache.size > this.maxCachedResponses) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private release() {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Shared by every GithubService so quota and ETags survive across instances
+ */
+export const githubClient = new GithubClient();
@@ -0,0 +1,38 @@
+/**
+ * GitHub Host Configuration Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { DEFAULT_GITHUB_HOST, createGithubHost, getGithubHost, setGithubHost } from './githubHost';
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+describe('createGithubHost', () => {
+  it('should derive Enterprise Server endpoints from the web URL', () => {
+    expect(createGithubHost('github.example.com/')).toEqual({
+      webUrl: 'https://github.example.com',
+      apiUrl: 'https://github.example.com/api/v3',
+      graphqlUrl: 'https://github.example.com/api/graphql'
+    });
+  });
+
+  it('should map github.com to the public API', () => {
+    expect(createGithubHost('https://github.com')).toBe(DEFAULT_GITHUB_HOST);
+  });
+});
+
+describe('setGithubHost', () => {
+  it('should persist the host and restore github.com when cleared', () => {
+    setGithubHost('https://ghe.acme.corp');
+    expect(getGithubHost().apiUrl).toBe('https://ghe.acme.corp/api/v3');
+
+    setGithubHost('');
+    expect(getGithubHost()).toBe(DEFAULT_GITHUB_HOST);
+  });
+
+  it('should reject values that are not URLs', () => {
+    expect(() => setGithubHost('not a host')).toThrow();
+  });
+});
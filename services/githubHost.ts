@@ -0,0 +1,52 @@
+/**
+ * GitHub Host Configuration
+ *
+ * github.com by default; pointing the web URL at a GitHub Enterprise Server
+ * instance derives its REST, GraphQL and OAuth endpoints. The choice is
+ * stored in the browser so it can change without a rebuild.
+ */
+
+export interface GithubHost {
+  webUrl: string; // e.g. https://github.example.com
+  apiUrl: string; // REST root, without the /repos suffix
+  graphqlUrl: string;
+}
+
+export const GITHUB_HOST_STORAGE_KEY = 'sentinel_gh_host';
+
+export const DEFAULT_GITHUB_HOST: GithubHost = {
+  webUrl: 'https://github.com',
+  apiUrl: 'https://api.github.com',
+  graphqlUrl: 'https://api.github.com/graphql'
+};
+
+/**
+ * Derives the API endpoints from a web URL; Enterprise serves them under /api
+ */
+export const createGithubHost = (webUrl: string): GithubHost => {
+  const trimmed = webUrl.trim().replace(/\/+$/, '');
+  const normalized = /^https?:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`;
+  const { origin, hostname } = new URL(normalized);
+
+  if (hostname === 'github.com' || hostname === 'www.github.com') return DEFAULT_GITHUB_HOST;
+  return { webUrl: origin, apiUrl: `${origin}/api/v3`, graphqlUrl: `${origin}/api/graphql` };
+};
+
+export const getGithubHost = (): GithubHost => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(GITHUB_HOST_STORAGE_KEY) : null;
+    return stored ? createGithubHost(stored) : DEFAULT_GITHUB_HOST;
+  } catch (e) {
+    return DEFAULT_GITHUB_HOST;
+  }
+};
+
+/**
+ * Saves the web URL of the host to use; an empty value restores github.com
+ */
+export const setGithubHost = (webUrl: string): GithubHost => {
+  const host = webUrl.trim() ? createGithubHost(webUrl) : DEFAULT_GITHUB_HOST;
+  if (host === DEFAULT_GITHUB_HOST) localStorage.removeItem(GITHUB_HOST_STORAGE_KEY);
+  else localStorage.setItem(GITHUB_HOST_STORAGE_KEY, host.webUrl);
+  return host;
+};
@@ -0,0 +1,209 @@
+/**
+ * GitHub Service Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GithubService, parsePullRequestInput } from './githubService';
+import { parseRepoUrl } from './sourceProvider';
+import { createGithubHost } from './githubHost';
+import { githubClient } from './githubClient';
+import { MemoryCache, contentCache } from './contentCache';
+
+const API = 'https://api.github.com/repos/acme/shop';
+const HEAD_SHA = '0123456789abcdef0123456789abcdef01234567';
+
+const respond = (body: unknown) => new Response(typeof body === 'string' ? body : JSON.stringify(body), { status: 200 });
+
+const mockGithub = (routes: Record<string, unknown>) => {
+  const fetchMock = vi.fn(async (url: string, _init?: RequestInit) => {
+    if (url in routes) return respond(routes[url]);
+    return new Response('', { status: 404, statusText: 'Not Found' });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const TREE = { tree: [{ path: 'lib/cart.dart', type: 'blob', url: `${API}/git/blobs/1` }] };
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  await contentCache.clear();
+});
+
+describe('fetchRepoTree', () => {
+  it('should load the default branch pinned to its commit', async () => {
+    const fetchMock = mockGithub({
+      [API]: { default_branch: 'develop' },
+      [`${API}/commits/develop`]: HEAD_SHA,
+      [`${API}/git/trees/${HEAD_SHA}?recursive=1`]: TREE,
+    });
+
+    const structure = await new GithubService().fetchRepoTree('acme', 'shop');
+
+    expect(structure.ref).toEqual({ name: 'develop', type: 'branch', sha: HEAD_SHA });
+    expect(structure.pairs.map(p => p.id)).toEqual(['lib/cart.dart']);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should resolve tags with slashes and short SHAs', async () => {
+    mockGithub({
+      [`${API}/commits/release/2.0`]: HEAD_SHA,
+      [`${API}/commits/0123456`]: HEAD_SHA,
+      [`${API}/git/trees/${HEAD_SHA}?recursive=1`]: TREE,
+    });
+    const service = new GithubService();
+
+    expect((await service.fetchRepoTree('acme', 'shop', 'release/2.0', 'tag')).ref).toEqual({ name: 'release/2.0', type: 'tag', sha: HEAD_SHA });
+    expect((await service.fetchRepoTree('acme', 'shop', '0123456')).ref?.type).toBe('commit');
+  });
+
+  it('should name the ref that could not be resolved', async () => {
+    mockGithub({});
+    await expect(new GithubService().fetchRepoTree('acme', 'shop', 'nope')).rejects.toThrow("Unknown branch, tag or commit 'nope'");
+  });
+});
+
+describe('truncated trees', () => {
+  it('should walk the tree piecewise when the recursive listing is truncated', async () => {
+    const blob = (path: string) => ({ path, type: 'blob', sha: path, url: `${API}/git/blobs/${path}` });
+    const tree = (path: string, sha: string) => ({ path, type: 'tree', sha });
+
+    mockGithub({
+      [`${API}/commits/main`]: HEAD_SHA,
+      [`${API}/git/trees/${HEAD_SHA}?recursive=1`]: { sha: 'root', truncated: true, tree: [blob('README.md')] },
+      [`${API}/git/trees/root`]: { sha: 'root', tree: [blob('README.md'), tree('packages', 'pkgs'), tree('.github', 'gh'), tree('build', 'out')] },
+      // packages/ is still too large, so it is listed one level at a time
+      [`${API}/git/trees/pkgs?recursive=1`]: { truncated: true, tree: [] },
+      [`${API}/git/trees/pkgs`]: { tree: [tree('core', 'core')] },
+      [`${API}/git/trees/core?recursive=1`]: { truncated: true, tree: [] },
+      [`${API}/git/trees/core`]: { tree: [blob('pubspec.yaml'), tree('lib', 'core-lib'), tree('example', 'core-example')] },
+      [`${API}/git/trees/core-lib?recursive=1`]: { tree: [blob('src/math.dart')] },
+      [`${API}/git/trees/core-example?recursive=1`]: { tree: [blob('main.dart')] },
+      [`${API}/git/blobs/pubspec.yaml`]: { encoding: 'base64', content: btoa('name: core\n') },
+    });
+
+    const structure = await new GithubService().fetchRepoTree('acme', 'shop', 'main');
+
+    expect(Object.keys(structure.fileMap).sort()).toEqual([
+      'README.md',
+      'packages/core/example/main.dart',
+      'packages/core/lib/src/math.dart',
+      'packages/core/pubspec.yaml',
+    ]);
+    expect(structure.pairs.map(p => [p.id, p.packageRoot])).toEqual([['packages/core/lib/src/math.dart', 'packages/core/']]);
+    expect(structure.treeStats).toEqual({ totalFiles: 4, truncated: true, complete: true, requests: 8 });
+  });
+});
+
+describe('content cache', () => {
+  const BLOB_SHA = 'fedcba9876543210fedcba9876543210fedcba98';
+
+  it('should serve trees and blobs by SHA without touching the API again', async () => {
+    const fetchMock = mockGithub({
+      [`${API}/git/trees/${HEAD_SHA}?recursive=1`]: TREE,
+      [`${API}/git/blobs/${BLOB_SHA}`]: { encoding: 'base64', size: 12, content: btoa('class Cart {}') },
+    });
+    const cache = new MemoryCache();
+    const load = async () => {
+      // A fresh service per load, as after a page reload
+      const service = new GithubService(undefined, githubClient, cache);
+      const structure = await service.fetchRepoTree('acme', 'shop', HEAD_SHA);
+      return { structure, content: await service.fetchFileContent(`${API}/git/blobs/${BLOB_SHA}`) };
+    };
+
+    const first = await load();
+    const second = await load();
+
+    expect(second).toEqual(first);
+    expect(second.content).toBe('class Cart {}');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(await cache.stats()).toMatchObject({ trees: 1, blobs: 1 });
+  });
+
+  it('should still apply the size limit to cached blobs', async () => {
+    mockGithub({ [`${API}/git/blobs/${BLOB_SHA}`]: { encoding: 'base64', size: 12, content: btoa('class Cart {}') } });
+    const service = new GithubService(undefined, githubClient, new MemoryCache());
+
+    await service.fetchFileContent(`${API}/git/blobs/${BLOB_SHA}`);
+
+    expect(await service.fetchFileContent(`${API}/git/blobs/${BLOB_SHA}`, 10)).toBe('// File too large.');
+  });
+});
+
+describe('GraphQL batch content', () => {
+  const GRAPHQL = 'https://api.github.com/graphql';
+  const file = (path: string) => ({ path, type: 'blob' as const, url: `${API}/git/blobs/${path}` });
+  const files = [file('lib/a.dart'), file('lib/b.dart'), file('assets/logo.png')];
+  const blob = (text: string | null, extra = {}) => ({ text, byteSize: text?.length ?? 10, isBinary: text === null, isTruncated: false, ...extra });
+
+  it('should fetch many files in one GraphQL request and fall back to REST for the rest', async () => {
+    const fetchMock = mockGithub({
+      [GRAPHQL]: { data: { repository: { f0: blob('class A {}'), f1: blob('class B {}'), f2: blob(null) } } },
+      [`${API}/git/blobs/assets/logo.png`]: { encoding: 'base64', size: 3, content: btoa('png') },
+    });
+
+    const contents = await new GithubService('token', githubClient, new MemoryCache()).fetchFileContents('acme', 'shop', HEAD_SHA, files);
+
+    expect(Object.fromEntries(contents)).toEqual({ 'lib/a.dart': 'class A {}', 'lib/b.dart': 'class B {}', 'assets/logo.png': 'png' });
+    const request = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+    expect(request.variables).toMatchObject({ owner: 'acme', name: 'shop', e0: `${HEAD_SHA}:lib/a.dart` });
+    expect(request.query).toContain('f2: object(expression: $e2)');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use REST without a token', async () => {
+    const fetchMock = mockGithub({ [`${API}/git/blobs/lib/a.dart`]: { encoding: 'base64', size: 10, content: btoa('class A {}') } });
+
+    const contents = await new GithubService(undefined, githubClient, new MemoryCache()).fetchFileContents('acme', 'shop', HEAD_SHA, [files[0]]);
+
+    expect(contents.get('lib/a.dart')).toBe('class A {}');
+    expect(fetchMock.mock.calls.every(([url]) => url !== GRAPHQL)).toBe(true);
+  });
+
+  it('should batch loads requested in the same tick', async () => {
+    const fetchMock = mockGithub({
+      [GRAPHQL]: { data: { repository: { f0: blob('class A {}'), f1: blob('class B {}') } } },
+    });
+    const load = new GithubService('token', githubClient, new MemoryCache()).createContentLoader('acme', 'shop', HEAD_SHA);
+
+    const contents = await Promise.all([load(files[0]), load(files[1])]);
+
+    expect(contents).toEqual(['class A {}', 'class B {}']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('fetchCommitCount', () => {
+  it('should count commits touching the path across pages', async () => {
+    const since = new Date('2026-01-01T00:00:00.000Z');
+    const query = `path=lib%2Fcart.dart&sha=${HEAD_SHA}&since=2026-01-01T00:00:00.000Z&per_page=100`;
+    mockGithub({
+      [`${API}/commits?${query}&page=1`]: Array.from({ length: 100 }, (_, i) => ({ sha: `a${i}` })),
+      [`${API}/commits?${query}&page=2`]: [{ sha: 'b' }, { sha: 'c' }],
+    });
+
+    expect(await new GithubService().fetchCommitCount('acme', 'shop', 'lib/cart.dart', HEAD_SHA, since)).toBe(102);
+  });
+});
+
+describe('GitHub Enterprise Server', () => {
+  const host = createGithubHost('https://ghe.acme.corp');
+
+  it('should recognise repository and pull request URLs on the enterprise host', () => {
+    expect(parseRepoUrl('https://ghe.acme.corp/acme/shop.git', host)).toEqual({ provider: 'github', owner: 'acme', repo: 'shop' });
+    expect(parseRepoUrl('https://gitea.acme.corp/acme/shop', host)).toBeNull();
+    expect(parsePullRequestInput('ghe.acme.corp/acme/shop/pull/9', null, host)).toEqual({ owner: 'acme', repo: 'shop', number: 9 });
+  });
+
+  it('should call the enterprise REST API', async () => {
+    const ENTERPRISE_API = 'https://ghe.acme.corp/api/v3/repos/acme/shop';
+    mockGithub({
+      [`${ENTERPRISE_API}/commits/main`]: HEAD_SHA,
+      [`${ENTERPRISE_API}/git/trees/${HEAD_SHA}?recursive=1`]: TREE,
+    });
+
+    const structure = await new GithubService(undefined, githubClient, new MemoryCache(), host).fetchRepoTree('acme', 'shop', 'main');
+
+    expect(structure.ref?.sha).toBe(HEAD_SHA);
+  });
+});
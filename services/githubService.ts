@@ -1,45 +1,75 @@
 
-import { RepoFile, RepoStructure, FilePair, MatchType, PackageDependencies } from '../types';
-import { extractImports } from './analysisEngine';
-
-const GITHUB_API_BASE = 'https://api.github.com/repos';
-const MAX_FILE_SIZE_BYTES = 1024 * 1024; // 1MB limit for source files
+import { GitRef, GitRefType, RepoFile, RepoStructure, PullRequestFile, PullRequestInfo, TreeStats } from '../types';
+import { GithubClient, githubClient } from './githubClient';
+import { ContentCache, contentCache } from './contentCache';
+import { ContentLoader } from './repoScanService';
+import { GithubHost, getGithubHost } from './githubHost';
+import { BaseSourceProvider, CachedBlob, MAX_FILE_SIZE_BYTES, isGithubHostname } from './sourceProvider';
+import { isIgnoredDirectory } from './repoStructure';
+
+const MAX_TREE_WALK_REQUESTS = 300; // Budget for walking trees GitHub truncated
+const MAX_REF_PAGES = 5; // Up to 500 branches and 500 tags in the ref picker
+const MAX_PULL_REQUEST_FILE_PAGES = 30; // GitHub lists at most 3000 files per pull request
+const MAX_COMMIT_PAGES = 3; // Churn above 300 commits ranks the same
+const FULL_SHA = /^[0-9a-f]{40}$/i; // Already pinned, nothing to resolve
+
+const GRAPHQL_BATCH_SIZE = 50; // Aliases per query; keeps responses well under GitHub's limits
+
+interface GraphqlBlob {
+  text: string | null;
+  byteSize: number;
+  isBinary: boolean;
+  isTruncated: boolean;
+}
 
-export const parseRepoUrl = (url: string): { owner: string; repo: string } | null => {
-  if (!url) return null;
-  const trimmed = url.trim();
+/**
+ * Accepts a pull request URL, `owner/repo#123`, or a bare number for the loaded repository
+ */
+export const parsePullRequestInput = (
+  input: string,
+  current?: { owner: string; repo: string } | null,
+  host: GithubHost = getGithubHost()
+): { owner: string; repo: string; number: number } | null => {
+  const trimmed = input.trim().replace(/^#/, '');
+  if (!trimmed) return null;
+
+  if (/^\d+$/.test(trimmed)) {
+    return current ? { ...current, number: Number(trimmed) } : null;
+  }
 
-  const simpleMatch = trimmed.match(/^([^/]+)\/([^/]+)$/);
-  if (simpleMatch) {
-      return { owner: simpleMatch[1], repo: simpleMatch[2].replace(/\.git$/, '') };
+  const shortMatch = trimmed.match(/^([^/\s]+)\/([^/#\s]+)#(\d+)$/);
+  if (shortMatch) {
+    return { owner: shortMatch[1], repo: shortMatch[2], number: Number(shortMatch[3]) };
   }
 
   try {
-    const urlToParse = trimmed.startsWith('http') ? trimmed : `https://${trimmed}`;
-    const urlObj = new URL(urlToParse);
-    
-    if (urlObj.hostname.includes('github.com')) {
-        const parts = urlObj.pathname.split('/').filter(Boolean);
-        if (parts.length >= 2) {
-            return { owner: parts[0], repo: parts[1].replace(/\.git$/, '') };
-        }
+    const url = new URL(/^https?:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`);
+    const pathMatch = url.pathname.match(/^\/([^/]+)\/([^/]+)\/pull\/(\d+)/);
+    if (pathMatch && isGithubHostname(url.hostname, host)) {
+      return { owner: pathMatch[1], repo: pathMatch[2], number: Number(pathMatch[3]) };
     }
   } catch (e) {
-    // Ignore parsing errors
+    // Not a URL
   }
-  
+
   return null;
 };
 
-export class GithubService {
-  private token?: string;
+export class GithubService extends BaseSourceProvider {
+  readonly kind = 'github';
+  private host: GithubHost;
 
-  constructor(token?: string) {
-    this.token = token;
+  constructor(token?: string, client: GithubClient = githubClient, cache: ContentCache = contentCache, host: GithubHost = getGithubHost()) {
+    super(token, client, cache);
+    this.host = host;
   }
 
-  private getHeaders() {
-    const headers: HeadersInit = {
+  private get reposUrl(): string {
+    return `${this.host.apiUrl}/repos`;
+  }
+
+  protected getHeaders() {
+    const headers: Record<string, string> = {
       'Accept': 'application/vnd.github.v3+json',
     };
     if (this.token) {
@@ -48,231 +78,296 @@ export class GithubService {
     return headers;
   }
 
-  async fetchRepoTree(owner: string, repo: string, branch: string = 'main'): Promise<RepoStructure> {
-    try {
-      const treeUrl = `${GITHUB_API_BASE}/${owner}/${repo}/git/trees/${branch}?recursive=1`;
-      const treeResponse = await fetch(treeUrl, { headers: this.getHeaders() });
+  async fetchDefaultBranch(owner: string, repo: string): Promise<string> {
+    const response = await this.client.request(`${this.reposUrl}/${owner}/${repo}`, this.getHeaders());
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText} (Check URL or Token permissions)`);
+    }
+    const data = await response.json();
+    return data.default_branch;
+  }
 
-      if (!treeResponse.ok) {
-         if (treeResponse.status === 404 && branch === 'main') {
-             return this.fetchRepoTree(owner, repo, 'master');
-         }
-         throw new Error(`GitHub API Error: ${treeResponse.statusText} (Check URL or Token permissions)`);
+  /**
+   * Lists branches and tags for the ref picker, newest pages first
+   */
+  async fetchRefs(owner: string, repo: string): Promise<GitRef[]> {
+    const list = async (kind: 'branches' | 'tags', type: GitRefType): Promise<GitRef[]> => {
+      const refs: GitRef[] = [];
+      for (let page = 1; page <= MAX_REF_PAGES; page++) {
+        const response = await this.client.request(`${this.reposUrl}/${owner}/${repo}/${kind}?per_page=100&page=${page}`, this.getHeaders());
+        if (!response.ok) throw new Error(`GitHub API Error: ${response.statusText}`);
+        const batch: any[] = await response.json();
+        refs.push(...batch.map(r => ({ name: r.name, type, sha: r.commit.sha })));
+        if (batch.length < 100) break;
       }
+      return refs;
+    };
+
+    const [branches, tags] = await Promise.all([list('branches', 'branch'), list('tags', 'tag')]);
+    return [...branches, ...tags];
+  }
+
+  /**
+   * Resolves a branch, tag or (short) SHA to the full commit SHA
+   */
+  async resolveRef(owner: string, repo: string, ref: string): Promise<string> {
+    if (FULL_SHA.test(ref)) return ref.toLowerCase();
+    const path = ref.split('/').map(encodeURIComponent).join('/');
+    const response = await this.client.request(`${this.reposUrl}/${owner}/${repo}/commits/${path}`, {
+      ...this.getHeaders(), 'Accept': 'application/vnd.github.sha'
+    });
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText} (Unknown branch, tag or commit '${ref}')`);
+    }
+    return (await response.text()).trim();
+  }
 
-      const treeData = await treeResponse.json();
-      const allFiles: RepoFile[] = treeData.tree;
+  /**
+   * Loads the tree at a branch, tag or commit (the default branch when omitted).
+   * The ref is pinned to its commit first, so every blob URL in the result
+   * belongs to that same commit even if the branch moves while we read it.
+   */
+  async fetchRepoTree(owner: string, repo: string, ref?: string, refType: GitRefType = 'branch'): Promise<RepoStructure> {
+    const name = ref || await this.fetchDefaultBranch(owner, repo);
+    const sha = await this.resolveRef(owner, repo, name);
+    const type = this.refTypeOf(name, sha, refType);
+
+    const treeData = await this.fetchTree(owner, repo, sha, true);
+    let allFiles: RepoFile[] = treeData.tree;
+    let treeStats: TreeStats = { totalFiles: 0, truncated: treeData.truncated === true, complete: true, requests: 1 };
+
+    // GitHub caps recursive listings; walk the tree piecewise instead of silently losing files
+    if (treeStats.truncated) {
+      const walked = await this.walkTree(owner, repo, treeData.sha);
+      allFiles = walked.files;
+      treeStats = { ...treeStats, complete: walked.complete, requests: treeStats.requests + walked.requests };
+    }
+    treeStats.totalFiles = allFiles.filter(f => f.type === 'blob').length;
+
+    return this.buildStructure(allFiles, { name, type, sha }, treeStats);
+  }
 
-      // Filter Dart files
-      const dartFiles = allFiles.filter(f => 
-          f.path.endsWith('.dart') && 
-          f.type === 'blob' &&
-          !f.path.endsWith('.g.dart') && 
-          !f.path.endsWith('.freezed.dart') &&
-          !f.path.endsWith('.config.dart')
+  async fetchPullRequest(owner: string, repo: string, number: number): Promise<PullRequestInfo> {
+    const response = await this.client.request(`${this.reposUrl}/${owner}/${repo}/pulls/${number}`, this.getHeaders());
+    if (!response.ok) {
+      throw new Error(`GitHub API Error: ${response.statusText} (Pull request #${number} not found)`);
+    }
+    const data = await response.json();
+
+    return {
+      number: data.number,
+      title: data.title,
+      url: data.html_url,
+      baseRef: data.base.ref,
+      headRef: data.head.ref,
+      baseSha: data.base.sha,
+      headSha: data.head.sha,
+      // The head repository is null when the fork was deleted; its commits still live in the base repo
+      headOwner: data.head.repo?.owner?.login ?? owner,
+      headRepo: data.head.repo?.name ?? repo
+    };
+  }
+
+  /**
+   * Lists every file the pull request touches, following pagination
+   */
+  async fetchPullRequestFiles(owner: string, repo: string, number: number): Promise<PullRequestFile[]> {
+    const files: PullRequestFile[] = [];
+
+    for (let page = 1; page <= MAX_PULL_REQUEST_FILE_PAGES; page++) {
+      const response = await this.client.request(
+        `${this.reposUrl}/${owner}/${repo}/pulls/${number}/files?per_page=100&page=${page}`,
+        this.getHeaders()
       );
+      if (!response.ok) throw new Error(`GitHub API Error: ${response.statusText}`);
+
+      const batch: any[] = await response.json();
+      files.push(...batch.map(f => ({
+        path: f.filename,
+        status: f.status,
+        patch: f.patch,
+        previousPath: f.previous_filename
+      })));
+      if (batch.length < 100) break;
+    }
 
-      const libFiles = dartFiles.filter(f => f.path.includes('lib/'));
-      const testFiles = dartFiles.filter(f => f.path.includes('test/'));
-
-      // Optimization: Map for O(1) lookup
-      const testFileMap = new Map<string, RepoFile>();
-      const testFilesByName = new Map<string, RepoFile[]>();
-      const allFilesMap: Record<string, RepoFile> = {}; // For Dependency Resolution
-
-      allFiles.forEach(f => {
-          allFilesMap[f.path] = f;
-      });
-
-      testFiles.forEach(f => {
-          testFileMap.set(f.path, f);
-          const name = f.path.split('/').pop();
-          if (name) {
-              if (!testFilesByName.has(name)) {
-                  testFilesByName.set(name, []);
-              }
-              testFilesByName.get(name)?.push(f);
-          }
-      });
-
-      // Locate pubspecs and parse Name
-      const pubspecFiles = allFiles.filter(f => f.path.endsWith('pubspec.yaml'));
-      const packageDependencies: Record<string, PackageDependencies> = {};
-      let rootPackageName = 'app'; // Default
-      
-      await Promise.all(pubspecFiles.map(async (file) => {
-          if ((file as any).size && (file as any).size > 100000) return; 
-          try {
-            const content = await this.fetchFileContent(file.url);
-            const dir = file.path.replace('pubspec.yaml', '');
-            packageDependencies[dir] = this.parseDependencies(content);
-            
-            if (dir === '') {
-                const nameMatch = content.match(/^name:\s+(\w+)/m);
-                if (nameMatch) rootPackageName = nameMatch[1];
-            }
-          } catch (e) {
-            console.warn("Failed to parse pubspec", file.path);
-          }
-      }));
-
-      if (Object.keys(packageDependencies).length === 0) {
-          packageDependencies[''] = this.parseDependencies('');
-      }
+    return files;
+  }
 
-      const pairs: FilePair[] = [];
-      const usedTests = new Set<string>();
+  /**
+   * Counts commits reachable from the ref that touched the path since the given date
+   */
+  async fetchCommitCount(owner: string, repo: string, path: string, ref: string, since: Date): Promise<number> {
+    const query = `path=${encodeURIComponent(path)}&sha=${encodeURIComponent(ref)}&since=${since.toISOString()}&per_page=100`;
+    let count = 0;
 
-      for (const lib of libFiles) {
-        const filename = lib.path.split('/').pop()?.replace('.dart', '');
-        if (!filename) continue;
+    for (let page = 1; page <= MAX_COMMIT_PAGES; page++) {
+      const response = await this.client.request(`${this.reposUrl}/${owner}/${repo}/commits?${query}&page=${page}`, this.getHeaders());
+      if (!response.ok) throw new Error(`GitHub API Error: ${response.statusText} (Commit history of ${path})`);
 
-        // Find nearest package root
-        const packageRoot = Object.keys(packageDependencies)
-            .filter(root => lib.path.startsWith(root))
-            .sort((a, b) => b.length - a.length)[0] || '';
+      const batch: any[] = await response.json();
+      count += batch.length;
+      if (batch.length < 100) break;
+    }
 
-        const relativeLibPath = lib.path.substring(packageRoot.length).replace(/^lib\//, '');
-        const exactTestPath = `${packageRoot}test/${relativeLibPath.replace(/\.dart$/, '_test.dart')}`;
-        
-        let match = testFileMap.get(exactTestPath);
-        let type: MatchType = 'none';
+    return count;
+  }
 
-        if (match) {
-          type = 'exact';
-        } else {
-          const expectedTestName = `${filename}_test.dart`;
-          const candidates = testFilesByName.get(expectedTestName);
-          if (candidates && candidates.length > 0) {
-              match = candidates[0];
-              type = 'fuzzy';
-          }
-        }
+  private async fetchTree(owner: string, repo: string, sha: string, recursive: boolean): Promise<any> {
+    // Entries carry host- and repo-specific blob URLs, so trees are cached per repository
+    const cacheKey = `${this.host.apiUrl}/${owner}/${repo}@${sha}${recursive ? ':recursive' : ''}`;
+    const cached = await this.cache.get('tree', cacheKey);
+    if (cached) return cached;
 
-        if (match) usedTests.add(match.path);
+    const treeUrl = `${this.reposUrl}/${owner}/${repo}/git/trees/${sha}${recursive ? '?recursive=1' : ''}`;
+    const treeResponse = await this.client.request(treeUrl, this.getHeaders());
 
-        pairs.push({
-          id: lib.path,
-          name: filename,
-          libFile: lib,
-          testFile: match,
-          matchType: type,
-          packageRoot: packageRoot
-        });
+    if (!treeResponse.ok) {
+       throw new Error(`GitHub API Error: ${treeResponse.statusText} (Check URL or Token permissions)`);
+    }
+    const tree = await treeResponse.json();
+    await this.cache.put('tree', cacheKey, tree);
+    return tree;
+  }
+
+  /**
+   * Lists a tree too large for one recursive call. Each directory is first
+   * fetched recursively; only directories that are still truncated are
+   * expanded one level at a time. Package directories (those holding a
+   * pubspec.yaml) and their lib/ and test/ folders are visited first, so a
+   * request budget running out costs the least relevant files.
+   */
+  private async walkTree(owner: string, repo: string, rootSha: string): Promise<{ files: RepoFile[]; complete: boolean; requests: number }> {
+    const files: RepoFile[] = [];
+    const queue: { path: string; sha: string; priority: number; depth: number }[] = [{ path: '', sha: rootSha, priority: 0, depth: 0 }];
+    let requests = 0;
+
+    while (queue.length > 0) {
+      if (requests >= MAX_TREE_WALK_REQUESTS) return { files, complete: false, requests };
+      queue.sort((a, b) => a.priority - b.priority || a.depth - b.depth);
+      const dir = queue.shift()!;
+      const prefix = dir.path ? `${dir.path}/` : '';
+
+      // The root is already known to be truncated
+      if (dir.path) {
+        const subtree = await this.fetchTree(owner, repo, dir.sha, true);
+        requests++;
+        if (!subtree.truncated) {
+          files.push(...subtree.tree.map((entry: RepoFile) => ({ ...entry, path: prefix + entry.path })));
+          continue;
+        }
       }
 
-      const unpairedTests = testFiles.filter(t => !usedTests.has(t.path));
+      const level = await this.fetchTree(owner, repo, dir.sha, false);
+      requests++;
+      const isPackage = level.tree.some((entry: RepoFile) => entry.type === 'blob' && entry.path === 'pubspec.yaml');
+
+      for (const entry of level.tree) {
+        const path = prefix + entry.path;
+        if (entry.type === 'blob') {
+          files.push({ ...entry, path });
+        } else if (entry.type === 'tree' && !isIgnoredDirectory(entry.path)) {
+          const priority = isPackage ? (entry.path === 'lib' || entry.path === 'test' ? 0 : 2) : 1;
+          queue.push({ path, sha: entry.sha, priority, depth: dir.depth + 1 });
+        }
+      }
+    }
 
-      return { 
-          pairs: pairs.sort((a, b) => a.matchType === 'none' ? -1 : 1), 
-          unpairedTests, 
-          packages: packageDependencies,
-          rootPackageName,
-          fileMap: allFilesMap
-      };
+    return { files, complete: true, requests };
+  }
 
-    } catch (error: any) {
-      if (error.message.includes('403') || error.message.includes('429')) {
-        throw new Error("GitHub API Rate Limit Exceeded. Please provide a valid Personal Access Token.");
+  /**
+   * Reads many files at one commit with aliased `object(expression:)` lookups,
+   * GRAPHQL_BATCH_SIZE per request. GraphQL needs a token, so without one and
+   * for files it cannot return as text (binary, truncated) this falls back to
+   * REST. Files that fail to load are left out of the result.
+   */
+  async fetchFileContents(owner: string, repo: string, ref: string, files: RepoFile[], maxSizeBytes: number = MAX_FILE_SIZE_BYTES): Promise<Map<string, string>> {
+    const contents = new Map<string, string>();
+    const uncached: RepoFile[] = [];
+
+    for (const file of files) {
+      const cached = file.sha ? await this.cache.get<CachedBlob>('blob', file.sha) : undefined;
+      if (cached) contents.set(file.path, cached.size > maxSizeBytes ? "// File too large." : cached.content);
+      else uncached.push(file);
+    }
+
+    const viaRest: RepoFile[] = this.token ? [] : uncached;
+    for (let i = 0; this.token && i < uncached.length; i += GRAPHQL_BATCH_SIZE) {
+      const batch = uncached.slice(i, i + GRAPHQL_BATCH_SIZE);
+      const blobs = await this.queryBlobs(owner, repo, ref, batch);
+
+      for (const [index, file] of batch.entries()) {
+        const blob = blobs?.[index];
+        if (blob && blob.byteSize > maxSizeBytes) {
+          contents.set(file.path, "// File too large.");
+        } else if (blob && typeof blob.text === 'string' && !blob.isBinary && !blob.isTruncated) {
+          contents.set(file.path, blob.text);
+          if (file.sha) await this.cache.put('blob', file.sha, { size: blob.byteSize, content: blob.text });
+        } else {
+          viaRest.push(file);
+        }
       }
-      throw error;
     }
-  }
 
-  async fetchFileContent(url: string): Promise<string> {
-    const response = await fetch(url, { headers: this.getHeaders() });
-    if (!response.ok) throw new Error("Failed to fetch content");
-    const data = await response.json();
-    if (data.size > MAX_FILE_SIZE_BYTES) return "// File too large.";
-    if (data.encoding === 'base64' && data.content) {
+    await Promise.all(viaRest.map(async (file) => {
       try {
-        return decodeURIComponent(escape(atob(data.content.replace(/\s/g, ''))));
+        contents.set(file.path, await this.fetchFileContent(file.url, maxSizeBytes));
       } catch (e) {
-        return atob(data.content.replace(/\s/g, ''));
+        console.warn("Failed to fetch content", file.path);
       }
-    }
-    throw new Error("Unknown encoding");
+    }));
+
+    return contents;
   }
 
-  async fetchDeepDependencies(
-      code: string, 
-      currentFilePath: string, 
-      rootPackageName: string, 
-      fileMap: Record<string, RepoFile>
-  ): Promise<Record<string, string>> {
-    const imports = extractImports(code);
-    const dependencies: Record<string, string> = {};
-    
-    // We only want internal dependencies (package:rootName/... or relative)
-    // We ignore dart:*, package:flutter*, and 3rd party libs
-    const internalImports = imports.filter(imp => {
-        return imp.startsWith(`package:${rootPackageName}/`) || imp.startsWith('.') || imp.startsWith('..');
-    });
+  /**
+   * Content loader for scans: requests made in the same tick are collected
+   * and fetched together through fetchFileContents
+   */
+  createContentLoader(owner: string, repo: string, ref: string): ContentLoader {
+    if (!this.token) return super.createContentLoader(owner, repo, ref);
 
-    // Limit to top 5 crucial dependencies to save tokens/time
-    const importsToFetch = internalImports.slice(0, 5);
-
-    await Promise.all(importsToFetch.map(async (imp) => {
-        const resolvedPath = this.resolveImportPath(imp, currentFilePath, rootPackageName);
-        if (resolvedPath && fileMap[resolvedPath]) {
-            try {
-                const content = await this.fetchFileContent(fileMap[resolvedPath].url);
-                const fileName = resolvedPath.split('/').pop() || imp;
-                dependencies[fileName] = content;
-            } catch (e) {
-                console.warn(`Failed to fetch dependency ${imp}`);
-            }
+    let pending: { file: RepoFile; resolve: (content: string) => void; reject: (error: Error) => void }[] = [];
+
+    const flush = async () => {
+      const batch = pending;
+      pending = [];
+      try {
+        const contents = await this.fetchFileContents(owner, repo, ref, batch.map(p => p.file));
+        for (const { file, resolve, reject } of batch) {
+          const content = contents.get(file.path);
+          if (content !== undefined) resolve(content);
+          else reject(new Error("Failed to fetch content"));
         }
-    }));
+      } catch (e: any) {
+        batch.forEach(p => p.reject(e));
+      }
+    };
 
-    return dependencies;
+    return (file) => new Promise((resolve, reject) => {
+      if (pending.length === 0) setTimeout(flush, 0);
+      pending.push({ file, resolve, reject });
+    });
   }
 
-  async fetchLinterRules(fileMap: Record<string, RepoFile>): Promise<string | undefined> {
-     const linterFile = fileMap['analysis_options.yaml'];
-     if (linterFile) {
-         try {
-             return await this.fetchFileContent(linterFile.url);
-         } catch (e) { return undefined; }
-     }
-     return undefined;
-  }
+  // Returns one entry per file, null where GraphQL had no blob; null overall when the query failed
+  private async queryBlobs(owner: string, repo: string, ref: string, files: RepoFile[]): Promise<(GraphqlBlob | null)[] | null> {
+    const variables: Record<string, string> = { owner, name: repo };
+    files.forEach((file, i) => { variables[`e${i}`] = `${ref}:${file.path}`; });
 
-  private resolveImportPath(importStr: string, currentPath: string, packageName: string): string | null {
-      if (importStr.startsWith(`package:${packageName}/`)) {
-          return importStr.replace(`package:${packageName}/`, 'lib/');
-      }
-      
-      if (importStr.startsWith('.')) {
-          // Resolve relative path
-          const parts = currentPath.split('/');
-          parts.pop(); // remove filename
-          
-          const importParts = importStr.split('/');
-          
-          for (const part of importParts) {
-              if (part === '.') continue;
-              if (part === '..') {
-                  if (parts.length > 0) parts.pop();
-              } else {
-                  parts.push(part);
-              }
-          }
-          return parts.join('/');
-      }
-      
-      return null;
+    const query = `query($owner: String!, $name: String!${files.map((_, i) => `, $e${i}: String!`).join('')}) {
+  repository(owner: $owner, name: $name) {
+${files.map((_, i) => `    f${i}: object(expression: $e${i}) { ... on Blob { text byteSize isBinary isTruncated } }`).join('\n')}
   }
+}`;
 
-  private parseDependencies(yamlContent: string): PackageDependencies {
-    return {
-      hasMockito: yamlContent.includes('mockito:'),
-      hasMocktail: yamlContent.includes('mocktail:'),
-      hasBlocTest: yamlContent.includes('bloc_test:'),
-      hasRiverpod: yamlContent.includes('flutter_riverpod:') || yamlContent.includes('hooks_riverpod:'),
-      hasFreezed: yamlContent.includes('freezed:') || yamlContent.includes('freezed_annotation:'),
-      hasAutoRoute: yamlContent.includes('auto_route:'),
-      hasHive: yamlContent.includes('hive:'),
-    };
+    const response = await this.client.request(this.host.graphqlUrl, this.getHeaders(), JSON.stringify({ query, variables }));
+    const result = response.ok ? await response.json() : null;
+    if (!result?.data?.repository) {
+      console.warn("GraphQL content query failed, falling back to REST", result?.errors?.[0]?.message ?? response.statusText);
+      return null;
+    }
+    return files.map((_, i) => result.data.repository[`f${i}`] ?? null);
   }
 }
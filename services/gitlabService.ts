@@ -0,0 +1,121 @@
+import { GitRef, GitRefType, RepoFile, RepoStructure, TreeStats } from '../types';
+import { GithubClient } from './githubClient';
+import { ContentCache, contentCache } from './contentCache';
+import { BaseSourceProvider } from './sourceProvider';
+
+/**
+ * GitLab Source Provider
+ *
+ * Reads projects through the GitLab v4 repository API. The project path
+ * (`group/subgroup/project`) doubles as its URL-encoded id.
+ */
+
+const GITLAB_API_BASE = 'https://gitlab.com/api/v4';
+const MAX_REF_PAGES = 5; // Up to 500 branches and 500 tags in the ref picker
+const MAX_TREE_PAGES = 200; // 20,000 entries; beyond that the listing is reported partial
+
+// Separate instance so GitLab traffic does not share GitHub's queue and quota
+const gitlabClient = new GithubClient();
+
+const nextPageUrl = (link: string | null): string | null =>
+  link?.split(',').map(part => part.match(/<([^>]+)>;\s*rel="next"/)).find(Boolean)?.[1] ?? null;
+
+export class GitlabService extends BaseSourceProvider {
+  readonly kind = 'gitlab';
+  private apiBase: string;
+
+  constructor(token?: string, client: GithubClient = gitlabClient, cache: ContentCache = contentCache, apiBase: string = GITLAB_API_BASE) {
+    super(token, client, cache);
+    this.apiBase = apiBase;
+  }
+
+  protected getHeaders() {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+    return headers;
+  }
+
+  private projectUrl(owner: string, repo: string): string {
+    return `${this.apiBase}/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  }
+
+  async fetchDefaultBranch(owner: string, repo: string): Promise<string> {
+    const response = await this.client.request(this.projectUrl(owner, repo), this.getHeaders());
+    if (!response.ok) {
+      throw new Error(`GitLab API Error: ${response.statusText} (Check URL or Token permissions)`);
+    }
+    const data = await response.json();
+    return data.default_branch;
+  }
+
+  async fetchRefs(owner: string, repo: string): Promise<GitRef[]> {
+    const list = async (kind: 'branches' | 'tags', type: GitRefType): Promise<GitRef[]> => {
+      const refs: GitRef[] = [];
+      for (let page = 1; page <= MAX_REF_PAGES; page++) {
+        const response = await this.client.request(`${this.projectUrl(owner, repo)}/repository/${kind}?per_page=100&page=${page}`, this.getHeaders());
+        if (!response.ok) throw new Error(`GitLab API Error: ${response.statusText}`);
+        const batch: any[] = await response.json();
+        refs.push(...batch.map(r => ({ name: r.name, type, sha: r.commit.id })));
+        if (batch.length < 100) break;
+      }
+      return refs;
+    };
+
+    const [branches, tags] = await Promise.all([list('branches', 'branch'), list('tags', 'tag')]);
+    return [...branches, ...tags];
+  }
+
+  async resolveRef(owner: string, repo: string, ref: string): Promise<string> {
+    const response = await this.client.request(`${this.projectUrl(owner, repo)}/repository/commits/${encodeURIComponent(ref)}`, this.getHeaders());
+    if (!response.ok) {
+      throw new Error(`GitLab API Error: ${response.statusText} (Unknown branch, tag or commit '${ref}')`);
+    }
+    return (await response.json()).id;
+  }
+
+  /**
+   * Lists the whole tree at the ref's commit, following keyset pagination
+   */
+  async fetchRepoTree(owner: string, repo: string, ref?: string, refType: GitRefType = 'branch'): Promise<RepoStructure> {
+    const name = ref || await this.fetchDefaultBranch(owner, repo);
+    const sha = await this.resolveRef(owner, repo, name);
+    const projectUrl = this.projectUrl(owner, repo);
+
+    const cacheKey = `${projectUrl}@${sha}`;
+    let listing = await this.cache.get<{ files: RepoFile[]; complete: boolean; requests: number }>('tree', cacheKey);
+
+    if (!listing) {
+      const files: RepoFile[] = [];
+      let url: string | null = `${projectUrl}/repository/tree?ref=${sha}&recursive=true&per_page=100&pagination=keyset`;
+      let requests = 0;
+
+      while (url && requests < MAX_TREE_PAGES) {
+        const response = await this.client.request(url, this.getHeaders());
+        if (!response.ok) throw new Error(`GitLab API Error: ${response.statusText} (Check URL or Token permissions)`);
+        requests++;
+
+        const batch: any[] = await response.json();
+        files.push(...batch.map(entry => ({
+          path: entry.path,
+          type: entry.type === 'tree' ? 'tree' as const : 'blob' as const,
+          sha: entry.id,
+          url: `${projectUrl}/repository/blobs/${entry.id}`
+        })));
+        url = nextPageUrl(response.headers.get('Link'));
+      }
+
+      listing = { files, complete: url === null, requests };
+      await this.cache.put('tree', cacheKey, listing);
+    }
+
+    const treeStats: TreeStats = {
+      totalFiles: listing.files.filter(f => f.type === 'blob').length,
+      truncated: !listing.complete,
+      complete: listing.complete,
+      requests: listing.requests
+    };
+    return this.buildStructure(listing.files, { name, type: this.refTypeOf(name, sha, refType), sha }, treeStats);
+  }
+}
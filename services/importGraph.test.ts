@@ -0,0 +1,110 @@
+/**
+ * Import Graph Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ImportGraphStore, buildImportGraph, buildRepoImportGraph, transitiveDependencies, transitiveDependents } from './importGraph';
+import { buildRepoStructure } from './repoStructure';
+import type { ImportGraph, RepoFile } from '../types';
+
+const SOURCES: Record<string, string> = {
+  'pubspec.yaml': 'name: shop\n',
+  'packages/core/pubspec.yaml': 'name: core\n',
+  'lib/main.dart': `
+import 'package:flutter/material.dart';
+import 'package:shop/cart/cart.dart';
+import 'src/platform.dart' if (dart.library.io) 'src/platform_io.dart' if (dart.library.html) 'src/platform_web.dart';
+`,
+  'lib/cart/cart.dart': `
+library shop.cart;
+export 'package:core/money.dart';
+part 'cart_item.dart';
+part 'cart.g.dart';
+`,
+  'lib/cart/cart_item.dart': `part of shop.cart;\nimport '../utils/format.dart';`,
+  'lib/cart/cart.g.dart': `part of 'cart.dart';`,
+  'lib/utils/format.dart': 'String format(int cents) => "$cents";',
+  'lib/src/platform.dart': '',
+  'lib/src/platform_io.dart': '',
+  'lib/src/platform_web.dart': '',
+  'packages/core/lib/money.dart': 'class Money {}',
+  'test/cart_test.dart': `import 'package:shop/cart/cart.dart';`,
+};
+
+const structure = buildRepoStructure(
+  Object.keys(SOURCES).map((path): RepoFile => ({ path, type: 'blob', url: path })),
+  { 'pubspec.yaml': SOURCES['pubspec.yaml'], 'packages/core/pubspec.yaml': SOURCES['packages/core/pubspec.yaml'] }
+);
+const load = async (file: RepoFile) => SOURCES[file.path];
+
+describe('buildImportGraph', () => {
+  it('should follow imports, re-exports, parts and conditional imports across packages', async () => {
+    const graph = await buildRepoImportGraph(structure, load);
+    const edges = graph.edges.map(e => `${e.from} -${e.kind}${e.conditional ? '?' : ''}-> ${e.to}`);
+
+    expect(edges).toEqual([
+      'lib/cart/cart.dart -part-> lib/cart/cart.g.dart',
+      'lib/cart/cart.dart -part-> lib/cart/cart_item.dart',
+      'lib/cart/cart.dart -export-> packages/core/lib/money.dart',
+      'lib/cart/cart.g.dart -partOf-> lib/cart/cart.dart',
+      'lib/cart/cart_item.dart -partOf-> lib/cart/cart.dart',
+      'lib/cart/cart_item.dart -import-> lib/utils/format.dart',
+      'lib/main.dart -import-> lib/cart/cart.dart',
+      'lib/main.dart -import-> lib/src/platform.dart',
+      'lib/main.dart -import?-> lib/src/platform_io.dart',
+      'lib/main.dart -import?-> lib/src/platform_web.dart',
+      'test/cart_test.dart -import-> lib/cart/cart.dart',
+    ]);
+    expect(graph.files).toContain('lib/cart/cart.g.dart');
+  });
+
+  it('should stop after the nearest files when limited', async () => {
+    const graph = await buildImportGraph(['lib/main.dart'], {
+      fileMap: structure.fileMap, workspacePackages: structure.workspace.packages, load, maxFiles: 5
+    });
+
+    expect(graph.files).toEqual(['lib/cart/cart.dart', 'lib/main.dart', 'lib/src/platform.dart', 'lib/src/platform_io.dart', 'lib/src/platform_web.dart']);
+  });
+
+  it('should record files that could not be read', async () => {
+    const graph = await buildImportGraph(['lib/main.dart', 'lib/utils/format.dart'], {
+      fileMap: structure.fileMap,
+      workspacePackages: structure.workspace.packages,
+      load: async (file) => {
+        if (file.path === 'lib/utils/format.dart') throw new Error('404');
+        return SOURCES[file.path];
+      }
+    });
+
+    expect(graph.unreadable).toEqual(['lib/utils/format.dart']);
+  });
+});
+
+describe('graph queries', () => {
+  it('should find transitive dependencies and dependents', async () => {
+    const graph = await buildRepoImportGraph(structure, load);
+
+    expect(transitiveDependencies(graph, 'test/cart_test.dart')).toEqual([
+      'lib/cart/cart.dart', 'lib/cart/cart.g.dart', 'lib/cart/cart_item.dart', 'lib/utils/format.dart', 'packages/core/lib/money.dart',
+    ]);
+    expect(transitiveDependents(graph, 'lib/utils/format.dart')).toEqual([
+      'lib/cart/cart.dart', 'lib/cart/cart_item.dart', 'lib/main.dart', 'test/cart_test.dart',
+    ]);
+  });
+});
+
+describe('ImportGraphStore', () => {
+  const graph: ImportGraph = { files: [], edges: [], unreadable: [] };
+
+  it('should build once per key and retry failed builds', async () => {
+    const store = new ImportGraphStore(2);
+    const build = vi.fn(async () => graph);
+
+    await store.load('acme/shop@1', build);
+    await store.load('acme/shop@1', build);
+    expect(build).toHaveBeenCalledTimes(1);
+
+    await expect(store.load('acme/shop@2', async () => { throw new Error('rate limited'); })).rejects.toThrow('rate limited');
+    expect(await store.load('acme/shop@2', build)).toBe(graph);
+  });
+});
@@ -0,0 +1,174 @@
+import { ImportEdge, ImportGraph, RepoFile, RepoStructure } from "../types";
+import { parseDartDirectives } from "./dartParser";
+import { isAnalyzableDartFile, resolveImportPath } from "./repoStructure";
+import { ContentLoader, mapWithConcurrency } from "./repoScanService";
+
+/**
+ * Import Graph
+ *
+ * Internal dependency graph of the Dart files in a repository: imports,
+ * re-exports, parts and every alternative of a conditional import. `package:`
+ * imports resolve against the workspace packages; anything outside the
+ * repository is left out.
+ */
+
+export interface ImportGraphOptions {
+  fileMap: Record<string, RepoFile>;
+  workspacePackages: Record<string, string>; // Package name -> package root
+  load: ContentLoader;
+  maxFiles?: number; // Stop after reading this many files, nearest to the entries first
+  concurrency?: number;
+  signal?: AbortSignal;
+  ref?: string;
+}
+
+const DEFAULT_CONCURRENCY = 6;
+
+/**
+ * Crawls outward from the entry files, reading each reachable file once
+ */
+export const buildImportGraph = async (entryPaths: string[], options: ImportGraphOptions): Promise<ImportGraph> => {
+  const { fileMap, workspacePackages, load, maxFiles = Infinity, concurrency = DEFAULT_CONCURRENCY, signal, ref } = options;
+  const edges: ImportEdge[] = [];
+  const unreadable: string[] = [];
+  const visited = new Set<string>();
+  const libraryFiles = new Map<string, string>(); // `library a.b;` name -> path
+  const partOfNames: { from: string; name: string }[] = [];
+
+  let frontier = entryPaths.filter(path => fileMap[path]);
+
+  while (frontier.length > 0 && visited.size < maxFiles) {
+    const batch = [...new Set(frontier)].filter(path => !visited.has(path)).slice(0, maxFiles - visited.size);
+    batch.forEach(path => visited.add(path));
+    const next: string[] = [];
+
+    await mapWithConcurrency(batch, concurrency, async (path) => {
+      if (signal?.aborted) throw new Error('Import graph cancelled');
+
+      let code: string;
+      try {
+        code = await load(fileMap[path]);
+      } catch (e) {
+        unreadable.push(path);
+        return;
+      }
+
+      for (const directive of parseDartDirectives(code)) {
+        if (directive.kind === 'library') {
+          if (directive.libraryName) libraryFiles.set(directive.libraryName, path);
+          continue;
+        }
+        if (directive.kind === 'partOf' && !directive.uri) {
+          if (directive.libraryName) partOfNames.push({ from: path, name: directive.libraryName });
+          continue;
+        }
+
+        const targets = [
+          { uri: directive.uri, conditional: false },
+          ...directive.configurations.map(uri => ({ uri, conditional: true }))
+        ];
+        for (const { uri, conditional } of targets) {
+          const to = uri ? resolveImportPath(uri, path, workspacePackages) : null;
+          if (!to || !fileMap[to]) continue;
+          edges.push(conditional ? { from: path, to, kind: directive.kind, conditional } : { from: path, to, kind: directive.kind });
+          next.push(to);
+        }
+      }
+    });
+
+    frontier = next;
+  }
+
+  // `part of a.b;` names the library rather than its file
+  for (const { from, name } of partOfNames) {
+    const to = libraryFiles.get(name);
+    if (to) edges.push({ from, to, kind: 'partOf' });
+  }
+
+  const key = (edge: ImportEdge) => `${edge.from}\n${edge.to}`;
+  edges.sort((a, b) => key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0);
+  return { files: [...visited].sort(), edges, unreadable: unreadable.sort(), ref };
+};
+
+/**
+ * Graph of every analyzable Dart file in the structure, tests included
+ */
+export const buildRepoImportGraph = (
+  structure: RepoStructure,
+  load: ContentLoader,
+  options: Pick<ImportGraphOptions, 'concurrency' | 'signal'> = {}
+): Promise<ImportGraph> => {
+  const entries = Object.values(structure.fileMap).filter(isAnalyzableDartFile).map(f => f.path);
+  return buildImportGraph(entries, {
+    ...options,
+    fileMap: structure.fileMap,
+    workspacePackages: structure.workspace.packages,
+    load,
+    ref: structure.ref?.sha
+  });
+};
+
+// A part shares its library's dependencies, but a library is not a dependent of its parts
+const walk = (graph: ImportGraph, start: string, reverse: boolean): string[] => {
+  const adjacent = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    if (reverse && edge.kind === 'partOf') continue;
+    const [from, to] = reverse ? [edge.to, edge.from] : [edge.from, edge.to];
+    if (!adjacent.has(from)) adjacent.set(from, []);
+    adjacent.get(from)!.push(to);
+  }
+
+  const seen = new Set([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    for (const next of adjacent.get(queue.shift()!) || []) {
+      if (seen.has(next)) continue;
+      seen.add(next);
+      queue.push(next);
+    }
+  }
+  seen.delete(start);
+  return [...seen].sort();
+};
+
+/**
+ * Every file the given file imports, directly or through other files
+ */
+export const transitiveDependencies = (graph: ImportGraph, path: string): string[] => walk(graph, path, false);
+
+/**
+ * Every file that imports the given file, directly or through other files;
+ * the files a change to it can break
+ */
+export const transitiveDependents = (graph: ImportGraph, path: string): string[] => walk(graph, path, true);
+
+/**
+ * Keeps built graphs per repository and commit so reopening a view does not
+ * crawl again. Failed builds are dropped so they can be retried.
+ */
+export class ImportGraphStore {
+  private graphs = new Map<string, Promise<ImportGraph>>();
+
+  constructor(private readonly maxEntries = 4) {}
+
+  load(key: string, build: () => Promise<ImportGraph>): Promise<ImportGraph> {
+    const cached = this.graphs.get(key);
+    if (cached) return cached;
+
+    const pending = build().catch((e) => {
+      this.graphs.delete(key);
+      throw e;
+    });
+    this.graphs.set(key, pending);
+    if (this.graphs.size > this.maxEntries) {
+      this.graphs.delete(this.graphs.keys().next().value!);
+    }
+    return pending;
+  }
+
+  clear(): void {
+    this.graphs.clear();
+  }
+}
+
+export const importGraphStore = new ImportGraphStore();
@@ -0,0 +1,102 @@
+/**
+ * LCOV Import Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findLcovFile, lcovBasePath, measureSpan, mergeLcovReports, parseLcov } from './lcovService';
+import { analyzeFlutterCoverageStatic } from './analysisEngine';
+import { parsePubspecDependencies } from './repoStructure';
+
+const LCOV = `SF:lib/src/calculator.dart
+DA:2,3
+DA:3,3
+DA:5,0
+DA:6,0
+DA:8,2
+LF:5
+LH:3
+end_of_record
+SF:/home/runner/work/app/app/lib/main.dart
+DA:1,1
+end_of_record
+`;
+
+describe('parseLcov', () => {
+  it('should read per-line hits for every source file', () => {
+    const report = parseLcov(LCOV);
+    const calculator = report.files['lib/src/calculator.dart'];
+    expect(calculator.lines).toEqual({ 2: 3, 3: 3, 5: 0, 6: 0, 8: 2 });
+    expect(calculator.linesFound).toBe(5);
+    expect(calculator.linesHit).toBe(3);
+  });
+
+  it('should resolve relative sources against the package owning coverage/', () => {
+    expect(lcovBasePath('coverage/lcov.info')).toBe('');
+    expect(lcovBasePath('packages/core/coverage/lcov.info')).toBe('packages/core/');
+
+    const report = parseLcov(LCOV, 'packages/core/coverage/lcov.info');
+    expect(Object.keys(report.files)).toEqual([
+      'packages/core/lib/src/calculator.dart',
+      '/home/runner/work/app/app/lib/main.dart',
+    ]);
+  });
+
+  it('should sum hits when reports overlap', () => {
+    const merged = mergeLcovReports([
+      parseLcov('SF:lib/a.dart\nDA:1,0\nDA:2,1\nend_of_record'),
+      parseLcov('SF:lib/a.dart\nDA:1,2\nend_of_record'),
+    ]);
+    expect(merged.files['lib/a.dart'].lines).toEqual({ 1: 2, 2: 1 });
+    expect(merged.files['lib/a.dart'].linesHit).toBe(2);
+  });
+});
+
+describe('findLcovFile', () => {
+  it('should match absolute CI paths and package-relative uploads', () => {
+    const report = parseLcov(LCOV);
+    expect(findLcovFile(report, 'lib/main.dart')?.path).toBe('/home/runner/work/app/app/lib/main.dart');
+    expect(findLcovFile(report, 'packages/core/lib/src/calculator.dart')?.path).toBe('lib/src/calculator.dart');
+    expect(findLcovFile(report, 'lib/other.dart')).toBeUndefined();
+  });
+});
+
+describe('measureSpan', () => {
+  it('should only count instrumented lines inside the span', () => {
+    const file = parseLcov(LCOV).files['lib/src/calculator.dart'];
+    expect(measureSpan(file, 1, 4)).toEqual({ linesFound: 2, linesHit: 2, isCovered: true });
+    expect(measureSpan(file, 5, 6)).toEqual({ linesFound: 2, linesHit: 0, isCovered: false });
+  });
+});
+
+describe('Measured coverage in the report', () => {
+  const noDependencies = parsePubspecDependencies('');
+
+  it('should flag where the static estimate and lcov disagree', () => {
+    const source = `class Calculator {
+  int add(int a, int b) {
+    return a + b;
+  }
+  int divide(int a, int b) {
+    return a ~/ b;
+  }
+  int square(int a) => a * a;
+}`;
+    const tests = `void main() {
+  test('divide', () { expect(Calculator().divide(4, 2), 2); });
+}`;
+    const lcov = parseLcov(LCOV).files['lib/src/calculator.dart'];
+    const report = analyzeFlutterCoverageStatic(source, tests, noDependencies, lcov);
+    const byName = Object.fromEntries(report.functions.map(f => [f.name, f]));
+
+    expect(byName['add'].disagreement).toBe('measuredOnly');
+    expect(byName['divide'].disagreement).toBe('staticOnly');
+    expect(byName['square'].disagreement).toBe('measuredOnly');
+    expect(report.measured).toMatchObject({
+      lineCoveragePercentage: 60,
+      functionsMeasured: 3,
+      functionsHit: 2,
+      disagreements: 3
+    });
+    expect(report.summary).toContain('lcov measured 60% of lines');
+  });
+});
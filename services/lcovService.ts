@@ -0,0 +1,153 @@
+import { CoverageDisagreement, FunctionLineCoverage, FunctionMetadata, LcovFileCoverage, LcovReport, MeasuredCoverage } from "../types";
+
+/**
+ * LCOV Coverage Import
+ *
+ * Parses the `lcov.info` written by `flutter test --coverage` and maps its
+ * per-line hit counts onto the function spans found by parseDartFunctions.
+ */
+
+const normalizePath = (path: string): string =>
+  path.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+
+const isAbsolutePath = (path: string): boolean =>
+  path.startsWith('/') || /^\w+:/.test(path);
+
+/**
+ * Directory that relative SF paths in an lcov file are resolved against:
+ * the package owning `coverage/`, or the file's own directory otherwise.
+ */
+export const lcovBasePath = (lcovPath: string): string => {
+  const path = normalizePath(lcovPath);
+  const coverageDir = path.match(/^(.*\/)?coverage\/[^/]+$/);
+  if (coverageDir) return coverageDir[1] ?? '';
+  const slash = path.lastIndexOf('/');
+  return slash >= 0 ? path.slice(0, slash + 1) : '';
+};
+
+/**
+ * Parses lcov.info content. Relative source paths are prefixed with basePath
+ * so records from several packages can live in one report.
+ */
+export const parseLcov = (content: string, source = 'lcov.info', basePath = lcovBasePath(source)): LcovReport => {
+  const files: Record<string, LcovFileCoverage> = {};
+  let current: LcovFileCoverage | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (line.startsWith('SF:')) {
+      const sourcePath = normalizePath(line.slice(3));
+      const path = isAbsolutePath(sourcePath) ? sourcePath : basePath + sourcePath;
+      current = files[path] ?? { path, lines: {}, linesFound: 0, linesHit: 0 };
+      files[path] = current;
+    } else if (line.startsWith('DA:') && current) {
+      const [lineNumber, hits] = line.slice(3).split(',').map(Number);
+      if (Number.isNaN(lineNumber) || Number.isNaN(hits)) continue;
+      current.lines[lineNumber] = (current.lines[lineNumber] ?? 0) + hits;
+    } else if (line === 'end_of_record') {
+      current = null;
+    }
+  }
+
+  // LF/LH are recomputed because merged records make the reported totals stale
+  for (const file of Object.values(files)) {
+    const hits = Object.values(file.lines);
+    file.linesFound = hits.length;
+    file.linesHit = hits.filter(h => h > 0).length;
+  }
+
+  return { sources: [source], files };
+};
+
+/**
+ * Combines reports, summing hits for sources that appear in more than one
+ */
+export const mergeLcovReports = (reports: LcovReport[]): LcovReport => {
+  const merged: LcovReport = { sources: [], files: {} };
+
+  for (const report of reports) {
+    merged.sources.push(...report.sources);
+    for (const file of Object.values(report.files)) {
+      const target = merged.files[file.path] ?? { path: file.path, lines: {}, linesFound: 0, linesHit: 0 };
+      for (const [line, hits] of Object.entries(file.lines)) {
+        target.lines[Number(line)] = (target.lines[Number(line)] ?? 0) + hits;
+      }
+      const hits = Object.values(target.lines);
+      target.linesFound = hits.length;
+      target.linesHit = hits.filter(h => h > 0).length;
+      merged.files[file.path] = target;
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Finds the record for a repository file. CI runners write absolute paths and
+ * uploaded files may be package-relative, so the longest suffix match wins.
+ */
+export const findLcovFile = (report: LcovReport, filePath: string): LcovFileCoverage | undefined => {
+  const path = normalizePath(filePath);
+  if (report.files[path]) return report.files[path];
+
+  let best: LcovFileCoverage | undefined;
+  let bestLength = 0;
+
+  for (const [key, file] of Object.entries(report.files)) {
+    const matches = key.endsWith('/' + path) || path.endsWith('/' + key);
+    const length = Math.min(key.length, path.length);
+    if (matches && length > bestLength) {
+      best = file;
+      bestLength = length;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Counts instrumented and hit lines inside a function span
+ */
+export const measureSpan = (file: LcovFileCoverage, lineStart: number, lineEnd: number): FunctionLineCoverage => {
+  let linesFound = 0;
+  let linesHit = 0;
+
+  for (let line = lineStart; line <= lineEnd; line++) {
+    const hits = file.lines[line];
+    if (hits === undefined) continue;
+    linesFound++;
+    if (hits > 0) linesHit++;
+  }
+
+  return { linesFound, linesHit, isCovered: linesHit > 0 };
+};
+
+/**
+ * Static says tested but nothing ran, or something ran that no test names directly
+ */
+export const detectDisagreement = (isTested: boolean, measured: FunctionLineCoverage): CoverageDisagreement | undefined => {
+  if (measured.linesFound === 0) return undefined;
+  if (isTested && !measured.isCovered) return 'staticOnly';
+  if (!isTested && measured.isCovered) return 'measuredOnly';
+  return undefined;
+};
+
+/**
+ * Aggregates measured coverage for the analyzed functions of one file
+ */
+export const summarizeMeasuredCoverage = (file: LcovFileCoverage, functions: FunctionMetadata[]): MeasuredCoverage => {
+  const measuredFunctions = functions.filter(f => f.measured && f.measured.linesFound > 0);
+  const functionsHit = measuredFunctions.filter(f => f.measured!.isCovered).length;
+
+  return {
+    source: file.path,
+    linesFound: file.linesFound,
+    linesHit: file.linesHit,
+    lineCoveragePercentage: file.linesFound > 0 ? Math.round((file.linesHit / file.linesFound) * 100) : 0,
+    functionsMeasured: measuredFunctions.length,
+    functionsHit,
+    functionCoveragePercentage: measuredFunctions.length > 0 ? Math.round((functionsHit / measuredFunctions.length) * 100) : 0,
+    disagreements: functions.filter(f => f.disagreement).length
+  };
+};
@@ -5,6 +5,8 @@
  * Environment variables should be set in .env file for security.
  */
 
+import { getGithubHost } from './githubHost';
+
 /**
  * OAuth Configuration Interface
  */
@@ -61,13 +63,18 @@ export interface GitHubUser {
  * 
  * Uses environment variables for sensitive data.
  * Fallback values are provided for development.
+ * Endpoints follow the configured host (github.com or Enterprise Server).
  */
 export const GITHUB_OAUTH_CONFIG: OAuthConfig = {
   clientId: import.meta.env.VITE_GITHUB_CLIENT_ID || '',
   redirectUri: import.meta.env.VITE_GITHUB_REDIRECT_URI || `${window.location.origin}/oauth/callback`,
   scope: ['repo', 'read:user'],
-  authorizationUrl: 'https://github.com/login/oauth/authorize',
-  tokenUrl: 'https://github.com/login/oauth/access_token'
+  get authorizationUrl() {
+    return `${getGithubHost().webUrl}/login/oauth/authorize`;
+  },
+  get tokenUrl() {
+    return `${getGithubHost().webUrl}/login/oauth/access_token`;
+  }
 };
 
 /**
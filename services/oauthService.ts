@@ -9,6 +9,7 @@
  */
 
 import { GITHUB_OAUTH_CONFIG, STORAGE_KEYS } from './oauthConfig';
+import { getGithubHost } from './githubHost';
 import type { GitHubUser } from '../types';
 
 /**
@@ -242,7 +243,7 @@ export class OAuthService {
    */
   private async fetchAndStoreUser(token: string): Promise<void> {
     try {
-      const response = await fetch('https://api.github.com/user', {
+      const response = await fetch(`${getGithubHost().apiUrl}/user`, {
         headers: {
           'Authorization': `token ${token}`,
           'Accept': 'application/vnd.github.v3+json'
@@ -0,0 +1,22 @@
+import { SourceProviderKind } from '../types';
+import { SourceProvider } from './sourceProvider';
+import { GithubService } from './githubService';
+import { GitlabService } from './gitlabService';
+import { BitbucketService } from './bitbucketService';
+
+export const PROVIDER_LABELS: Record<SourceProviderKind, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+};
+
+export const createSourceProvider = (kind: SourceProviderKind, token?: string): SourceProvider => {
+  switch (kind) {
+    case 'gitlab':
+      return new GitlabService(token);
+    case 'bitbucket':
+      return new BitbucketService(token);
+    default:
+      return new GithubService(token);
+  }
+};
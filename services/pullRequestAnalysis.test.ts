@@ -0,0 +1,100 @@
+/**
+ * Pull Request Analysis Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzePullRequest, classifyChange, parsePatch } from './pullRequestAnalysis';
+import { parsePullRequestInput } from './githubService';
+import { buildRepoStructure } from './repoStructure';
+import type { PullRequestInfo, RepoFile } from '../types';
+
+const PATCH = `@@ -1,6 +1,10 @@
+ class Cart {
+   void add() {}
+-  void clear() {}
++  void clear() {
++    items.clear();
++  }
++  int total() {
++    return 0;
++  }
+   bool get isEmpty => true;
+ }`;
+
+describe('parsePatch', () => {
+  it('should map added and removed lines onto head line numbers', () => {
+    const diff = parsePatch(PATCH);
+    expect([...diff.added]).toEqual([3, 4, 5, 6, 7, 8]);
+    expect([...diff.removedAt]).toEqual([3]);
+  });
+});
+
+describe('classifyChange', () => {
+  it('should tell added, modified and untouched functions apart', () => {
+    const diff = parsePatch(PATCH);
+    expect(classifyChange({ lineStart: 2, lineEnd: 2 }, diff)).toBeNull();
+    expect(classifyChange({ lineStart: 6, lineEnd: 8 }, diff)).toBe('added');
+    expect(classifyChange({ lineStart: 3, lineEnd: 5 }, diff)).toBe('added');
+    expect(classifyChange({ lineStart: 1, lineEnd: 10 }, diff)).toBe('modified');
+  });
+});
+
+describe('analyzePullRequest', () => {
+  const CONTENT: Record<string, string> = {
+    'lib/cart.dart': `class Cart {
+  void add() {}
+  void clear() {
+    items.clear();
+  }
+  int total() {
+    return 0;
+  }
+  bool get isEmpty => true;
+}`,
+    'test/cart_test.dart': `void main() { test('clear', () { final c = Cart(); c.clear(); expect(c.isEmpty, isTrue); }); }`,
+    'lib/price.dart': 'int discount(int p) => p;',
+  };
+  const files: RepoFile[] = [...Object.keys(CONTENT), 'README.md'].map(path => ({ path, type: 'blob', url: path }));
+  const structure = buildRepoStructure(files, {});
+  const pullRequest: PullRequestInfo = {
+    number: 7, title: 'Cart totals', url: 'https://github.com/acme/shop/pull/7',
+    baseRef: 'main', headRef: 'feature/totals', baseSha: 'aaa', headSha: 'bbb', headOwner: 'acme', headRepo: 'shop'
+  };
+
+  it('should report changed public functions that have no tests', async () => {
+    const report = await analyzePullRequest(
+      pullRequest,
+      [
+        { path: 'lib/cart.dart', status: 'modified', patch: PATCH },
+        { path: 'lib/price.dart', status: 'added' },
+        { path: 'README.md', status: 'modified' },
+      ],
+      structure,
+      async (file) => CONTENT[file.path]
+    );
+
+    const cart = report.files.find(f => f.path === 'lib/cart.dart')!;
+    expect(cart.changedFunctions.map(f => [f.name, f.change, f.isTested])).toEqual([
+      ['clear', 'added', true],
+      ['total', 'added', false],
+    ]);
+    expect(cart.testChanged).toBe(false);
+
+    const price = report.files.find(f => f.path === 'lib/price.dart')!;
+    expect(price.changedFunctions.map(f => [f.name, f.change])).toEqual([['discount', 'added']]);
+    expect(price.hasTestFile).toBe(false);
+
+    expect(report.skippedFiles).toEqual(['README.md']);
+    expect(report.changedFunctions).toBe(3);
+    expect(report.untestedFunctions).toBe(2);
+  });
+});
+
+describe('parsePullRequestInput', () => {
+  it('should accept URLs, short references and bare numbers', () => {
+    expect(parsePullRequestInput('https://github.com/acme/shop/pull/42/files')).toEqual({ owner: 'acme', repo: 'shop', number: 42 });
+    expect(parsePullRequestInput('acme/shop#7')).toEqual({ owner: 'acme', repo: 'shop', number: 7 });
+    expect(parsePullRequestInput('#12', { owner: 'acme', repo: 'shop' })).toEqual({ owner: 'acme', repo: 'shop', number: 12 });
+    expect(parsePullRequestInput('12')).toBeNull();
+  });
+});
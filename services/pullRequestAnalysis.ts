@@ -0,0 +1,123 @@
+import { ChangedFunction, FunctionChange, FunctionMetadata, PullRequestFile, PullRequestFileReport, PullRequestInfo, PullRequestReport, RepoStructure } from "../types";
+import { analyzeFlutterCoverageStatic } from "./analysisEngine";
+import { ContentLoader, mapWithConcurrency } from "./repoScanService";
+import { dependenciesFor } from "./repoStructure";
+
+/**
+ * Pull Request Analysis
+ *
+ * Maps a pull request's diff onto the function inventory of the head
+ * revision to answer "did this PR add untested code".
+ */
+
+export interface FileDiff {
+  added: Set<number>; // New-file line numbers added by the patch
+  removedAt: Set<number>; // New-file line numbers that sit where lines were deleted
+}
+
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Reads line numbers touched by a unified diff, in head-file coordinates
+ */
+export const parsePatch = (patch: string): FileDiff => {
+  const diff: FileDiff = { added: new Set(), removedAt: new Set() };
+  let line = 0;
+
+  for (const row of patch.split('\n')) {
+    const hunk = row.match(HUNK_HEADER);
+    if (hunk) {
+      line = Number(hunk[1]);
+    } else if (row.startsWith('+')) {
+      diff.added.add(line++);
+    } else if (row.startsWith('-')) {
+      diff.removedAt.add(line);
+    } else if (!row.startsWith('\\')) {
+      line++;
+    }
+  }
+
+  return diff;
+};
+
+/**
+ * A function is added when every line of it is new, modified when any line
+ * inside it changed, and untouched otherwise
+ */
+export const classifyChange = (fn: Pick<FunctionMetadata, 'lineStart' | 'lineEnd'>, diff: FileDiff): FunctionChange | null => {
+  let addedLines = 0;
+  let touched = false;
+
+  for (let line = fn.lineStart; line <= fn.lineEnd; line++) {
+    if (diff.added.has(line)) addedLines++;
+    if (diff.removedAt.has(line)) touched = true;
+  }
+
+  if (addedLines === fn.lineEnd - fn.lineStart + 1) return 'added';
+  return addedLines > 0 || touched ? 'modified' : null;
+};
+
+const changeFor = (fn: FunctionMetadata, file: PullRequestFile, diff: FileDiff | null): FunctionChange | null => {
+  if (file.status === 'added') return 'added';
+  // Without a patch GitHub did not say what changed, so every function counts
+  if (!diff) return 'modified';
+  return classifyChange(fn, diff);
+};
+
+/**
+ * Analyzes every changed lib file of a pull request against the head tree
+ */
+export const analyzePullRequest = async (
+  pullRequest: PullRequestInfo,
+  changedFiles: PullRequestFile[],
+  structure: RepoStructure,
+  loadContent: ContentLoader,
+  concurrency = 4
+): Promise<PullRequestReport> => {
+  const pairsByPath = new Map(structure.pairs.map(pair => [pair.libFile.path, pair]));
+  const changedPaths = new Set(changedFiles.map(f => f.path));
+
+  const analyzable = changedFiles.filter(f => f.status !== 'removed' && pairsByPath.has(f.path));
+  const skippedFiles = changedFiles.filter(f => !analyzable.includes(f)).map(f => f.path);
+
+  const files = await mapWithConcurrency(analyzable, concurrency, async (file): Promise<PullRequestFileReport> => {
+    const pair = pairsByPath.get(file.path)!;
+    const base: PullRequestFileReport = {
+      path: file.path,
+      status: file.status,
+      pairId: pair.id,
+      hasTestFile: !!pair.testFile,
+      testChanged: !!pair.testFile && changedPaths.has(pair.testFile.path),
+      changedFunctions: [],
+      untestedFunctions: 0
+    };
+
+    try {
+      const [prodCode, testCode] = await Promise.all([
+        loadContent(pair.libFile),
+        pair.testFile ? loadContent(pair.testFile) : Promise.resolve('')
+      ]);
+      const dependencies = dependenciesFor(structure, pair.packageRoot);
+      const report = analyzeFlutterCoverageStatic(prodCode, testCode, dependencies);
+      const diff = file.patch ? parsePatch(file.patch) : null;
+
+      const changedFunctions: ChangedFunction[] = [];
+      for (const fn of report.functions) {
+        const change = changeFor(fn, file, diff);
+        if (change) changedFunctions.push({ ...fn, change });
+      }
+
+      return { ...base, changedFunctions, untestedFunctions: changedFunctions.filter(f => !f.isTested).length };
+    } catch (e: any) {
+      return { ...base, error: e.message || 'Failed to analyze file' };
+    }
+  });
+
+  return {
+    pullRequest,
+    files,
+    skippedFiles,
+    changedFunctions: files.reduce((sum, f) => sum + f.changedFunctions.length, 0),
+    untestedFunctions: files.reduce((sum, f) => sum + f.untestedFunctions, 0)
+  };
+};
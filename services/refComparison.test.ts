@@ -0,0 +1,84 @@
+/**
+ * Ref Comparison Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { compareRefs } from './refComparison';
+import { buildRepoStructure } from './repoStructure';
+import type { RepoFile } from '../types';
+
+// Each snapshot maps path -> content; the blob SHA is the content itself
+const snapshot = (files: Record<string, string>) => buildRepoStructure(
+  Object.entries(files).map(([path, content]): RepoFile => ({ path, type: 'blob', url: content, sha: content })),
+  {}
+);
+
+const CART_BASE = `class Cart {
+  void add() {}
+  void clear() {}
+  void legacy() {}
+}`;
+
+const CART_HEAD = `class Cart {
+  void add() {}
+  void clear() {}
+  int total() => 0;
+}`;
+
+const UTILS = 'int square(int a) => a * a;';
+
+describe('compareRefs', () => {
+  it('should list added, removed, newly covered and newly uncovered functions', async () => {
+    const base = snapshot({
+      'lib/cart.dart': CART_BASE,
+      'test/cart_test.dart': `void main() { test('add', () { final c = Cart(); c.add(); expect(c.size, 1); }); }`,
+      'lib/utils.dart': UTILS,
+      'lib/old.dart': 'void retired() {}',
+    });
+    const head = snapshot({
+      'lib/cart.dart': CART_HEAD,
+      'test/cart_test.dart': `void main() { test('clear', () { final c = Cart(); c.clear(); expect(c.size, 0); }); }`,
+      'lib/utils.dart': UTILS,
+      'lib/fresh.dart': 'void hello() {}',
+    });
+    const loadContent = vi.fn(async (file: RepoFile) => file.url);
+
+    const comparison = await compareRefs(base, head, loadContent);
+
+    expect(comparison.files.map(f => [f.path, f.status])).toEqual([
+      ['lib/cart.dart', 'modified'],
+      ['lib/fresh.dart', 'added'],
+      ['lib/old.dart', 'removed'],
+    ]);
+    expect(comparison.unchangedFiles).toBe(1);
+    expect(loadContent.mock.calls.map(([f]) => f.url)).not.toContain(UTILS);
+
+    const cart = comparison.files[0];
+    expect(cart.functions.map(f => [f.name, f.status])).toEqual([
+      ['add', 'newlyUncovered'],
+      ['clear', 'newlyCovered'],
+      ['total', 'added'],
+      ['legacy', 'removed'],
+    ]);
+    expect(cart.coverageDelta).toBe(0);
+    expect(comparison.summary).toEqual({ added: 2, removed: 2, newlyCovered: 1, newlyUncovered: 1, unchanged: 0 });
+  });
+
+  it('should diff a getter and a setter of the same name separately', async () => {
+    const base = snapshot({ 'lib/counter.dart': `class Counter {
+  int get value => _value;
+}` });
+    const head = snapshot({ 'lib/counter.dart': `class Counter {
+  int get value => _value;
+  set value(int v) => _value = v;
+}` });
+
+    const comparison = await compareRefs(base, head, async (file: RepoFile) => file.url);
+
+    expect(comparison.files[0].functions.map(f => [f.key, f.status])).toEqual([
+      ['class:Counter.value', 'unchanged'],
+      ['class:Counter.value=', 'added'],
+    ]);
+    expect(comparison.summary).toMatchObject({ added: 1, unchanged: 1 });
+  });
+});
@@ -0,0 +1,113 @@
+import { AnalysisReport, FileComparison, FilePair, FunctionDiff, FunctionDiffStatus, FunctionMetadata, RefComparison, RepoStructure } from "../types";
+import { analyzeFlutterCoverageStatic } from "./analysisEngine";
+import { ContentLoader, mapWithConcurrency } from "./repoScanService";
+import { dependenciesFor } from "./repoStructure";
+
+/**
+ * Ref Comparison
+ *
+ * Diffs the function inventory of two repository snapshots, such as `main`
+ * and a feature branch, keyed by owner and name.
+ */
+
+// Setters get a `=` suffix so they do not collide with the getter of the same name
+export const functionKey = (fn: Pick<FunctionMetadata, 'ownerKind' | 'owner' | 'name' | 'isSetter'>): string =>
+  `${fn.ownerKind}:${fn.owner}.${fn.name}${fn.isSetter ? '=' : ''}`;
+
+const diffStatus = (base?: FunctionMetadata, head?: FunctionMetadata): FunctionDiffStatus => {
+  if (!base) return 'added';
+  if (!head) return 'removed';
+  if (!base.isTested && head.isTested) return 'newlyCovered';
+  if (base.isTested && !head.isTested) return 'newlyUncovered';
+  return 'unchanged';
+};
+
+/**
+ * Matches functions across both sides; head order first, then removed ones
+ */
+export const diffFunctions = (base: FunctionMetadata[], head: FunctionMetadata[]): FunctionDiff[] => {
+  const baseByKey = new Map(base.map(fn => [functionKey(fn), fn]));
+  const headKeys = new Set(head.map(functionKey));
+
+  const matched = head.map(fn => ({ key: functionKey(fn), base: baseByKey.get(functionKey(fn)), head: fn }));
+  const removed = base.filter(fn => !headKeys.has(functionKey(fn))).map(fn => ({ key: functionKey(fn), base: fn, head: undefined }));
+
+  return [...matched, ...removed].map(({ key, base, head }) => {
+    const fn = (head ?? base)!;
+    return { key, name: fn.name, owner: fn.owner, ownerKind: fn.ownerKind, status: diffStatus(base, head), base, head };
+  });
+};
+
+/**
+ * Side-by-side view of one file's reports; either side may be missing
+ */
+export const compareReports = (path: string, base?: AnalysisReport, head?: AnalysisReport): FileComparison => ({
+  path,
+  status: !base ? 'added' : !head ? 'removed' : 'modified',
+  base,
+  head,
+  coverageDelta: (head?.coveragePercentage ?? 0) - (base?.coveragePercentage ?? 0),
+  functions: diffFunctions(base?.functions ?? [], head?.functions ?? [])
+});
+
+// Equal blob SHAs for both the production and test file mean the analysis cannot differ
+const isUnchanged = (base?: FilePair, head?: FilePair): boolean =>
+  !!base && !!head &&
+  !!base.libFile.sha && base.libFile.sha === head.libFile.sha &&
+  base.testFile?.sha === head.testFile?.sha;
+
+const analyzePair = async (pair: FilePair, structure: RepoStructure, loadContent: ContentLoader): Promise<AnalysisReport> => {
+  const [prodCode, testCode] = await Promise.all([
+    loadContent(pair.libFile),
+    pair.testFile ? loadContent(pair.testFile) : Promise.resolve('')
+  ]);
+  return analyzeFlutterCoverageStatic(prodCode, testCode, dependenciesFor(structure, pair.packageRoot));
+};
+
+/**
+ * Analyzes every pair that differs between the two snapshots
+ */
+export const compareRefs = async (
+  base: RepoStructure,
+  head: RepoStructure,
+  loadContent: ContentLoader,
+  concurrency = 4
+): Promise<RefComparison> => {
+  const basePairs = new Map(base.pairs.map(p => [p.id, p]));
+  const headPairs = new Map(head.pairs.map(p => [p.id, p]));
+  const paths = [...new Set([...basePairs.keys(), ...headPairs.keys()])].sort();
+  const changed = paths.filter(path => !isUnchanged(basePairs.get(path), headPairs.get(path)));
+
+  const files = await mapWithConcurrency(changed, concurrency, async (path): Promise<FileComparison> => {
+    const basePair = basePairs.get(path);
+    const headPair = headPairs.get(path);
+    try {
+      const [baseReport, headReport] = await Promise.all([
+        basePair ? analyzePair(basePair, base, loadContent) : Promise.resolve(undefined),
+        headPair ? analyzePair(headPair, head, loadContent) : Promise.resolve(undefined)
+      ]);
+      return compareReports(path, baseReport, headReport);
+    } catch (e: any) {
+      return {
+        path,
+        status: !basePair ? 'added' : !headPair ? 'removed' : 'modified',
+        coverageDelta: 0,
+        functions: [],
+        error: e.message || 'Failed to analyze file'
+      };
+    }
+  });
+
+  const summary: Record<FunctionDiffStatus, number> = { added: 0, removed: 0, newlyCovered: 0, newlyUncovered: 0, unchanged: 0 };
+  for (const file of files) {
+    for (const fn of file.functions) summary[fn.status]++;
+  }
+
+  return {
+    base: base.ref,
+    head: head.ref,
+    files,
+    unchangedFiles: paths.length - changed.length,
+    summary
+  };
+};
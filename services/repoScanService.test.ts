@@ -0,0 +1,102 @@
+/**
+ * Repository Scan Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency, scanRepository } from './repoScanService';
+import { parsePubspecDependencies } from './repoStructure';
+import type { FilePair, RepoFile, RepoStructure, ScanProgress } from '../types';
+
+const noDependencies = parsePubspecDependencies('');
+
+const file = (path: string): RepoFile => ({ path, type: 'blob', url: path });
+
+const pair = (libPath: string, testPath: string | undefined, packageRoot = ''): FilePair => ({
+  id: libPath,
+  name: libPath.split('/').pop()!.replace('.dart', ''),
+  libFile: file(libPath),
+  testFile: testPath ? file(testPath) : undefined,
+  matchType: testPath ? 'exact' : 'none',
+  packageRoot
+});
+
+const CONTENT: Record<string, string> = {
+  'lib/cart_cubit.dart': `class CartCubit extends Cubit<int> {
+  void add() {}
+  void clear() {}
+}`,
+  'test/cart_cubit_test.dart': `void main() { test('add', () { final c = CartCubit(); c.add(); expect(c.state, 1); }); }`,
+  'packages/core/lib/src/math.dart': `int square(int a) => a * a;
+int cube(int a) => a * a * a;`,
+  'packages/core/test/src/math_test.dart': `void main() { test('square', () { expect(square(2), equals(4)); }); }`,
+};
+
+const STRUCTURE: RepoStructure = {
+  pairs: [
+    pair('lib/cart_cubit.dart', 'test/cart_cubit_test.dart'),
+    pair('packages/core/lib/src/math.dart', 'packages/core/test/src/math_test.dart', 'packages/core/'),
+    pair('lib/missing.dart', undefined),
+  ],
+  unpairedTests: [],
+  packages: { '': noDependencies, 'packages/core/': noDependencies },
+  rootPackageName: 'app',
+  workspace: { packages: { app: '', core: 'packages/core/' } },
+  fileMap: {},
+  coverageFiles: []
+};
+
+const loadContent = async (f: RepoFile): Promise<string> => {
+  if (!(f.path in CONTENT)) throw new Error(`404 ${f.path}`);
+  return CONTENT[f.path];
+};
+
+describe('scanRepository', () => {
+  it('should roll results up by package, directory and architecture', async () => {
+    const report = await scanRepository(STRUCTURE, loadContent);
+
+    expect(report.totals).toMatchObject({ files: 2, totalFunctions: 4, testedFunctions: 2, coveragePercentage: 50 });
+    expect(report.byPackage.map(r => [r.key, r.testedFunctions, r.totalFunctions])).toEqual([
+      ['.', 1, 2],
+      ['packages/core/', 1, 2],
+    ]);
+    expect(report.byDirectory.map(r => r.key)).toEqual(['lib', 'packages/core/lib/src']);
+    expect(report.byArchitecture.map(r => r.key)).toEqual(['cubit', 'generic']);
+  });
+
+  it('should record failures without aborting the scan', async () => {
+    const report = await scanRepository(STRUCTURE, loadContent);
+    const missing = report.files.find(f => f.path === 'lib/missing.dart')!;
+    expect(missing.error).toContain('404');
+    expect(report.failedFiles).toBe(1);
+  });
+
+  it('should analyze packages that have no pubspec when the repository has none either', async () => {
+    const report = await scanRepository({ ...STRUCTURE, packages: {} }, loadContent);
+
+    expect(report.failedFiles).toBe(1);
+    expect(report.totals).toMatchObject({ files: 2, totalFunctions: 4, testedFunctions: 2 });
+  });
+
+  it('should report progress for every file', async () => {
+    const progress: ScanProgress[] = [];
+    await scanRepository(STRUCTURE, loadContent, { concurrency: 2, onProgress: p => progress.push(p) });
+    expect(progress[0]).toEqual({ completed: 0, total: 3 });
+    expect(progress[progress.length - 1].completed).toBe(3);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should keep order and never exceed the limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([5, 1, 3, 2, 4], 2, async (n) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, n));
+      inFlight--;
+      return n * 10;
+    });
+    expect(results).toEqual([50, 10, 30, 20, 40]);
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,176 @@
+import { CoverageRollup, FileCoverageResult, FilePair, LcovReport, RepoCoverageReport, RepoFile, RepoStructure, ScanProgress, StrengthBreakdown } from "../types";
+import { analyzeFlutterCoverageStatic } from "./analysisEngine";
+import { findLcovFile } from "./lcovService";
+import { dependenciesFor } from "./repoStructure";
+
+/**
+ * Repository-wide Scan
+ *
+ * Runs the static analysis over every FilePair and rolls the results up into
+ * package, directory and architecture totals.
+ */
+
+export type ContentLoader = (file: RepoFile) => Promise<string>;
+
+export interface ScanOptions {
+  concurrency?: number;
+  onProgress?: (progress: ScanProgress) => void;
+  lcov?: LcovReport | null;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Maps items through an async function with at most `limit` calls in flight,
+ * keeping results in input order
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+};
+
+const directoryOf = (path: string): string => {
+  const slash = path.lastIndexOf('/');
+  return slash >= 0 ? path.slice(0, slash) : '.';
+};
+
+const emptyBreakdown = (): StrengthBreakdown => ({ none: 0, weak: 0, partial: 0, strong: 0 });
+
+/**
+ * Fetches and analyzes a single pair. Failures are recorded on the result
+ * so one unreadable file does not abort the whole scan.
+ */
+export const scanPair = async (
+  pair: FilePair,
+  structure: RepoStructure,
+  loadContent: ContentLoader,
+  lcov?: LcovReport | null
+): Promise<FileCoverageResult> => {
+  const base: FileCoverageResult = {
+    pairId: pair.id,
+    path: pair.libFile.path,
+    packageRoot: pair.packageRoot,
+    packageName: pair.packageName,
+    directory: directoryOf(pair.libFile.path),
+    architectureType: 'generic',
+    hasTestFile: !!pair.testFile,
+    totalFunctions: 0,
+    testedFunctions: 0,
+    coveragePercentage: 0,
+    strengthBreakdown: emptyBreakdown(),
+    complexity: 0
+  };
+
+  try {
+    const [prodCode, testCode] = await Promise.all([
+      loadContent(pair.libFile),
+      pair.testFile ? loadContent(pair.testFile) : Promise.resolve('')
+    ]);
+    const dependencies = dependenciesFor(structure, pair.packageRoot);
+    const lcovFile = lcov ? findLcovFile(lcov, pair.libFile.path) : undefined;
+    const report = analyzeFlutterCoverageStatic(prodCode, testCode, dependencies, lcovFile);
+
+    return {
+      ...base,
+      architectureType: report.architectureType,
+      totalFunctions: report.totalFunctions,
+      testedFunctions: report.testedFunctions,
+      coveragePercentage: report.coveragePercentage,
+      strengthBreakdown: report.strengthBreakdown,
+      complexity: report.functions.reduce((sum, f) => sum + f.complexity, 0),
+      measured: report.measured
+    };
+  } catch (e: any) {
+    return { ...base, error: e.message || 'Failed to analyze file' };
+  }
+};
+
+/**
+ * Sums function counts per key. Percentages are weighted by function count,
+ * so a large file moves the total more than a tiny one.
+ */
+export const rollUp = (
+  files: FileCoverageResult[],
+  keyOf: (file: FileCoverageResult) => string,
+  labelOf: (file: FileCoverageResult) => string | undefined = () => undefined
+): CoverageRollup[] => {
+  const groups = new Map<string, CoverageRollup>();
+
+  for (const file of files) {
+    if (file.error) continue;
+    const key = keyOf(file);
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, label: labelOf(file), files: 0, totalFunctions: 0, testedFunctions: 0, coveragePercentage: 0, strengthBreakdown: emptyBreakdown() };
+      groups.set(key, group);
+    }
+    group.files++;
+    group.totalFunctions += file.totalFunctions;
+    group.testedFunctions += file.testedFunctions;
+    for (const level of Object.keys(group.strengthBreakdown) as (keyof StrengthBreakdown)[]) {
+      group.strengthBreakdown[level] += file.strengthBreakdown[level];
+    }
+  }
+
+  return [...groups.values()]
+    .map(group => ({
+      ...group,
+      coveragePercentage: group.totalFunctions > 0 ? Math.round((group.testedFunctions / group.totalFunctions) * 100) : 0
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+};
+
+/**
+ * Builds the dashboard report from per-file results
+ */
+export const summarizeScan = (files: FileCoverageResult[]): RepoCoverageReport => ({
+  files,
+  totals: rollUp(files, () => 'total')[0] ?? {
+    key: 'total', files: 0, totalFunctions: 0, testedFunctions: 0, coveragePercentage: 0, strengthBreakdown: emptyBreakdown()
+  },
+  byPackage: rollUp(files, f => f.packageRoot || '.', f => f.packageName),
+  byDirectory: rollUp(files, f => f.directory),
+  byArchitecture: rollUp(files, f => f.architectureType),
+  failedFiles: files.filter(f => f.error).length,
+  scannedAt: new Date().toISOString()
+});
+
+/**
+ * Analyzes every pair in the repository with bounded concurrency
+ */
+export const scanRepository = async (
+  structure: RepoStructure,
+  loadContent: ContentLoader,
+  options: ScanOptions = {}
+): Promise<RepoCoverageReport> => {
+  const { concurrency = DEFAULT_CONCURRENCY, onProgress, lcov, signal } = options;
+  const total = structure.pairs.length;
+  let completed = 0;
+
+  onProgress?.({ completed, total });
+
+  const files = await mapWithConcurrency(structure.pairs, concurrency, async (pair) => {
+    if (signal?.aborted) throw new Error('Scan cancelled');
+    const result = await scanPair(pair, structure, loadContent, lcov);
+    completed++;
+    onProgress?.({ completed, total, current: pair.libFile.path });
+    return result;
+  });
+
+  return summarizeScan(files);
+};
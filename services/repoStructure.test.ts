@@ -0,0 +1,155 @@
+/**
+ * Repository Structure Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildRepoStructure, dependencyConstraint, minimumVersion, parsePubspecDependencies, resolveImportPath } from './repoStructure';
+import type { RepoFile } from '../types';
+
+const files = (...paths: string[]): RepoFile[] => paths.map(path => ({ path, type: 'blob', url: path }));
+
+describe('buildRepoStructure', () => {
+  it('should pair exact, fuzzy and missing tests against the nearest package root', () => {
+    const structure = buildRepoStructure(
+      files(
+        'pubspec.yaml',
+        'lib/src/cart.dart',
+        'lib/src/cart.g.dart',
+        'test/src/cart_test.dart',
+        'packages/core/pubspec.yaml',
+        'packages/core/lib/math.dart',
+        'packages/core/test/unit/math_test.dart',
+        'packages/core/lib/strings.dart',
+        'test/orphan_test.dart'
+      ),
+      { 'pubspec.yaml': 'name: shop\ndev_dependencies:\n  mocktail: ^1.0.0\n', 'packages/core/pubspec.yaml': 'name: core\n' }
+    );
+
+    const byId = Object.fromEntries(structure.pairs.map(p => [p.id, p]));
+    expect(Object.keys(byId).sort()).toEqual(['lib/src/cart.dart', 'packages/core/lib/math.dart', 'packages/core/lib/strings.dart']);
+    expect(byId['lib/src/cart.dart']).toMatchObject({ matchType: 'exact', packageRoot: '' });
+    expect(byId['packages/core/lib/math.dart']).toMatchObject({ matchType: 'fuzzy', packageRoot: 'packages/core/' });
+    expect(byId['packages/core/lib/strings.dart'].matchType).toBe('none');
+    expect(structure.unpairedTests.map(t => t.path)).toEqual(['test/orphan_test.dart']);
+    expect(structure.rootPackageName).toBe('shop');
+    expect(structure.packages[''].hasMocktail).toBe(true);
+  });
+
+  it('should fall back to a default root package without pubspecs', () => {
+    const structure = buildRepoStructure(files('lib/a.dart', 'coverage/lcov.info'), {});
+    expect(Object.keys(structure.packages)).toEqual(['']);
+    expect(structure.rootPackageName).toBe('app');
+    expect(structure.coverageFiles.map(f => f.path)).toEqual(['coverage/lcov.info']);
+  });
+});
+
+describe('parsePubspecDependencies', () => {
+  const PUBSPEC = `
+name: shop
+environment:
+  sdk: ">=3.2.0 <4.0.0"
+  flutter: ^3.16.0
+
+dependencies:
+  flutter:
+    sdk: flutter
+  core:
+    path: ../core
+  dio: ^5.4.0
+  # hive: ^2.2.3
+
+dev_dependencies:
+  flutter_test:
+    sdk: flutter
+  mockito: 5.4.4
+  golden_toolkit:
+  patrol:
+    hosted: https://pub.dev
+    version: ^3.0.0
+
+dependency_overrides:
+  mocktail: ^1.0.0
+`;
+
+  it('should read the name, SDK constraints and both dependency sections', () => {
+    const deps = parsePubspecDependencies(PUBSPEC);
+
+    expect(deps.name).toBe('shop');
+    expect(deps.environment).toEqual({ sdk: '>=3.2.0 <4.0.0', flutter: '^3.16.0' });
+    expect(deps.dependencies).toEqual({ flutter: 'sdk: flutter', core: 'path: ../core', dio: '^5.4.0' });
+    expect(deps.devDependencies).toEqual({ flutter_test: 'sdk: flutter', mockito: '5.4.4', golden_toolkit: 'any', patrol: '^3.0.0' });
+    expect(dependencyConstraint(deps, 'mockito')).toBe('5.4.4');
+  });
+
+  it('should ignore commented-out entries and dependency_overrides', () => {
+    const deps = parsePubspecDependencies(PUBSPEC);
+
+    expect(deps).toMatchObject({ hasMockito: true, hasFlutterTest: true, hasGoldenToolkit: true, hasPatrol: true });
+    expect(deps).toMatchObject({ hasHive: false, hasMocktail: false, hasAlchemist: false, hasFakeAsync: false });
+  });
+
+  it('should read the lowest version a constraint allows', () => {
+    expect(minimumVersion('^5.4.0')).toEqual({ major: 5, minor: 4 });
+    expect(minimumVersion('>=4.1.0 <6.0.0')).toEqual({ major: 4, minor: 1 });
+    expect(minimumVersion('any')).toBeUndefined();
+    expect(minimumVersion('path: ../core')).toBeUndefined();
+  });
+});
+
+describe('workspaces', () => {
+  const MONOREPO = files(
+    'pubspec.yaml',
+    'packages/core/pubspec.yaml',
+    'packages/core/lib/math.dart',
+    'packages/core/example/pubspec.yaml',
+    'packages/core/example/lib/main.dart',
+    'packages/legacy/pubspec.yaml',
+    'apps/shop/pubspec.yaml',
+    'apps/shop/lib/cart.dart'
+  );
+  const PUBSPECS = {
+    'packages/core/pubspec.yaml': 'name: core\n',
+    'packages/core/example/pubspec.yaml': 'name: core_example\n',
+    'packages/legacy/pubspec.yaml': 'name: legacy\n',
+    'apps/shop/pubspec.yaml': 'name: shop\n',
+  };
+
+  it('should read members from the pub workspace and group files by member', () => {
+    const structure = buildRepoStructure(MONOREPO, {
+      ...PUBSPECS,
+      'pubspec.yaml': 'name: monorepo\nworkspace:\n  - packages/core\n  - apps/*\n',
+    });
+
+    expect(structure.workspace).toEqual({ kind: 'pub', packages: { monorepo: '', core: 'packages/core/', shop: 'apps/shop/' } });
+    expect(Object.fromEntries(structure.pairs.map(p => [p.id, p.packageName]))).toEqual({
+      'packages/core/lib/math.dart': 'core',
+      'packages/core/example/lib/main.dart': 'core',
+      'apps/shop/lib/cart.dart': 'shop',
+    });
+  });
+
+  it('should read melos package globs and ignores', () => {
+    const melos = "name: monorepo\npackages:\n  - packages/**\n  - 'apps/*'\nignore:\n  - packages/legacy\n";
+    const structure = buildRepoStructure(MONOREPO, { ...PUBSPECS, 'pubspec.yaml': 'name: monorepo\n' }, melos);
+
+    expect(structure.workspace.kind).toBe('melos');
+    expect(Object.keys(structure.workspace.packages).sort()).toEqual(['core', 'core_example', 'monorepo', 'shop']);
+  });
+
+  it('should treat every pubspec as a package without a workspace', () => {
+    const structure = buildRepoStructure(MONOREPO, PUBSPECS);
+
+    expect(structure.workspace.kind).toBeUndefined();
+    expect(structure.workspace.packages.legacy).toBe('packages/legacy/');
+    expect(structure.pairs.find(p => p.id === 'packages/core/example/lib/main.dart')?.packageName).toBe('core_example');
+  });
+
+  it('should resolve imports of any workspace package', () => {
+    const packages = { shop: 'apps/shop/', core: 'packages/core/' };
+
+    expect(resolveImportPath('package:core/math.dart', 'apps/shop/lib/cart.dart', packages)).toBe('packages/core/lib/math.dart');
+    expect(resolveImportPath('package:shop/src/a.dart', 'apps/shop/lib/cart.dart', packages)).toBe('apps/shop/lib/src/a.dart');
+    expect(resolveImportPath('../util.dart', 'apps/shop/lib/src/cart.dart', packages)).toBe('apps/shop/lib/util.dart');
+    expect(resolveImportPath('package:flutter/material.dart', 'apps/shop/lib/cart.dart', packages)).toBeNull();
+  });
+});
@@ -0,0 +1,283 @@
+import { FilePair, MatchType, PackageDependencies, RepoFile, RepoStructure, Workspace } from '../types';
+import { YamlValue, asYamlMap, parseYaml } from './yamlParser';
+
+/**
+ * Repository Structure
+ *
+ * Source-agnostic pairing of lib/ files with their tests. Shared by the hosted
+ * providers, the browser's local sources and the CLI so all see the same
+ * pairs and package roots.
+ */
+
+// Build output and installed packages; hidden folders such as .dart_tool and .git are skipped as well
+export const IGNORED_DIRECTORIES = new Set(['build', 'node_modules']);
+
+export const isIgnoredDirectory = (name: string): boolean =>
+  name.startsWith('.') || IGNORED_DIRECTORIES.has(name);
+
+/**
+ * Dart files worth analyzing (generated code is skipped)
+ */
+export const isAnalyzableDartFile = (file: RepoFile): boolean =>
+  file.path.endsWith('.dart') &&
+  file.type === 'blob' &&
+  !file.path.endsWith('.g.dart') &&
+  !file.path.endsWith('.freezed.dart') &&
+  !file.path.endsWith('.config.dart');
+
+/**
+ * Describes one dependency entry: hosted packages give their version constraint
+ * ('any' when left blank), sdk, path and git packages their source.
+ */
+const describeDependency = (spec: YamlValue): string => {
+  if (typeof spec === 'string') return spec;
+  const source = asYamlMap(spec);
+  if (typeof source.version === 'string') return source.version;
+  if (typeof source.sdk === 'string') return `sdk: ${source.sdk}`;
+  if (typeof source.path === 'string') return `path: ${source.path}`;
+  if ('git' in source) return 'git';
+  return 'any';
+};
+
+const readDependencies = (section: YamlValue | undefined): Record<string, string> =>
+  Object.fromEntries(Object.entries(asYamlMap(section)).map(([name, spec]) => [name, describeDependency(spec)]));
+
+/**
+ * Reads a pubspec.yaml. Only dependencies and dev_dependencies count towards
+ * the has* flags; dependency_overrides and commented-out entries are ignored.
+ */
+export const parsePubspecDependencies = (yamlContent: string): PackageDependencies => {
+  const pubspec = asYamlMap(parseYaml(yamlContent));
+  const environment = asYamlMap(pubspec.environment);
+  const dependencies = readDependencies(pubspec.dependencies);
+  const devDependencies = readDependencies(pubspec.dev_dependencies);
+  const has = (...names: string[]) => names.some(name => Object.hasOwn(dependencies, name) || Object.hasOwn(devDependencies, name));
+
+  return {
+    name: typeof pubspec.name === 'string' ? pubspec.name : undefined,
+    environment: {
+      sdk: typeof environment.sdk === 'string' ? environment.sdk : undefined,
+      flutter: typeof environment.flutter === 'string' ? environment.flutter : undefined,
+    },
+    dependencies,
+    devDependencies,
+    hasMockito: has('mockito'),
+    hasMocktail: has('mocktail'),
+    hasBlocTest: has('bloc_test'),
+    hasRiverpod: has('flutter_riverpod', 'hooks_riverpod'),
+    hasFreezed: has('freezed', 'freezed_annotation'),
+    hasAutoRoute: has('auto_route'),
+    hasHive: has('hive'),
+    hasFlutterTest: has('flutter_test'),
+    hasIntegrationTest: has('integration_test'),
+    hasGoldenToolkit: has('golden_toolkit'),
+    hasAlchemist: has('alchemist'),
+    hasPatrol: has('patrol'),
+    hasFakeAsync: has('fake_async'),
+    hasClock: has('clock'),
+    hasHttpMockAdapter: has('http_mock_adapter'),
+  };
+};
+
+/**
+ * Lowest version a constraint allows, e.g. 5.4 for '^5.4.0' or '>=5.4.0 <6.0.0'.
+ * Undefined for 'any', upper-bound-only constraints and non-hosted packages.
+ */
+export const minimumVersion = (constraint: string | undefined): { major: number; minor: number } | undefined => {
+  const match = constraint?.match(/^\s*(?:\^|>=|>|=)?\s*(\d+)\.(\d+)/);
+  return match ? { major: Number(match[1]), minor: Number(match[2]) } : undefined;
+};
+
+/**
+ * Version constraint of a package used by this pubspec, from either dependency section.
+ */
+export const dependencyConstraint = (deps: PackageDependencies, name: string): string | undefined =>
+  Object.hasOwn(deps.devDependencies, name) ? deps.devDependencies[name] :
+  Object.hasOwn(deps.dependencies, name) ? deps.dependencies[name] : undefined;
+
+/**
+ * Dependencies of the package a pair belongs to, falling back to the root
+ * pubspec and then to an empty one when neither exists
+ */
+export const dependenciesFor = (structure: RepoStructure, packageRoot: string): PackageDependencies =>
+  structure.packages[packageRoot] || structure.packages[''] || parsePubspecDependencies('');
+
+export const MELOS_CONFIG_PATH = 'melos.yaml';
+
+// Workspace globs: `*` stays within a directory, `**` spans any depth
+const globToRegExp = (glob: string): RegExp => new RegExp('^' + glob
+  .replace(/^\.\//, '')
+  .replace(/\/+$/, '')
+  .split('/')
+  .map(segment => segment === '**' ? '.*' : segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]'))
+  .join('/') + '$');
+
+const readGlobs = (value: YamlValue | undefined): RegExp[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string').map(globToRegExp) : [];
+
+/**
+ * Finds the workspace members among the package roots: the root pubspec's
+ * `workspace:` list, otherwise the `packages:` globs of melos.yaml. Without
+ * either, every package counts.
+ * @param packages package root -> parsed pubspec
+ */
+export const readWorkspace = (packages: Record<string, PackageDependencies>, rootPubspec?: string, melosConfig?: string): Workspace => {
+  const roots = Object.keys(packages);
+  const memberRoots = (include: RegExp[], exclude: RegExp[] = []) => roots.filter(root => {
+    const dir = root.replace(/\/$/, '');
+    return root === '' || (include.some(glob => glob.test(dir)) && !exclude.some(glob => glob.test(dir)));
+  });
+
+  let kind: Workspace['kind'];
+  let members = roots;
+  const pubWorkspace = readGlobs(asYamlMap(parseYaml(rootPubspec ?? '')).workspace);
+  const melos = asYamlMap(parseYaml(melosConfig ?? ''));
+
+  if (pubWorkspace.length > 0) {
+    kind = 'pub';
+    members = memberRoots(pubWorkspace);
+  } else if (readGlobs(melos.packages).length > 0) {
+    kind = 'melos';
+    members = memberRoots(readGlobs(melos.packages), readGlobs(melos.ignore));
+  }
+
+  const named = members.flatMap(root => packages[root].name ? [[packages[root].name, root]] : []);
+  return { kind, packages: Object.fromEntries(named) };
+};
+
+/**
+ * Maps a `package:` or relative import to a repository path. `package:` imports
+ * resolve against any workspace package, not just the root one.
+ * @param workspacePackages package name -> package root
+ */
+export const resolveImportPath = (importUri: string, currentPath: string, workspacePackages: Record<string, string>): string | null => {
+  const packageImport = importUri.match(/^package:([^/]+)\/(.+)$/);
+  if (packageImport) {
+    const root = workspacePackages[packageImport[1]];
+    return root === undefined ? null : `${root}lib/${packageImport[2]}`;
+  }
+
+  // Anything without a scheme (dart:, package:, ...) is relative to the importing file
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(importUri)) {
+    const parts = currentPath.split('/');
+    parts.pop(); // remove filename
+
+    for (const part of importUri.split('/')) {
+      if (part === '.') continue;
+      if (part === '..') {
+        if (parts.length > 0) parts.pop();
+      } else {
+        parts.push(part);
+      }
+    }
+    return parts.join('/');
+  }
+
+  return null;
+};
+
+/**
+ * Builds pairs from a flat file listing.
+ * @param pubspecs pubspec.yaml path -> content, for the pubspecs that could be read
+ * @param melosConfig content of the root melos.yaml, when there is one
+ */
+export const buildRepoStructure = (allFiles: RepoFile[], pubspecs: Record<string, string>, melosConfig?: string): RepoStructure => {
+  const dartFiles = allFiles.filter(isAnalyzableDartFile);
+  const libFiles = dartFiles.filter(f => f.path.includes('lib/'));
+  const testFiles = dartFiles.filter(f => f.path.includes('test/'));
+
+  // Optimization: Map for O(1) lookup
+  const testFileMap = new Map<string, RepoFile>();
+  const testFilesByName = new Map<string, RepoFile[]>();
+  const allFilesMap: Record<string, RepoFile> = {}; // For Dependency Resolution
+
+  allFiles.forEach(f => {
+    allFilesMap[f.path] = f;
+  });
+
+  testFiles.forEach(f => {
+    testFileMap.set(f.path, f);
+    const name = f.path.split('/').pop();
+    if (name) {
+      if (!testFilesByName.has(name)) {
+        testFilesByName.set(name, []);
+      }
+      testFilesByName.get(name)?.push(f);
+    }
+  });
+
+  const packageDependencies: Record<string, PackageDependencies> = {};
+  let rootPackageName = 'app'; // Default
+
+  for (const [path, content] of Object.entries(pubspecs)) {
+    const dir = path.replace('pubspec.yaml', '');
+    const deps = parsePubspecDependencies(content);
+    packageDependencies[dir] = deps;
+
+    if (dir === '' && deps.name) rootPackageName = deps.name;
+  }
+
+  if (Object.keys(packageDependencies).length === 0) {
+    packageDependencies[''] = parsePubspecDependencies('');
+  }
+
+  // Files belong to the workspace member that contains them, so nested example
+  // apps and fixtures roll up into the package that owns them
+  const workspace = readWorkspace(packageDependencies, pubspecs['pubspec.yaml'], melosConfig);
+  const memberRoots = workspace.kind ? [...new Set(['', ...Object.values(workspace.packages)])] : Object.keys(packageDependencies);
+
+  const pairs: FilePair[] = [];
+  const usedTests = new Set<string>();
+
+  for (const lib of libFiles) {
+    const filename = lib.path.split('/').pop()?.replace('.dart', '');
+    if (!filename) continue;
+
+    // Find nearest package root
+    const packageRoot = memberRoots
+      .filter(root => lib.path.startsWith(root))
+      .sort((a, b) => b.length - a.length)[0] || '';
+
+    const relativeLibPath = lib.path.substring(packageRoot.length).replace(/^lib\//, '');
+    const exactTestPath = `${packageRoot}test/${relativeLibPath.replace(/\.dart$/, '_test.dart')}`;
+
+    let match = testFileMap.get(exactTestPath);
+    let type: MatchType = 'none';
+
+    if (match) {
+      type = 'exact';
+    } else {
+      const expectedTestName = `${filename}_test.dart`;
+      const candidates = testFilesByName.get(expectedTestName);
+      if (candidates && candidates.length > 0) {
+        match = candidates[0];
+        type = 'fuzzy';
+      }
+    }
+
+    if (match) usedTests.add(match.path);
+
+    pairs.push({
+      id: lib.path,
+      name: filename,
+      libFile: lib,
+      testFile: match,
+      matchType: type,
+      packageRoot: packageRoot,
+      packageName: packageDependencies[packageRoot]?.name
+    });
+  }
+
+  const unpairedTests = testFiles.filter(t => !usedTests.has(t.path));
+  const coverageFiles = allFiles.filter(f => f.type === 'blob' && f.path.endsWith('lcov.info'));
+
+  return {
+    pairs: pairs.sort((a, b) => a.matchType === 'none' ? -1 : 1),
+    unpairedTests,
+    packages: packageDependencies,
+    rootPackageName,
+    workspace,
+    fileMap: allFilesMap,
+    coverageFiles
+  };
+};
@@ -0,0 +1,68 @@
+/**
+ * Risk Scoring Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CHURN_WINDOW_DAYS, fetchChurn, scoreRisk } from './riskScore';
+import type { FileCoverageResult } from '../types';
+
+const result = (path: string, tested: number, total: number, complexity: number): FileCoverageResult => ({
+  pairId: path,
+  path,
+  packageRoot: '',
+  directory: path.slice(0, path.lastIndexOf('/')),
+  architectureType: 'generic',
+  hasTestFile: tested > 0,
+  totalFunctions: total,
+  testedFunctions: tested,
+  coveragePercentage: total > 0 ? Math.round((tested / total) * 100) : 0,
+  strengthBreakdown: { none: total - tested, weak: 0, partial: 0, strong: tested },
+  complexity
+});
+
+const FILES = [
+  result('lib/cart_bloc.dart', 1, 5, 120),
+  result('lib/checkout.dart', 0, 2, 40),
+  result('lib/format.dart', 3, 3, 10),
+  { ...result('lib/broken.dart', 0, 0, 0), error: 'Not Found' },
+];
+
+describe('scoreRisk', () => {
+  it('should rank files with untested functions by uncovered count and size', () => {
+    expect(scoreRisk(FILES).map(r => [r.path, r.uncoveredFunctions, r.score])).toEqual([
+      ['lib/cart_bloc.dart', 4, 100],
+      ['lib/checkout.dart', 2, 44],
+    ]);
+  });
+
+  it('should weigh churn in when commit counts are available', () => {
+    const churn = { commits: { 'lib/cart_bloc.dart': 1, 'lib/checkout.dart': 20 }, since: '2026-07-21T00:00:00.000Z', failed: 0 };
+    const risks = scoreRisk(FILES, churn);
+
+    expect(risks.map(r => [r.path, r.commits, r.score])).toEqual([
+      ['lib/cart_bloc.dart', 1, 76],
+      ['lib/checkout.dart', 20, 58],
+    ]);
+  });
+
+  it('should leave commits unset for files whose history could not be read', () => {
+    const risks = scoreRisk(FILES, { commits: { 'lib/checkout.dart': 3 }, since: '2026-07-21T00:00:00.000Z', failed: 1 });
+
+    expect(risks.find(r => r.path === 'lib/cart_bloc.dart')).not.toHaveProperty('commits');
+  });
+});
+
+describe('fetchChurn', () => {
+  it('should count commits within the window and record failures', async () => {
+    const now = new Date('2026-10-19T00:00:00.000Z');
+    const seen: string[] = [];
+    const churn = await fetchChurn(['lib/a.dart', 'lib/b.dart'], async (path: string, since: Date) => {
+      seen.push(since.toISOString());
+      if (path === 'lib/b.dart') throw new Error('rate limited');
+      return 7;
+    }, { now });
+
+    expect(churn).toEqual({ commits: { 'lib/a.dart': 7 }, since: new Date(now.getTime() - CHURN_WINDOW_DAYS * 86400000).toISOString(), failed: 1 });
+    expect(seen).toEqual([churn.since, churn.since]);
+  });
+});
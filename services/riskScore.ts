@@ -0,0 +1,86 @@
+import { ChurnReport, FileCoverageResult, FileRisk, ScanProgress } from "../types";
+import { mapWithConcurrency } from "./repoScanService";
+
+/**
+ * Risk Scoring
+ *
+ * Ranks scanned files by where missing tests hurt most: many untested
+ * functions, high cyclomatic complexity and frequent recent changes. Each
+ * input is scaled against the highest value in the repository, so scores
+ * compare files within one scan rather than across repositories.
+ */
+
+export const CHURN_WINDOW_DAYS = 90;
+
+// Untested functions matter most; complexity and churn decide between similar files
+export const RISK_WEIGHTS = { uncovered: 0.5, complexity: 0.25, churn: 0.25 };
+
+const DEFAULT_CONCURRENCY = 4;
+
+export type CommitCounter = (path: string, since: Date) => Promise<number>;
+
+export interface ChurnOptions {
+  concurrency?: number;
+  onProgress?: (progress: ScanProgress) => void;
+  signal?: AbortSignal;
+  now?: Date;
+}
+
+/**
+ * Reads recent commit counts for the given paths. Paths whose history cannot
+ * be read are counted as failed and left out rather than aborting the rest.
+ */
+export const fetchChurn = async (paths: string[], countCommits: CommitCounter, options: ChurnOptions = {}): Promise<ChurnReport> => {
+  const { concurrency = DEFAULT_CONCURRENCY, onProgress, signal, now = new Date() } = options;
+  const since = new Date(now.getTime() - CHURN_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const commits: Record<string, number> = {};
+  let failed = 0;
+  let completed = 0;
+
+  onProgress?.({ completed, total: paths.length });
+
+  await mapWithConcurrency(paths, concurrency, async (path) => {
+    if (signal?.aborted) throw new Error('Churn lookup cancelled');
+    try {
+      commits[path] = await countCommits(path, since);
+    } catch (e) {
+      failed++;
+    }
+    completed++;
+    onProgress?.({ completed, total: paths.length, current: path });
+  });
+
+  return { commits, since: since.toISOString(), failed };
+};
+
+/**
+ * Scores every file that has untested functions, riskiest first. Without
+ * churn the remaining weights are scaled up to still reach 100.
+ */
+export const scoreRisk = (files: FileCoverageResult[], churn: ChurnReport | null = null): FileRisk[] => {
+  const candidates = files
+    .filter(f => !f.error && f.testedFunctions < f.totalFunctions)
+    .map(f => ({
+      pairId: f.pairId,
+      path: f.path,
+      uncoveredFunctions: f.totalFunctions - f.testedFunctions,
+      complexity: f.complexity,
+      ...(churn && f.path in churn.commits ? { commits: churn.commits[f.path] } : {})
+    }));
+
+  const max = (values: number[]) => Math.max(1, ...values);
+  const maxUncovered = max(candidates.map(c => c.uncoveredFunctions));
+  const maxComplexity = max(candidates.map(c => c.complexity));
+  const maxCommits = max(candidates.map(c => c.commits ?? 0));
+  const totalWeight = RISK_WEIGHTS.uncovered + RISK_WEIGHTS.complexity + (churn ? RISK_WEIGHTS.churn : 0);
+
+  return candidates
+    .map((candidate): FileRisk => {
+      const weighted =
+        RISK_WEIGHTS.uncovered * (candidate.uncoveredFunctions / maxUncovered) +
+        RISK_WEIGHTS.complexity * (candidate.complexity / maxComplexity) +
+        (churn ? RISK_WEIGHTS.churn * ((candidate.commits ?? 0) / maxCommits) : 0);
+      return { ...candidate, score: Math.round((weighted / totalWeight) * 100) };
+    })
+    .sort((a, b) => b.score - a.score || b.uncoveredFunctions - a.uncoveredFunctions || (a.path < b.path ? -1 : 1));
+};
@@ -0,0 +1,91 @@
+/**
+ * Source Provider Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseRepoUrl } from './sourceProvider';
+import { GitlabService } from './gitlabService';
+import { BitbucketService } from './bitbucketService';
+import { GithubClient } from './githubClient';
+import { MemoryCache } from './contentCache';
+
+const SHA = '0123456789abcdef0123456789abcdef01234567';
+
+const mockFetch = (routes: Record<string, { body: unknown; headers?: Record<string, string> }>) => {
+  const fetchMock = vi.fn(async (url: string, _init?: RequestInit) => {
+    const route = routes[url];
+    if (!route) return new Response('', { status: 404, statusText: 'Not Found' });
+    const body = typeof route.body === 'string' ? route.body : JSON.stringify(route.body);
+    return new Response(body, { status: 200, headers: route.headers });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseRepoUrl', () => {
+  it('should dispatch on the host', () => {
+    expect(parseRepoUrl('acme/shop')).toEqual({ provider: 'github', owner: 'acme', repo: 'shop' });
+    expect(parseRepoUrl('https://github.com/acme/shop/tree/main')).toEqual({ provider: 'github', owner: 'acme', repo: 'shop' });
+    expect(parseRepoUrl('https://bitbucket.org/acme/shop/src/main/')).toEqual({ provider: 'bitbucket', owner: 'acme', repo: 'shop' });
+  });
+
+  it('should keep nested GitLab groups in the owner', () => {
+    expect(parseRepoUrl('gitlab.com/acme/mobile/shop.git')).toEqual({ provider: 'gitlab', owner: 'acme/mobile', repo: 'shop' });
+    expect(parseRepoUrl('https://gitlab.com/acme/shop/-/tree/main/lib')).toEqual({ provider: 'gitlab', owner: 'acme', repo: 'shop' });
+  });
+});
+
+describe('GitlabService', () => {
+  const PROJECT = 'https://gitlab.com/api/v4/projects/acme%2Fmobile%2Fshop';
+
+  it('should list the tree across keyset pages and read base64 blobs', async () => {
+    const page2 = `${PROJECT}/repository/tree?ref=${SHA}&recursive=true&per_page=100&pagination=keyset&page_token=x`;
+    mockFetch({
+      [PROJECT]: { body: { default_branch: 'main' } },
+      [`${PROJECT}/repository/commits/main`]: { body: { id: SHA } },
+      [`${PROJECT}/repository/tree?ref=${SHA}&recursive=true&per_page=100&pagination=keyset`]: {
+        body: [{ id: 'a'.repeat(40), path: 'lib/cart.dart', type: 'blob' }, { id: 'b'.repeat(40), path: 'lib', type: 'tree' }],
+        headers: { Link: `<${page2}>; rel="next"` }
+      },
+      [page2]: { body: [{ id: 'c'.repeat(40), path: 'test/cart_test.dart', type: 'blob' }] },
+      [`${PROJECT}/repository/blobs/${'a'.repeat(40)}`]: { body: { size: 12, encoding: 'base64', content: btoa('class Cart {}') } },
+    });
+    const service = new GitlabService(undefined, new GithubClient(), new MemoryCache());
+
+    const structure = await service.fetchRepoTree('acme/mobile', 'shop');
+
+    expect(structure.ref).toEqual({ name: 'main', type: 'branch', sha: SHA });
+    expect(structure.pairs.map(p => [p.id, p.testFile?.path])).toEqual([['lib/cart.dart', 'test/cart_test.dart']]);
+    expect(structure.treeStats).toMatchObject({ totalFiles: 2, complete: true, requests: 2 });
+    expect(await service.fetchFileContent(structure.pairs[0].libFile.url)).toBe('class Cart {}');
+  });
+});
+
+describe('BitbucketService', () => {
+  const REPO = 'https://api.bitbucket.org/2.0/repositories/acme/shop';
+
+  it('should list the tree through the src API and read raw files', async () => {
+    const fetchMock = mockFetch({
+      [`${REPO}/commit/release%2F2.0`]: { body: { hash: SHA } },
+      [`${REPO}/src/${SHA}/?max_depth=30&pagelen=100`]: {
+        body: { values: [{ type: 'commit_directory', path: 'lib' }, { type: 'commit_file', path: 'lib/cart.dart', size: 13 }], next: `${REPO}/src/${SHA}/?page=2` }
+      },
+      [`${REPO}/src/${SHA}/?page=2`]: { body: { values: [{ type: 'commit_file', path: 'test/cart_test.dart', size: 20 }] } },
+      [`${REPO}/src/${SHA}/lib/cart.dart`]: { body: 'class Cart {}' },
+    });
+    const service = new BitbucketService(undefined, new GithubClient(), new MemoryCache());
+
+    const structure = await service.fetchRepoTree('acme', 'shop', 'release/2.0', 'tag');
+
+    expect(structure.ref).toEqual({ name: 'release/2.0', type: 'tag', sha: SHA });
+    expect(structure.pairs.map(p => [p.id, p.testFile?.path])).toEqual([['lib/cart.dart', 'test/cart_test.dart']]);
+    expect(await service.fetchFileContent(structure.pairs[0].libFile.url)).toBe('class Cart {}');
+    // Commit-pinned file URLs are cached
+    await service.fetchFileContent(structure.pairs[0].libFile.url);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,216 @@
+import { GitRef, GitRefType, LcovReport, RepoFile, RepoLocation, RepoStructure, TreeStats } from '../types';
+import { mergeLcovReports, parseLcov } from './lcovService';
+import { MELOS_CONFIG_PATH, buildRepoStructure } from './repoStructure';
+import { buildImportGraph } from './importGraph';
+import { GithubClient } from './githubClient';
+import { ContentCache } from './contentCache';
+import { ContentLoader } from './repoScanService';
+import { GithubHost, getGithubHost } from './githubHost';
+
+/**
+ * Source Providers
+ *
+ * Everything the app reads from a hosted repository goes through this
+ * interface, so GitHub, GitLab and Bitbucket differ only in how they list
+ * trees, read files and resolve refs.
+ */
+
+export const MAX_FILE_SIZE_BYTES = 1024 * 1024; // 1MB limit for source files
+export const MAX_COVERAGE_FILE_SIZE_BYTES = 20 * 1024 * 1024; // lcov.info grows with the whole package
+const MAX_PUBSPEC_SIZE_BYTES = 100000;
+const DEEP_CONTEXT_MAX_FILES = 25; // Dependencies sent as deep context, nearest imports first
+const BLOB_URL_SHA = /\/blobs\/([0-9a-f]{40})$/;
+
+export interface CachedBlob {
+  size: number;
+  content: string;
+}
+
+export interface SourceProvider {
+  readonly kind: RepoLocation['provider'];
+  fetchDefaultBranch(owner: string, repo: string): Promise<string>;
+  fetchRefs(owner: string, repo: string): Promise<GitRef[]>;
+  fetchRepoTree(owner: string, repo: string, ref?: string, refType?: GitRefType): Promise<RepoStructure>;
+  fetchFileContent(url: string, maxSizeBytes?: number): Promise<string>;
+  createContentLoader(owner: string, repo: string, ref: string): ContentLoader;
+  fetchCoverageReport(coverageFiles: RepoFile[]): Promise<LcovReport | null>;
+  fetchDeepDependencies(code: string, currentFilePath: string, workspacePackages: Record<string, string>, fileMap: Record<string, RepoFile>): Promise<Record<string, string>>;
+  fetchLinterRules(fileMap: Record<string, RepoFile>): Promise<string | undefined>;
+}
+
+export const isGithubHostname = (hostname: string, host: GithubHost): boolean =>
+  hostname.includes('github.com') || hostname === new URL(host.webUrl).hostname;
+
+/**
+ * Reads `owner/repo` (GitHub) or a repository URL on GitHub, GitLab or
+ * Bitbucket. GitLab owners keep every group level; `/-/` starts a sub-page.
+ */
+export const parseRepoUrl = (url: string, host: GithubHost = getGithubHost()): RepoLocation | null => {
+  if (!url) return null;
+  const trimmed = url.trim();
+
+  const simpleMatch = trimmed.match(/^([^/]+)\/([^/]+)$/);
+  if (simpleMatch) {
+      return { provider: 'github', owner: simpleMatch[1], repo: simpleMatch[2].replace(/\.git$/, '') };
+  }
+
+  try {
+    const urlToParse = trimmed.startsWith('http') ? trimmed : `https://${trimmed}`;
+    const urlObj = new URL(urlToParse);
+    const parts = urlObj.pathname.split('/').filter(Boolean);
+
+    if (urlObj.hostname.includes('gitlab.com')) {
+        const projectPath = parts.includes('-') ? parts.slice(0, parts.indexOf('-')) : parts;
+        if (projectPath.length >= 2) {
+            return { provider: 'gitlab', owner: projectPath.slice(0, -1).join('/'), repo: projectPath[projectPath.length - 1].replace(/\.git$/, '') };
+        }
+    } else if (urlObj.hostname.includes('bitbucket.org')) {
+        if (parts.length >= 2) {
+            return { provider: 'bitbucket', owner: parts[0], repo: parts[1].replace(/\.git$/, '') };
+        }
+    } else if (isGithubHostname(urlObj.hostname, host)) {
+        if (parts.length >= 2) {
+            return { provider: 'github', owner: parts[0], repo: parts[1].replace(/\.git$/, '') };
+        }
+    }
+  } catch (e) {
+    // Ignore parsing errors
+  }
+  
+  return null;
+};
+
+/**
+ * Shared behaviour for providers: blob decoding and caching, pubspec loading
+ * and everything derived from a file map
+ */
+export abstract class BaseSourceProvider implements SourceProvider {
+  abstract readonly kind: RepoLocation['provider'];
+
+  protected token?: string;
+  protected client: GithubClient;
+  protected cache: ContentCache;
+
+  constructor(token: string | undefined, client: GithubClient, cache: ContentCache) {
+    this.token = token;
+    this.client = client;
+    this.cache = cache;
+  }
+
+  protected abstract getHeaders(): Record<string, string>;
+  abstract fetchDefaultBranch(owner: string, repo: string): Promise<string>;
+  abstract fetchRefs(owner: string, repo: string): Promise<GitRef[]>;
+  abstract fetchRepoTree(owner: string, repo: string, ref?: string, refType?: GitRefType): Promise<RepoStructure>;
+
+  /**
+   * Reads a blob served as `{ size, encoding: 'base64', content }`, the shape
+   * GitHub and GitLab share. Blob URLs ending in a SHA are cached by it.
+   */
+  async fetchFileContent(url: string, maxSizeBytes: number = MAX_FILE_SIZE_BYTES): Promise<string> {
+    const blobSha = url.match(BLOB_URL_SHA)?.[1];
+    const cached = blobSha ? await this.cache.get<CachedBlob>('blob', blobSha) : undefined;
+    if (cached) return cached.size > maxSizeBytes ? "// File too large." : cached.content;
+
+    const response = await this.client.request(url, this.getHeaders());
+    if (!response.ok) throw new Error("Failed to fetch content");
+    const data = await response.json();
+    if (data.size > maxSizeBytes) return "// File too large.";
+    if (data.encoding === 'base64' && data.content) {
+      let content: string;
+      try {
+        content = decodeURIComponent(escape(atob(data.content.replace(/\s/g, ''))));
+      } catch (e) {
+        content = atob(data.content.replace(/\s/g, ''));
+      }
+      if (blobSha) await this.cache.put('blob', blobSha, { size: data.size, content });
+      return content;
+    }
+    throw new Error("Unknown encoding");
+  }
+
+  createContentLoader(_owner: string, _repo: string, _ref: string): ContentLoader {
+    return (file) => this.fetchFileContent(file.url);
+  }
+
+  /**
+   * Fetches committed lcov.info files and merges them into one report
+   */
+  async fetchCoverageReport(coverageFiles: RepoFile[]): Promise<LcovReport | null> {
+    const reports: LcovReport[] = [];
+
+    await Promise.all(coverageFiles.map(async (file) => {
+      try {
+        const content = await this.fetchFileContent(file.url, MAX_COVERAGE_FILE_SIZE_BYTES);
+        reports.push(parseLcov(content, file.path));
+      } catch (e) {
+        console.warn("Failed to load coverage", file.path);
+      }
+    }));
+
+    return reports.length > 0 ? mergeLcovReports(reports) : null;
+  }
+  /**
+   * Reads every pubspec.yaml in the listing and pairs the files into a structure
+   */
+  protected async buildStructure(allFiles: RepoFile[], ref: GitRef, treeStats: TreeStats): Promise<RepoStructure> {
+    // Locate pubspecs and read them for package names and dependencies
+    const pubspecFiles = allFiles.filter(f => f.path.endsWith('pubspec.yaml'));
+    const pubspecs: Record<string, string> = {};
+
+    await Promise.all(pubspecFiles.map(async (file) => {
+        if (file.size && file.size > MAX_PUBSPEC_SIZE_BYTES) return;
+        try {
+          pubspecs[file.path] = await this.fetchFileContent(file.url);
+        } catch (e) {
+          console.warn("Failed to parse pubspec", file.path);
+        }
+    }));
+
+    const melosFile = allFiles.find(f => f.path === MELOS_CONFIG_PATH);
+    let melosConfig: string | undefined;
+    if (melosFile) {
+      try {
+        melosConfig = await this.fetchFileContent(melosFile.url);
+      } catch (e) {
+        console.warn("Failed to read", MELOS_CONFIG_PATH);
+      }
+    }
+
+    return { ...buildRepoStructure(allFiles, pubspecs, melosConfig), ref, treeStats };
+  }
+
+  // A ref that is a prefix of the SHA it resolved to was a commit all along
+  protected refTypeOf(name: string, sha: string, refType: GitRefType): GitRefType {
+    return sha.startsWith(name.toLowerCase()) ? 'commit' : refType;
+  }
+
+  /**
+   * Contents of the files the given file depends on, transitively and nearest
+   * first, keyed by repository path
+   */
+  async fetchDeepDependencies(
+      code: string,
+      currentFilePath: string,
+      workspacePackages: Record<string, string>,
+      fileMap: Record<string, RepoFile>
+  ): Promise<Record<string, string>> {
+    const dependencies: Record<string, string> = {};
+    const load: ContentLoader = async (file) => {
+      if (file.path === currentFilePath) return code;
+      return dependencies[file.path] = await this.fetchFileContent(file.url);
+    };
+
+    await buildImportGraph([currentFilePath], { fileMap, workspacePackages, load, maxFiles: DEEP_CONTEXT_MAX_FILES + 1 });
+    return dependencies;
+  }
+
+  async fetchLinterRules(fileMap: Record<string, RepoFile>): Promise<string | undefined> {
+     const linterFile = fileMap['analysis_options.yaml'];
+     if (linterFile) {
+         try {
+             return await this.fetchFileContent(linterFile.url);
+         } catch (e) { return undefined; }
+     }
+     return undefined;
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Test File Analyzer Tests
+ *
+ * Verifies that coverage is attributed to calls on the system under test,
+ * not to stubbing or verification of mocks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeTestFile, findCallSites, TestTarget } from './testFileAnalyzer';
+import { findTestsForFunction } from './analysisEngine';
+
+const fetchUser: TestTarget = { name: 'fetchUser', kind: 'method', owner: 'UserRepository', ownerKind: 'class', isStatic: false };
+const fetchProfile: TestTarget = { name: 'fetchProfile', kind: 'method', owner: 'UserRepository', ownerKind: 'class', isStatic: false };
+
+const REPOSITORY_TEST = `
+import 'package:mocktail/mocktail.dart';
+
+class MockApiClient extends Mock implements ApiClient {}
+class MockUserRepository extends Mock implements UserRepository {}
+
+void main() {
+  late MockApiClient api;
+  late UserRepository repository;
+
+  setUp(() {
+    api = MockApiClient();
+    repository = UserRepository(api);
+  });
+
+  test('returns the user from the api', () async {
+    when(() => api.fetchUser(1)).thenAnswer((_) async => user);
+    final result = await repository.fetchUser(1);
+    expect(result, equals(user));
+  });
+
+  test('profile screen uses a stubbed repository', () {
+    final mockRepo = MockUserRepository();
+    when(() => mockRepo.fetchProfile()).thenReturn(profile);
+  });
+}
+`;
+
+describe('analyzeTestFile', () => {
+  it('should find test cases with their names and spans', () => {
+    const model = analyzeTestFile(REPOSITORY_TEST);
+    expect(model.tests.map(t => [t.kind, t.name, t.lineStart])).toEqual([
+      ['test', 'returns the user from the api', 16],
+      ['test', 'profile screen uses a stubbed repository', 22],
+    ]);
+  });
+
+  it('should detect mock classes declared or generated in the file', () => {
+    const model = analyzeTestFile(`
+@GenerateNiceMocks([MockSpec<AuthService>(), MockSpec<Storage>(as: #FakeStorage)])
+@GenerateMocks([HttpClient])
+void main() {}
+class MockBloc extends MockCubit<int> implements CounterCubit {}
+`);
+    expect([...model.mockClasses].sort()).toEqual(['FakeStorage', 'MockAuthService', 'MockBloc', 'MockHttpClient']);
+  });
+});
+
+describe('findCallSites', () => {
+  it('should count calls on the system under test', () => {
+    const model = analyzeTestFile(REPOSITORY_TEST);
+    const { calls } = findCallSites(model, fetchUser);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].receiver).toBe('repository');
+    expect(calls[0].test?.name).toBe('returns the user from the api');
+    expect(calls[0].line).toBe(18);
+  });
+
+  it('should not count stubbing a mock as coverage', () => {
+    const model = analyzeTestFile(REPOSITORY_TEST);
+    const { calls, stubs } = findCallSites(model, fetchProfile);
+    expect(calls).toHaveLength(0);
+    expect(stubs.map(s => s.receiver)).toEqual(['mockRepo']);
+  });
+
+  it('should treat the blocTest build subject as the system under test', () => {
+    const model = analyzeTestFile(`
+void main() {
+  blocTest<CounterCubit, int>(
+    'emits 1 when incremented',
+    build: () => CounterCubit(),
+    act: (cubit) => cubit.increment(),
+    expect: () => [1],
+  );
+}
+`);
+    const increment: TestTarget = { name: 'increment', kind: 'method', owner: 'CounterCubit', ownerKind: 'class', isStatic: false };
+    const { calls } = findCallSites(model, increment);
+    expect(calls.map(c => c.test?.name)).toEqual(['emits 1 when incremented']);
+  });
+
+  it('should resolve cascades, constructions and static calls', () => {
+    const model = analyzeTestFile(`
+void main() {
+  test('cascade', () {
+    final cart = Cart()..add(item)..clear();
+    expect(Cart.empty().total, 0);
+    expect(Cart.fromItems([]).isEmpty, isTrue);
+  });
+}
+`);
+    const target = (name: string, extra: Partial<TestTarget> = {}): TestTarget =>
+      ({ name, kind: 'method', owner: 'Cart', ownerKind: 'class', isStatic: false, ...extra });
+
+    expect(findCallSites(model, target('add')).calls).toHaveLength(1);
+    expect(findCallSites(model, target('clear')).calls).toHaveLength(1);
+    expect(findCallSites(model, target('total', { kind: 'getter' })).calls).toHaveLength(1);
+    expect(findCallSites(model, target('empty', { isStatic: true })).calls).toHaveLength(1);
+    expect(findCallSites(model, target('Cart.fromItems', { kind: 'factory' })).calls).toHaveLength(1);
+  });
+
+  it('should tell a getter and a setter of the same name apart', () => {
+    const label = (kind: TestTarget['kind']): TestTarget =>
+      ({ name: 'label', kind, owner: 'Badge', ownerKind: 'class', isStatic: false });
+    const writes = analyzeTestFile(`
+void main() {
+  test('assigns', () {
+    final sut = Badge();
+    sut.label = 'a';
+    sut..label += 'b';
+  });
+}
+`);
+    const reads = analyzeTestFile(`
+void main() {
+  test('reads', () {
+    final sut = Badge();
+    expect(sut.label, '');
+  });
+}
+`);
+
+    expect(findCallSites(writes, label('setter')).calls.map(c => c.line)).toEqual([5, 6]);
+    expect(findCallSites(writes, label('getter')).calls).toHaveLength(0);
+    expect(findCallSites(reads, label('getter')).calls.map(c => c.line)).toEqual([5]);
+    expect(findCallSites(reads, label('setter')).calls).toHaveLength(0);
+  });
+});
+
+describe('findTestsForFunction', () => {
+  it('should explain which test and line made the call', () => {
+    const result = findTestsForFunction(fetchUser, REPOSITORY_TEST);
+    expect(result.isTested).toBe(true);
+    expect(result.testCount).toBe(1);
+    expect(result.details).toEqual([`Called on repository in 'returns the user from the api' (line 18)`]);
+  });
+
+  it('should explain when a function is only stubbed', () => {
+    const result = findTestsForFunction(fetchProfile, REPOSITORY_TEST);
+    expect(result.isTested).toBe(false);
+    expect(result.details[0]).toContain('Only stubbed on mock mockRepo');
+  });
+});
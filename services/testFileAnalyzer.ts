@@ -0,0 +1,462 @@
+/**
+ * Test File Analyzer
+ *
+ * Builds a model of a Dart test file: its test cases, which variables hold
+ * the system under test (SUT) and which hold mocks, and every member access
+ * together with the receiver it was made on. Coverage matching uses this
+ * model so that stubbing a dependency (`when(() => mockRepo.fetchUser())`)
+ * no longer counts as testing `fetchUser`.
+ */
+
+import { DartMemberKind, DartToken, findClosingToken, findOpeningToken, parseDartSource, tokenizeDart } from './dartParser';
+import type { OwnerKind } from '../types';
+
+export type AssertionKind = 'expect' | 'expectLater' | 'verify' | 'blocExpect' | 'blocErrors';
+
+export interface TestAssertion {
+  kind: AssertionKind;
+  matcher: string; // Leading matcher name (`equals`, `throwsA`...), 'literal' for plain values
+  line: number;
+}
+
+export interface TestCase {
+  name: string;
+  kind: string; // The test function used: test, testWidgets, blocTest...
+  lineStart: number;
+  lineEnd: number;
+  start: number;
+  end: number;
+  assertions: TestAssertion[];
+}
+
+export type ReceiverKind = 'variable' | 'construction' | 'expression' | 'none';
+
+export interface MemberAccess {
+  member: string; // `fetchUser`, `operator +`...
+  receiver: string; // Variable, constructed class or expression root ('' for bare calls)
+  receiverKind: ReceiverKind;
+  isCall: boolean;
+  isWrite: boolean; // Assigned to, so it reaches a setter rather than a getter
+  inStub: boolean; // Inside when(...) / verify(...) and friends
+  line: number;
+  offset: number;
+}
+
+export type ReceiverRole = 'sut' | 'mock' | 'unknown';
+
+export interface TestFileModel {
+  tests: TestCase[];
+  mockClasses: Set<string>;
+  variables: Map<string, { declaredTypes: Set<string>; constructedTypes: Set<string> }>;
+  bindings: { name: string; type: string; start: number; end: number }[]; // blocTest callback parameters
+  accesses: MemberAccess[];
+}
+
+// The function being looked for, as produced by parseDartFunctions
+export interface TestTarget {
+  name: string;
+  kind: DartMemberKind;
+  owner: string;
+  ownerKind: OwnerKind;
+  isStatic: boolean;
+}
+
+export interface CallSite {
+  test: TestCase | null; // null when the call is outside any test body (e.g. setUp)
+  receiver: string;
+  line: number;
+}
+
+const TEST_FUNCTIONS = new Set(['test', 'testWidgets', 'blocTest', 'testGoldens', 'goldenTest', 'patrolTest']);
+const STUB_FUNCTIONS = new Set(['when', 'verify', 'verifyNever', 'verifyInOrder', 'untilCalled', 'whenListen', 'verifyZeroInteractions', 'verifyNoMoreInteractions']);
+const BLOC_TEST_CALLBACKS = new Set(['act', 'verify', 'errors']);
+const VERIFY_FUNCTIONS = new Set(['verify', 'verifyNever', 'verifyInOrder', 'verifyZeroInteractions', 'verifyNoMoreInteractions']);
+const BINARY_OPERATORS = new Set(['+', '-', '*', '/', '~/', '%', '<', '>', '<=', '^', '&', '|', '<<']);
+const DOTS = new Set(['.', '?.', '..', '?..']);
+const CASCADES = new Set(['..', '?..']);
+const ASSIGNMENTS = new Set(['=', '+=', '-=', '*=', '/=', '~/=', '%=', '&=', '|=', '^=', '<<=', '??=']);
+const MOCK_BASE_PATTERN = /^(Mock|Fake|MockBloc|MockCubit)\b/;
+
+const isTypeName = (value: string | undefined) => !!value && /^_?[A-Z]/.test(value);
+
+const unquote = (literal: string) =>
+  literal.replace(/^r/, '').replace(/^('''|"""|'|")/, '').replace(/('''|"""|'|")$/, '');
+
+// Index of the `>` closing the `<` at `index`, or `index` if unbalanced
+const skipTypeArguments = (tokens: DartToken[], index: number): number => {
+  let depth = 0;
+  for (let k = index; k < tokens.length; k++) {
+    const v = tokens[k].value;
+    if (v === '<') depth++;
+    else if (v === '>') {
+      depth--;
+      if (depth === 0) return k;
+    } else if (v === ';' || v === '{' || v === '}') {
+      break;
+    }
+  }
+  return index;
+};
+
+// Adds the class names generated by mockito's @GenerateMocks / @GenerateNiceMocks
+const collectGeneratedMocks = (tokens: DartToken[], into: Set<string>) => {
+  tokens.forEach((token, i) => {
+    if (token.value !== '@' || !['GenerateMocks', 'GenerateNiceMocks'].includes(tokens[i + 1]?.value) || tokens[i + 2]?.value !== '(') return;
+    const close = findClosingToken(tokens, i + 2);
+
+    for (let k = i + 3; k < close; k++) {
+      const t = tokens[k];
+      if (t.value === 'MockSpec' && tokens[k + 1]?.value === '<') {
+        const typeName = tokens[k + 2]?.value;
+        const angleClose = skipTypeArguments(tokens, k + 1);
+        let customName: string | undefined;
+        if (tokens[angleClose + 1]?.value === '(') {
+          const specClose = findClosingToken(tokens, angleClose + 1);
+          for (let q = angleClose + 2; q < specClose; q++) {
+            if (tokens[q].value === 'as' && tokens[q + 1]?.value === ':' && tokens[q + 2]?.value === '#') {
+              customName = tokens[q + 3]?.value;
+            }
+          }
+          k = specClose;
+        }
+        into.add(customName || `Mock${typeName}`);
+      } else if (t.type === 'identifier' && isTypeName(t.value) && ['[', ','].includes(tokens[k - 1]?.value)) {
+        into.add(`Mock${t.value}`);
+      }
+    }
+  });
+};
+
+/**
+ * Analyzes a Dart test file once so that many functions can be matched against it
+ */
+export const analyzeTestFile = (testCode: string): TestFileModel => {
+  const tokens = tokenizeDart(testCode);
+  const unit = parseDartSource(testCode);
+
+  const mockClasses = new Set(
+    unit.declarations
+      .filter(d => d.superclass && MOCK_BASE_PATTERN.test(d.superclass))
+      .map(d => d.name)
+  );
+  collectGeneratedMocks(tokens, mockClasses);
+
+  const valueAt = (i: number) => tokens[i]?.value;
+  const isIdent = (i: number) => tokens[i]?.type === 'identifier';
+
+  // Index of the `(` of a call whose callee is at `i` (skipping type arguments)
+  const callOpenAfter = (i: number): number => {
+    let k = i + 1;
+    if (valueAt(k) === '<') k = skipTypeArguments(tokens, k) + 1;
+    return valueAt(k) === '(' ? k : -1;
+  };
+
+  // Matcher of the second argument of the expect call opened at `open`
+  const matcherOf = (open: number, close: number): string => {
+    let k = open + 1;
+    while (k < close && valueAt(k) !== ',') {
+      k = tokens[k].type === 'symbol' && ['(', '[', '{'].includes(valueAt(k)) ? findClosingToken(tokens, k) + 1 : k + 1;
+    }
+    k++;
+    while (valueAt(k) === 'const') k++;
+    if (k >= close) return 'none';
+    return isIdent(k) && (!DOTS.has(valueAt(k + 1)) || isTypeName(valueAt(k))) ? valueAt(k) : 'literal';
+  };
+
+  const collectAssertions = (open: number, close: number, isBlocTest: boolean): TestAssertion[] => {
+    const assertions: TestAssertion[] = [];
+    for (let k = open + 1; k < close; k++) {
+      const v = valueAt(k);
+      if (!isIdent(k) || DOTS.has(valueAt(k - 1))) continue;
+
+      if ((v === 'expect' || v === 'expectLater') && valueAt(k + 1) === '(') {
+        const callClose = findClosingToken(tokens, k + 1);
+        assertions.push({ kind: v, matcher: matcherOf(k + 1, callClose), line: tokens[k].line });
+      } else if (VERIFY_FUNCTIONS.has(v) && valueAt(k + 1) === '(') {
+        assertions.push({ kind: 'verify', matcher: v, line: tokens[k].line });
+      } else if (isBlocTest && valueAt(k + 1) === ':' && (v === 'expect' || v === 'errors' || v === 'verify')) {
+        const kind: AssertionKind = v === 'expect' ? 'blocExpect' : v === 'errors' ? 'blocErrors' : 'verify';
+        assertions.push({ kind, matcher: v, line: tokens[k].line });
+      }
+    }
+    return assertions;
+  };
+
+  // 1. Test cases and stubbing contexts
+  const tests: TestCase[] = [];
+  const stubRanges: [number, number][] = [];
+  const bindings: TestFileModel['bindings'] = [];
+
+  tokens.forEach((token, i) => {
+    if (token.type !== 'identifier' || DOTS.has(valueAt(i - 1))) return;
+
+    if (STUB_FUNCTIONS.has(token.value) && valueAt(i + 1) === '(') {
+      const close = findClosingToken(tokens, i + 1);
+      stubRanges.push([tokens[i + 1].start, tokens[close].end]);
+      return;
+    }
+
+    if (!TEST_FUNCTIONS.has(token.value)) return;
+    const open = callOpenAfter(i);
+    if (open < 0) return;
+    const close = findClosingToken(tokens, open);
+    const nameToken = tokens[open + 1];
+
+    const testCase: TestCase = {
+      name: nameToken?.type === 'string' ? unquote(nameToken.value) : '(unnamed)',
+      kind: token.value,
+      lineStart: token.line,
+      lineEnd: tokens[close].endLine,
+      start: token.start,
+      end: tokens[close].end,
+      assertions: collectAssertions(open, close, token.value === 'blocTest'),
+    };
+    tests.push(testCase);
+
+    if (token.value === 'blocTest') {
+      // The subject is the first type argument, or whatever `build:` constructs
+      let subject = valueAt(i + 1) === '<' ? valueAt(i + 2) : undefined;
+      for (let k = open + 1; k < close && !subject; k++) {
+        if (valueAt(k) === 'build' && valueAt(k + 1) === ':') {
+          for (let q = k + 2; q < close; q++) {
+            if (isIdent(q) && isTypeName(valueAt(q)) && (valueAt(q + 1) === '(' || valueAt(q + 1) === '.')) {
+              subject = valueAt(q);
+              break;
+            }
+          }
+        }
+      }
+      if (!subject) return;
+
+      for (let k = open + 1; k < close; k++) {
+        if (BLOC_TEST_CALLBACKS.has(valueAt(k)) && valueAt(k + 1) === ':' && valueAt(k + 2) === '(' && isIdent(k + 3)) {
+          bindings.push({ name: valueAt(k + 3), type: subject, start: testCase.start, end: testCase.end });
+        }
+      }
+    }
+  });
+
+  // 2. What each variable is declared as and assigned from
+  const variables: TestFileModel['variables'] = new Map();
+  const evidenceFor = (name: string) => {
+    let evidence = variables.get(name);
+    if (!evidence) {
+      evidence = { declaredTypes: new Set(), constructedTypes: new Set() };
+      variables.set(name, evidence);
+    }
+    return evidence;
+  };
+
+  tokens.forEach((token, i) => {
+    if (token.type !== 'identifier') return;
+
+    // `Type name;` / `Type<T>? name = ...`
+    if (isTypeName(token.value) && !DOTS.has(valueAt(i - 1))) {
+      let k = i + 1;
+      if (valueAt(k) === '<') k = skipTypeArguments(tokens, k) + 1;
+      if (valueAt(k) === '?') k++;
+      if (isIdent(k) && [';', '=', ',', ')'].includes(valueAt(k + 1))) {
+        evidenceFor(valueAt(k)).declaredTypes.add(token.value);
+      }
+    }
+
+    // `name = Type(...)`, `name = Type.named(...)`, `name = Enum.value`
+    if ((valueAt(i + 1) === '=' || valueAt(i + 1) === '??=') && !DOTS.has(valueAt(i - 1))) {
+      let k = i + 2;
+      while (['const', 'new', 'await'].includes(valueAt(k))) k++;
+      if (isIdent(k) && isTypeName(valueAt(k)) && ['(', '.', '<'].includes(valueAt(k + 1))) {
+        evidenceFor(token.value).constructedTypes.add(valueAt(k));
+      }
+    }
+  });
+
+  // 3. Every member access with its receiver
+  const rootOf = (i: number): string => {
+    let k = i;
+    while (DOTS.has(valueAt(k - 1)) && isIdent(k - 2)) k -= 2;
+    return isIdent(k) ? valueAt(k) : '';
+  };
+
+  const resolveReceiver = (dot: number): { kind: ReceiverKind; name: string } => {
+    let prev = dot - 1;
+    if (valueAt(prev) === '!') prev--;
+    const isCascade = CASCADES.has(valueAt(dot));
+
+    if (isIdent(prev)) {
+      const before = valueAt(prev - 1);
+      if (isCascade && CASCADES.has(before)) return resolveReceiver(prev - 1);
+      if (DOTS.has(before)) return { kind: 'expression', name: rootOf(prev) };
+      return { kind: 'variable', name: valueAt(prev) };
+    }
+
+    if (valueAt(prev) === ')') {
+      let callee = findOpeningToken(tokens, prev) - 1;
+      if (valueAt(callee) === '>') {
+        // Walk back over explicit type arguments: Foo<T>(...)
+        let depth = 0;
+        for (let q = callee; q >= 0; q--) {
+          if (valueAt(q) === '>') depth++;
+          else if (valueAt(q) === '<' && --depth === 0) {
+            callee = q - 1;
+            break;
+          }
+        }
+      }
+      const beforeCallee = valueAt(callee - 1);
+      if (isCascade && CASCADES.has(beforeCallee)) return resolveReceiver(callee - 1);
+      if (isIdent(callee) && isTypeName(valueAt(callee)) && !DOTS.has(beforeCallee)) {
+        return { kind: 'construction', name: valueAt(callee) };
+      }
+      if (isIdent(callee) && beforeCallee === '.' && isIdent(callee - 2) && isTypeName(valueAt(callee - 2)) && !DOTS.has(valueAt(callee - 3))) {
+        return { kind: 'construction', name: valueAt(callee - 2) };
+      }
+      return { kind: 'expression', name: isIdent(callee) ? rootOf(callee) : '' };
+    }
+
+    return { kind: 'expression', name: '' };
+  };
+
+  const isInStub = (offset: number) => stubRanges.some(([start, end]) => offset >= start && offset < end);
+  const accesses: MemberAccess[] = [];
+
+  tokens.forEach((token, i) => {
+    if (token.type !== 'identifier') return;
+    const prev = valueAt(i - 1);
+    const next = valueAt(i + 1);
+
+    if (DOTS.has(prev)) {
+      const receiver = resolveReceiver(i - 1);
+      accesses.push({
+        member: token.value,
+        receiver: receiver.name,
+        receiverKind: receiver.kind,
+        isCall: callOpenAfter(i) >= 0,
+        isWrite: ASSIGNMENTS.has(next) && tokens[i + 1].type === 'symbol',
+        inStub: isInStub(token.start),
+        line: token.line,
+        offset: token.start,
+      });
+      return;
+    }
+
+    const open = callOpenAfter(i);
+    if (open >= 0) {
+      // Skip local function declarations: `Type name(...) {` / `=> ...`
+      const after = valueAt(findClosingToken(tokens, open) + 1);
+      const isDeclaration = (isIdent(i - 1) || prev === '>' || prev === '?') && ['{', '=>', 'async'].includes(after);
+      if (!isDeclaration) {
+        accesses.push({
+          member: token.value,
+          receiver: '',
+          receiverKind: 'none',
+          isCall: true,
+          isWrite: false,
+          inStub: isInStub(token.start),
+          line: token.line,
+          offset: token.start,
+        });
+      }
+      return;
+    }
+
+    // Operators used directly on a variable: `sut + other`, `sut[0]`, `sut[0] = x`
+    if (next === '[' || (BINARY_OPERATORS.has(next) && tokens[i + 1].type === 'symbol')) {
+      let member = `operator ${next}`;
+      if (next === '[') {
+        member = valueAt(findClosingToken(tokens, i + 1) + 1) === '=' ? 'operator []=' : 'operator []';
+      } else if (next === '>' && valueAt(i + 2) === '=' && tokens[i + 2].start === tokens[i + 1].end) {
+        member = 'operator >=';
+      }
+      accesses.push({
+        member,
+        receiver: token.value,
+        receiverKind: 'variable',
+        isCall: true,
+        isWrite: false,
+        inStub: isInStub(token.start),
+        line: token.line,
+        offset: token.start,
+      });
+    }
+  });
+
+  return { tests, mockClasses, variables, bindings, accesses };
+};
+
+const isMockType = (model: TestFileModel, typeName: string) =>
+  model.mockClasses.has(typeName) || /^(Mock|Fake)[A-Z_]/.test(typeName);
+
+/**
+ * Decides whether the receiver of an access holds the SUT of type `owner`,
+ * a mock, or something else
+ */
+export const receiverRole = (model: TestFileModel, access: MemberAccess, owner: string): ReceiverRole => {
+  const roleOfTypes = (types: Iterable<string>): ReceiverRole => {
+    const list = [...types];
+    if (list.includes(owner)) return 'sut';
+    if (list.some(t => isMockType(model, t))) return 'mock';
+    return 'unknown';
+  };
+
+  if (access.receiverKind === 'construction') return roleOfTypes([access.receiver]);
+  if (access.receiverKind !== 'variable') return 'unknown';
+
+  const binding = model.bindings.find(b => b.name === access.receiver && access.offset >= b.start && access.offset < b.end);
+  if (binding) return roleOfTypes([binding.type]);
+
+  const evidence = model.variables.get(access.receiver);
+  if (!evidence) return 'unknown';
+  return roleOfTypes(evidence.constructedTypes.size > 0 ? evidence.constructedTypes : evidence.declaredTypes);
+};
+
+/**
+ * Finds where `target` is exercised on the SUT, and where it is only stubbed on a mock
+ */
+export const findCallSites = (model: TestFileModel, target: TestTarget): { calls: CallSite[]; stubs: CallSite[] } => {
+  const calls: CallSite[] = [];
+  const stubs: CallSite[] = [];
+  const [factoryOwner, factoryName] = target.kind === 'factory' && target.name.includes('.')
+    ? target.name.split('.')
+    : [target.owner, ''];
+
+  const toCallSite = (access: MemberAccess): CallSite => ({
+    test: model.tests.find(t => access.offset >= t.start && access.offset < t.end) || null,
+    receiver: access.receiverKind === 'construction' ? `${access.receiver}()` : access.receiver,
+    line: access.line,
+  });
+
+  for (const access of model.accesses) {
+    let counts = false;
+
+    if (target.kind === 'function') {
+      counts = access.receiverKind === 'none' && access.member === target.name;
+    } else if (target.kind === 'factory') {
+      counts = factoryName
+        ? access.receiverKind === 'variable' && access.receiver === factoryOwner && access.member === factoryName
+        : access.receiverKind === 'none' && access.member === target.owner;
+    } else if (access.member !== target.name || access.isWrite !== (target.kind === 'setter')) {
+      // A getter and a setter share a name; only an assignment reaches the setter
+      continue;
+    } else if (target.isStatic) {
+      counts = access.receiverKind === 'variable' && access.receiver === target.owner;
+    } else {
+      const role = receiverRole(model, access, target.owner);
+      if (role === 'mock') {
+        stubs.push(toCallSite(access));
+        continue;
+      }
+      if (target.ownerKind === 'extension' || target.ownerKind === 'mixin') {
+        // Any non-mock value can be the receiver of an extension or mixin member
+        counts = !access.inStub && access.receiverKind !== 'none';
+      } else if (target.ownerKind === 'enum') {
+        counts = role === 'sut' || (access.receiverKind === 'expression' && access.receiver === target.owner);
+      } else {
+        counts = role === 'sut';
+      }
+    }
+
+    if (counts) calls.push(toCallSite(access));
+  }
+
+  return { calls, stubs };
+};
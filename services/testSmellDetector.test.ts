@@ -0,0 +1,90 @@
+/**
+ * Test Smell Detector Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectTestSmells } from './testSmellDetector';
+
+const smellsOf = (code: string) => detectTestSmells(code).map(s => [s.kind, s.line, s.test]);
+
+describe('detectTestSmells', () => {
+  it('should flag tests without assertions, waits and prints', () => {
+    expect(smellsOf(`
+void main() {
+  test('loads', () async {
+    await repo.load();
+    print(repo.items);
+  });
+  test('waits', () async {
+    await Future.delayed(const Duration(seconds: 1));
+    sleep(const Duration(milliseconds: 10));
+    expect(repo.items, isEmpty);
+  });
+  test('checks with a helper', () {
+    expectItems(repo, 2);
+  });
+}`)).toEqual([
+      ['noAssertion', 3, 'loads'],
+      ['print', 5, 'loads'],
+      ['sleep', 8, 'waits'],
+      ['sleep', 9, 'waits'],
+    ]);
+  });
+
+  it('should flag skipped tests and empty setUp but not blocTest state skipping', () => {
+    expect(smellsOf(`
+void main() {
+  setUp(() {});
+  setUpAll(() async {
+    await init();
+  });
+  test('later', () { expect(1, 1); }, skip: 'flaky on CI');
+  test('runs', () { expect(1, 1); }, skip: false);
+  blocTest<CounterCubit, int>('skips initial', build: () => CounterCubit(), skip: 1, expect: () => [1]);
+}`)).toEqual([
+      ['emptySetUp', 3, undefined],
+      ['skipped', 7, 'later'],
+    ]);
+  });
+
+  it('should flag unawaited expectLater and pumpAndSettle in loops', () => {
+    expect(smellsOf(`
+void main() {
+  test('stream', () async {
+    expectLater(cubit.stream, emitsInOrder([1, 2]));
+    await expectLater(cubit.stream, emits(3));
+  });
+  test('returned', () => expectLater(cubit.stream, emits(1)));
+  testWidgets('taps', (tester) async {
+    for (var i = 0; i < 3; i++) {
+      await tester.tap(find.byIcon(Icons.add));
+      await tester.pumpAndSettle();
+    }
+    await tester.pumpAndSettle();
+    expect(find.text('3'), findsOneWidget);
+  });
+}`)).toEqual([
+      ['unawaitedExpectLater', 4, 'stream'],
+      ['pumpAndSettleInLoop', 11, 'taps'],
+    ]);
+  });
+
+  it('should flag duplicate test names within the same group only', () => {
+    expect(smellsOf(`
+void main() {
+  group('add', () {
+    test('works', () { expect(add(1, 1), 2); });
+    test('works', () { expect(add(2, 2), 4); });
+  });
+  group('subtract', () {
+    test('works', () { expect(sub(2, 1), 1); });
+  });
+}`)).toEqual([
+      ['duplicateName', 5, 'works'],
+    ]);
+  });
+
+  it('should report nothing for an empty file', () => {
+    expect(detectTestSmells('')).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Test Smell Detector
+ *
+ * Flags patterns in Dart test files that make tests pass without checking
+ * anything, slow them down or make them flaky. Works on the same token
+ * stream and test cases as the test file analyzer.
+ */
+
+import { DartToken, findClosingToken, tokenizeDart } from './dartParser';
+import { TestCase, TestFileModel, analyzeTestFile } from './testFileAnalyzer';
+import type { TestSmell, TestSmellKind } from '../types';
+
+const DOTS = new Set(['.', '?.', '..', '?..']);
+const SETUP_FUNCTIONS = new Set(['setUp', 'setUpAll']);
+const LOOP_KEYWORDS = new Set(['for', 'while']);
+// Golden helpers assert on their own; custom `expectFoo` / `verifyBar` helpers are trusted to assert
+const ASSERTING_CALL = /^(expect|verify)|^(screenMatchesGolden|multiScreenGolden)$/;
+
+const SMELL_MESSAGES: Record<TestSmellKind, string> = {
+  noAssertion: 'Test has no expect or verify, so it only fails if the code throws',
+  sleep: 'Real-time wait slows the suite and is flaky; use fake_async, tester.pump(duration) or a Completer',
+  print: 'print output is noise in test logs; assert on the value instead',
+  skipped: 'Skipped test never runs',
+  emptySetUp: 'Empty setUp does nothing and can be removed',
+  unawaitedExpectLater: 'expectLater is not awaited, so the test can finish before the assertion runs',
+  pumpAndSettleInLoop: 'pumpAndSettle inside a loop waits for every animation on each pass; pump once after the loop',
+  duplicateName: 'Another test in the same group has this name, so failures are ambiguous',
+};
+
+// Start and end offsets of the braced bodies of for, while and do loops
+const loopBodies = (tokens: DartToken[]): [number, number][] => {
+  const bodies: [number, number][] = [];
+  tokens.forEach((token, i) => {
+    let open = -1;
+    if (LOOP_KEYWORDS.has(token.value) && tokens[i + 1]?.value === '(') {
+      open = findClosingToken(tokens, i + 1) + 1;
+    } else if (token.value === 'do') {
+      open = i + 1;
+    }
+    if (open < 0 || tokens[open]?.value !== '{') return;
+    bodies.push([tokens[open].start, tokens[findClosingToken(tokens, open)].end]);
+  });
+  return bodies;
+};
+
+// Start and end offsets of every group(...) call, outermost first
+const groupRanges = (tokens: DartToken[]): [number, number][] =>
+  tokens.flatMap((token, i): [number, number][] =>
+    token.value === 'group' && !DOTS.has(tokens[i - 1]?.value) && tokens[i + 1]?.value === '('
+      ? [[token.start, tokens[findClosingToken(tokens, i + 1)].end]]
+      : []
+  );
+
+/**
+ * Finds smells in a test file, ordered by line
+ */
+export const detectTestSmells = (testCode: string, model: TestFileModel = analyzeTestFile(testCode)): TestSmell[] => {
+  const tokens = tokenizeDart(testCode);
+  const smells: TestSmell[] = [];
+  const valueAt = (i: number) => tokens[i]?.value;
+  const isCall = (i: number) => tokens[i].type === 'identifier' && !DOTS.has(valueAt(i - 1)) && valueAt(i + 1) === '(';
+
+  const testAt = (offset: number): TestCase | undefined =>
+    model.tests.find(test => offset >= test.start && offset < test.end);
+  const add = (kind: TestSmellKind, line: number, offset: number) => {
+    const test = testAt(offset);
+    smells.push(test ? { kind, line, message: SMELL_MESSAGES[kind], test: test.name } : { kind, line, message: SMELL_MESSAGES[kind] });
+  };
+
+  const loops = loopBodies(tokens);
+  const inLoop = (offset: number) => loops.some(([start, end]) => offset >= start && offset < end);
+
+  tokens.forEach((token, i) => {
+    const v = token.value;
+
+    if (v === 'delayed' && valueAt(i - 1) === '.' && valueAt(i - 2) === 'Future') {
+      add('sleep', token.line, token.start);
+    } else if (v === 'sleep' && isCall(i)) {
+      add('sleep', token.line, token.start);
+    } else if ((v === 'print' || v === 'debugPrint') && isCall(i)) {
+      add('print', token.line, token.start);
+    } else if (v === 'skip' && valueAt(i + 1) === ':' && !['false', 'null'].includes(valueAt(i + 2))) {
+      // blocTest's `skip:` counts emitted states to ignore
+      if (testAt(token.start)?.kind !== 'blocTest') add('skipped', token.line, token.start);
+    } else if (v === 'expectLater' && isCall(i) && !['await', 'return', '=>'].includes(valueAt(i - 1))) {
+      add('unawaitedExpectLater', token.line, token.start);
+    } else if (v === 'pumpAndSettle' && DOTS.has(valueAt(i - 1)) && inLoop(token.start)) {
+      add('pumpAndSettleInLoop', token.line, token.start);
+    } else if (SETUP_FUNCTIONS.has(v) && isCall(i)) {
+      // setUp(() {}) and setUp(() async {})
+      let k = i + 2;
+      if (valueAt(k) === '(' && valueAt(k + 1) === ')') k += 2;
+      if (valueAt(k) === 'async') k++;
+      if (valueAt(k) === '{' && valueAt(k + 1) === '}') add('emptySetUp', token.line, token.start);
+    }
+  });
+
+  for (const test of model.tests) {
+    const body = tokens.filter(t => t.start > test.start && t.end <= test.end);
+    const asserts = test.assertions.length > 0 || body.some((t, k) => t.type === 'identifier' && ASSERTING_CALL.test(t.value) && body[k + 1]?.value === '(');
+    if (!asserts) add('noAssertion', test.lineStart, test.start);
+  }
+
+  // Tests belong to the innermost group around them
+  const groups = groupRanges(tokens);
+  const seen = new Set<string>();
+  for (const test of model.tests.filter(t => t.name !== '(unnamed)')) {
+    const group = groups.filter(([start, end]) => test.start > start && test.end <= end).pop();
+    const key = `${group?.[0] ?? -1}\n${test.name}`;
+    if (seen.has(key)) add('duplicateName', test.lineStart, test.start);
+    seen.add(key);
+  }
+
+  return smells.sort((a, b) => a.line - b.line);
+};
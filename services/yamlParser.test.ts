@@ -0,0 +1,44 @@
+/**
+ * YAML Subset Parser Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseYaml } from './yamlParser';
+
+describe('parseYaml', () => {
+  it('should read nested mappings, sequences and scalars', () => {
+    const yaml = [
+      'name: "shop" # quoted',
+      'version: 1.10',
+      'homepage: https://example.com/#/shop',
+      'description: >-',
+      '  A shop',
+      '  # not a comment',
+      'environment:',
+      "  sdk: '>=3.0.0 <4.0.0'",
+      'platforms: { android: ~, ios: {} }',
+      'topics:',
+      '- retail',
+      '- [a, "b, c"]',
+      'screenshots:',
+      '  - description: Cart',
+      '    path: docs/cart.png',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      name: 'shop',
+      version: '1.10',
+      homepage: 'https://example.com/#/shop',
+      description: 'A shop # not a comment',
+      environment: { sdk: '>=3.0.0 <4.0.0' },
+      platforms: { android: null, ios: {} },
+      topics: ['retail', ['a', 'b, c']],
+      screenshots: [{ description: 'Cart', path: 'docs/cart.png' }],
+    });
+  });
+
+  it('should skip comments and malformed lines', () => {
+    expect(parseYaml('# header\na:\n  # b: 1\n  c: 2\n    stray\n  ] nope\nd:\n')).toEqual({ a: { c: '2 stray' }, d: null });
+    expect(parseYaml('')).toBeNull();
+  });
+});
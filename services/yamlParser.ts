@@ -0,0 +1,195 @@
+/**
+ * YAML Subset Parser
+ *
+ * Enough YAML for pubspec.yaml and similar config files: block mappings and
+ * sequences, comments, quoted and plain scalars, block scalars and one-line
+ * flow collections. Anchors, tags and multiple documents are not supported.
+ * Scalars stay strings so version constraints such as 1.10 keep their text.
+ */
+
+export type YamlValue = string | null | YamlValue[] | YamlMap;
+
+export interface YamlMap {
+  [key: string]: YamlValue;
+}
+
+interface YamlLine {
+  indent: number;
+  text: string;
+}
+
+const indentOf = (line: string): number => line.length - line.trimStart().length;
+
+const isSequenceItem = (text: string): boolean => text === '-' || text.startsWith('- ');
+
+// A '#' only starts a comment at the line start or after whitespace, and never inside quotes
+const stripComment = (line: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if ((char === '"' || char === "'") && (i === 0 || /[\s[{,]/.test(line[i - 1]))) {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+};
+
+// Splits flow collection items on top-level commas
+const splitFlow = (body: string): string[] => {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(body.slice(start));
+  return items.map(item => item.trim()).filter(item => item !== '');
+};
+
+const parseScalar = (text: string): string | null => {
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+  if (text.length >= 2 && text.startsWith("'") && text.endsWith("'")) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text === '' || text === '~' || text === 'null') return null;
+  return text;
+};
+
+/**
+ * Splits `key: value` into its parts, or null when the text is not a mapping entry.
+ * Only a colon followed by whitespace or the line end separates the key, so URLs stay whole.
+ */
+const splitEntry = (text: string): { key: string; rest: string } | null => {
+  const match = text.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#][^:]*?)\s*:(?:\s+(.*))?$/);
+  if (!match) return null;
+  return { key: parseScalar(match[1]) ?? '', rest: (match[2] ?? '').trim() };
+};
+
+const parseInline = (text: string): YamlValue => {
+  if (text.startsWith('[') && text.endsWith(']')) {
+    return splitFlow(text.slice(1, -1)).map(parseInline);
+  }
+  if (text.startsWith('{') && text.endsWith('}')) {
+    const map: YamlMap = {};
+    for (const item of splitFlow(text.slice(1, -1))) {
+      const entry = splitEntry(item);
+      if (entry) map[entry.key] = parseInline(entry.rest);
+    }
+    return map;
+  }
+  return parseScalar(text);
+};
+
+/**
+ * Parses a YAML document. Malformed lines are skipped rather than rejected,
+ * so a partly broken file still yields whatever could be read.
+ */
+export const parseYaml = (content: string): YamlValue => {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  let pos = 0;
+
+  // Next line with content, skipping blanks, comments and document markers
+  const peek = (): YamlLine | null => {
+    while (pos < lines.length) {
+      const text = stripComment(lines[pos]).trimEnd();
+      if (text.trim() !== '' && text !== '---') return { indent: indentOf(text), text: text.trim() };
+      pos++;
+    }
+    return null;
+  };
+
+  const parseBlock = (indent: number): YamlValue =>
+    isSequenceItem(peek()?.text ?? '') ? parseSequence(indent) : parseMapping(indent);
+
+  const parseBlockScalar = (indent: number, literal: boolean): string => {
+    const body: string[] = [];
+    while (pos < lines.length && (lines[pos].trim() === '' || indentOf(lines[pos]) > indent)) {
+      body.push(lines[pos++]);
+    }
+    const margin = Math.min(...body.filter(line => line.trim() !== '').map(indentOf));
+    return body.map(line => line.slice(margin)).join(literal ? '\n' : ' ').trim();
+  };
+
+  const parseValue = (rest: string, indent: number): YamlValue => {
+    if (rest === '') {
+      const next = peek();
+      // Sequences may sit at the same indent as their key
+      if (next && (next.indent > indent || (next.indent === indent && isSequenceItem(next.text)))) {
+        return parseBlock(next.indent);
+      }
+      return null;
+    }
+    if (/^[|>][-+0-9]*$/.test(rest)) return parseBlockScalar(indent, rest.startsWith('|'));
+    if (/^["'[{]/.test(rest)) return parseInline(rest);
+
+    // Plain scalars may continue on more deeply indented lines
+    let text = rest;
+    for (let next = peek(); next && next.indent > indent; next = peek()) {
+      text += ` ${next.text}`;
+      pos++;
+    }
+    return parseScalar(text);
+  };
+
+  const parseMapping = (indent: number): YamlMap => {
+    const map: YamlMap = {};
+    for (let line = peek(); line && line.indent >= indent; line = peek()) {
+      const entry = line.indent === indent ? splitEntry(line.text) : null;
+      if (line.indent === indent && isSequenceItem(line.text)) break;
+      pos++;
+      if (entry) map[entry.key] = parseValue(entry.rest, indent);
+    }
+    return map;
+  };
+
+  const parseSequence = (indent: number): YamlValue[] => {
+    const items: YamlValue[] = [];
+    for (let line = peek(); line && line.indent === indent && isSequenceItem(line.text); line = peek()) {
+      const rest = line.text.slice(1).trimStart();
+      if (splitEntry(rest) && !/^["'[{]/.test(rest)) {
+        // "- key: value" opens a mapping aligned with the text after the dash
+        const column = indent + line.text.length - rest.length;
+        lines[pos] = ' '.repeat(column) + rest;
+        items.push(parseMapping(column));
+      } else {
+        pos++;
+        items.push(parseValue(rest, indent));
+      }
+    }
+    return items;
+  };
+
+  const first = peek();
+  if (!first) return null;
+  if (first.indent === 0 && !isSequenceItem(first.text) && !splitEntry(first.text)) return parseInline(first.text);
+  return parseBlock(first.indent);
+};
+
+/**
+ * Reads a value as a mapping, treating anything else as empty.
+ */
+export const asYamlMap = (value: YamlValue | undefined): YamlMap =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) ? value : {};
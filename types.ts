@@ -6,16 +6,69 @@ export enum AnalysisStatus {
   ERROR = 'ERROR',
   GENERATING_CODE = 'GENERATING_CODE',
   LOADING_REPO = 'LOADING_REPO',
-  FETCHING_DEPS = 'FETCHING_DEPS'
+  FETCHING_DEPS = 'FETCHING_DEPS',
+  SCANNING_REPO = 'SCANNING_REPO',
+  ANALYZING_PR = 'ANALYZING_PR',
+  COMPARING_REFS = 'COMPARING_REFS',
+  BUILDING_GRAPH = 'BUILDING_GRAPH'
 }
 
 export type ArchitectureType = 'bloc' | 'cubit' | 'repository' | 'datasource' | 'widget' | 'model' | 'util' | 'generic';
 
+// The declaration a function belongs to ('topLevel' for library functions)
+export type OwnerKind = 'class' | 'mixin' | 'extension' | 'extensionType' | 'enum' | 'topLevel';
+
+// How thoroughly a function's tests check it, beyond merely calling it
+export type CoverageStrength = 'none' | 'weak' | 'partial' | 'strong';
+
+export type StrengthBreakdown = Record<CoverageStrength, number>;
+
+// Where the static estimate and measured lcov coverage contradict each other
+export type CoverageDisagreement = 'staticOnly' | 'measuredOnly';
+
+export interface FunctionLineCoverage {
+  linesFound: number; // Instrumented lines inside the function span
+  linesHit: number;
+  isCovered: boolean;
+}
+
 export interface FunctionMetadata {
   name: string;
   signature: string;
   isTested: boolean;
+  strength: CoverageStrength;
+  strengthScore: number; // 0-100, built from test count, assertions, matcher specificity and error paths
   reason?: string;
+  owner: string; // Owning declaration name, empty for top-level functions
+  ownerKind: OwnerKind;
+  isStatic: boolean;
+  isSetter: boolean; // A setter shares its name with the matching getter
+  lineStart: number;
+  lineEnd: number;
+  complexity: number; // Cyclomatic complexity of the body
+  measured?: FunctionLineCoverage; // From lcov.info, when available
+  disagreement?: CoverageDisagreement;
+}
+
+export interface DeclarationCoverage {
+  name: string;
+  kind: OwnerKind;
+  totalFunctions: number;
+  testedFunctions: number;
+  coveragePercentage: number;
+  strengthBreakdown: StrengthBreakdown;
+  functions: FunctionMetadata[];
+}
+
+export interface MeasuredCoverage {
+  source: string; // Path of the lcov.info the numbers came from
+  linesFound: number;
+  linesHit: number;
+  lineCoveragePercentage: number;
+  functionsMeasured: number;
+  functionsHit: number;
+  functionCoveragePercentage: number;
+  disagreements: number;
 }
 
 export interface AnalysisReport {
@@ -23,21 +76,53 @@ export interface AnalysisReport {
   totalFunctions: number;
   testedFunctions: number;
   coveragePercentage: number;
+  weightedCoveragePercentage: number; // Functions weighted by cyclomatic complexity
+  strengthBreakdown: StrengthBreakdown; // Function count per strength level
   functions: FunctionMetadata[];
+  declarations: DeclarationCoverage[]; // Same functions, grouped by owner
+  measured?: MeasuredCoverage;
+  testSmells: TestSmell[];
   summary: string;
   suggestions: string[];
 }
 
+export type TestSmellKind =
+  | 'noAssertion'
+  | 'sleep'
+  | 'print'
+  | 'skipped'
+  | 'emptySetUp'
+  | 'unawaitedExpectLater'
+  | 'pumpAndSettleInLoop'
+  | 'duplicateName';
+
+export interface TestSmell {
+  kind: TestSmellKind;
+  line: number; // 1-based line in the test file
+  message: string;
+  test?: string; // Name of the test it occurs in
+}
+
 export interface GeneratedTestResponse {
   code: string;
   explanation: string;
 }
 
 // GitHub & Project Structure Types
+export type SourceProviderKind = 'github' | 'gitlab' | 'bitbucket';
+
+export interface RepoLocation {
+  provider: SourceProviderKind;
+  owner: string; // GitLab groups may be nested, e.g. `group/subgroup`
+  repo: string;
+}
+
 export interface RepoFile {
   path: string;
   type: 'blob' | 'tree';
   url: string; // API URL to fetch content
+  sha?: string; // Blob SHA; equal SHAs mean identical content
+  size?: number; // Bytes, when the provider lists it
 }
 
 export type MatchType = 'exact' | 'fuzzy' | 'manual' | 'none';
@@ -48,10 +133,15 @@ export interface FilePair {
   libFile: RepoFile;
   testFile?: RepoFile;
   matchType: MatchType;
-  packageRoot: string; // Path to the nearest pubspec.yaml (for monorepos)
+  packageRoot: string; // Path to the nearest pubspec.yaml, or the owning workspace member (for monorepos)
+  packageName?: string; // Name from that package's pubspec.yaml
 }
 
 export interface PackageDependencies {
+  name?: string;
+  environment: { sdk?: string; flutter?: string }; // SDK constraints from the environment section
+  dependencies: Record<string, string>; // Package -> version constraint, or its source for sdk/path/git packages
+  devDependencies: Record<string, string>;
   hasMockito: boolean;
   hasMocktail: boolean;
   hasBlocTest: boolean;
@@ -59,6 +149,29 @@ export interface PackageDependencies {
   hasFreezed: boolean;
   hasAutoRoute: boolean;
   hasHive: boolean;
+  hasFlutterTest: boolean;
+  hasIntegrationTest: boolean;
+  hasGoldenToolkit: boolean;
+  hasAlchemist: boolean;
+  hasPatrol: boolean;
+  hasFakeAsync: boolean;
+  hasClock: boolean;
+  hasHttpMockAdapter: boolean;
+}
+
+export type GitRefType = 'branch' | 'tag' | 'commit';
+
+export interface GitRef {
+  name: string;
+  type: GitRefType;
+  sha: string; // Commit SHA the ref points to
+}
+
+export type WorkspaceKind = 'melos' | 'pub';
+
+export interface Workspace {
+  kind?: WorkspaceKind; // How members were declared; unset when every pubspec counts as a package
+  packages: Record<string, string>; // Package name -> package root, e.g. 'packages/core/' ('' for the repo root)
 }
 
 export interface RepoStructure {
@@ -66,14 +179,266 @@ export interface RepoStructure {
   unpairedTests: RepoFile[];
   packages: Record<string, PackageDependencies>; 
   rootPackageName: string;
+  workspace: Workspace;
   fileMap: Record<string, RepoFile>;
+  coverageFiles: RepoFile[]; // Committed lcov.info files
+  ref?: GitRef; // Commit the tree was read from, when loaded from a remote
+  treeStats?: TreeStats;
+}
+
+export interface CacheStats {
+  trees: number;
+  blobs: number;
+  bytes: number; // Approximate, from the serialized size of each entry
+}
+
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  resetAt: number; // Epoch milliseconds when the quota refills
+}
+
+export interface TreeStats {
+  totalFiles: number;
+  truncated: boolean; // GitHub truncated the recursive listing
+  complete: boolean; // False when walking the tree ran out of its request budget
+  requests: number;
+}
+
+// LCOV Coverage Types
+export interface LcovFileCoverage {
+  path: string; // Source path as resolved against the repository
+  lines: Record<number, number>; // Line number -> hit count
+  linesFound: number;
+  linesHit: number;
+}
+
+export interface LcovReport {
+  sources: string[]; // lcov.info files merged into this report
+  files: Record<string, LcovFileCoverage>;
 }
 
 export interface DeepAnalysisContext {
-  dependencyCode: Record<string, string>; // filename -> content
+  dependencyCode: Record<string, string>; // path -> content
   linterRules?: string;
 }
 
+// Import Graph Types
+export type ImportEdgeKind = 'import' | 'export' | 'part' | 'partOf';
+
+export interface ImportEdge {
+  from: string; // Repository path of the file with the directive
+  to: string;
+  kind: ImportEdgeKind;
+  conditional?: boolean; // One of the `if (...)` alternatives of a conditional import or export
+}
+
+export interface ImportGraph {
+  files: string[]; // Every file that was read, sorted
+  edges: ImportEdge[]; // Internal edges only; dart:, Flutter and pub packages are left out
+  unreadable: string[]; // Files that could not be fetched
+  ref?: string; // Commit SHA the graph was built from
+}
+
+export interface DependencyGraphNode {
+  id: string; // FilePair id (the lib file path)
+  label: string; // File name
+  functions: number; // Public functions, 0 until the repository is scanned
+  coverage: number | null; // Percentage, null until the repository is scanned
+  importedBy: number; // Lib files importing this one directly
+  dependents: number; // Lib files depending on it through any chain of imports
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface DependencyGraphLink {
+  source: string; // Importing node id
+  target: string;
+}
+
+export interface DependencyGraphLayout {
+  nodes: DependencyGraphNode[];
+  links: DependencyGraphLink[];
+  width: number;
+  height: number;
+}
+
+// Repository Scan Types
+export interface FileCoverageResult {
+  pairId: string;
+  path: string; // Production file path
+  packageRoot: string;
+  packageName?: string;
+  directory: string;
+  architectureType: ArchitectureType;
+  hasTestFile: boolean;
+  totalFunctions: number;
+  testedFunctions: number;
+  coveragePercentage: number;
+  strengthBreakdown: StrengthBreakdown;
+  complexity: number; // Summed cyclomatic complexity of the public functions
+  measured?: MeasuredCoverage;
+  error?: string; // Set when the file could not be fetched or analyzed
+}
+
+export interface CoverageRollup {
+  key: string; // Package root, directory or architecture type
+  label?: string; // Package name, for package rollups
+  files: number;
+  totalFunctions: number;
+  testedFunctions: number;
+  coveragePercentage: number;
+  strengthBreakdown: StrengthBreakdown;
+}
+
+export interface RepoCoverageReport {
+  files: FileCoverageResult[];
+  totals: CoverageRollup;
+  byPackage: CoverageRollup[];
+  byDirectory: CoverageRollup[];
+  byArchitecture: CoverageRollup[];
+  failedFiles: number;
+  scannedAt: string; // ISO timestamp
+}
+
+export interface ChurnReport {
+  commits: Record<string, number>; // Lib file path -> commits touching it in the window
+  since: string; // ISO timestamp
+  failed: number; // Files whose history could not be read
+}
+
+export interface FileRisk {
+  pairId: string;
+  path: string;
+  uncoveredFunctions: number;
+  complexity: number;
+  commits?: number; // Unset without churn data
+  score: number; // 0-100, relative to the riskiest file
+}
+
+export interface ScanProgress {
+  completed: number;
+  total: number;
+  current?: string; // Path of the file that just finished
+}
+
+// Pull Request Types
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  url: string; // Web URL of the pull request
+  baseRef: string;
+  headRef: string;
+  baseSha: string;
+  headSha: string;
+  headOwner: string; // Differs from the base owner for pull requests from forks
+  headRepo: string;
+}
+
+export type PullRequestFileStatus = 'added' | 'modified' | 'removed' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+
+export interface PullRequestFile {
+  path: string;
+  status: PullRequestFileStatus;
+  patch?: string; // Unified diff; GitHub omits it for very large changes
+  previousPath?: string;
+}
+
+export type FunctionChange = 'added' | 'modified';
+
+export interface ChangedFunction extends FunctionMetadata {
+  change: FunctionChange;
+}
+
+export interface PullRequestFileReport {
+  path: string;
+  status: PullRequestFileStatus;
+  pairId?: string;
+  hasTestFile: boolean;
+  testChanged: boolean; // The paired test file is part of the same pull request
+  changedFunctions: ChangedFunction[];
+  untestedFunctions: number;
+  error?: string;
+}
+
+export interface PullRequestReport {
+  pullRequest: PullRequestInfo;
+  files: PullRequestFileReport[];
+  skippedFiles: string[]; // Changed paths that are not analyzable lib files
+  changedFunctions: number;
+  untestedFunctions: number;
+}
+
+// Ref Comparison Types
+export type FunctionDiffStatus = 'added' | 'removed' | 'newlyCovered' | 'newlyUncovered' | 'unchanged';
+
+export interface FunctionDiff {
+  key: string; // Owner kind, owner and name
+  name: string;
+  owner: string;
+  ownerKind: OwnerKind;
+  status: FunctionDiffStatus;
+  base?: FunctionMetadata;
+  head?: FunctionMetadata;
+}
+
+export interface FileComparison {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  base?: AnalysisReport;
+  head?: AnalysisReport;
+  coverageDelta: number; // Head minus base coverage percentage
+  functions: FunctionDiff[];
+  error?: string;
+}
+
+export interface RefComparison {
+  base?: GitRef;
+  head?: GitRef;
+  files: FileComparison[]; // Only pairs whose production or test file differs
+  unchangedFiles: number;
+  summary: Record<FunctionDiffStatus, number>;
+}
+
+// Coverage Gate Types
+export interface CoverageThresholds {
+  global?: number; // Minimum repo-wide coverage percentage
+  packages?: Record<string, number>; // Package root or name -> minimum
+  architectures?: Partial<Record<ArchitectureType, number>>;
+}
+
+export interface BaselineEntry {
+  testedFunctions: number;
+  totalFunctions: number;
+  coveragePercentage: number;
+}
+
+export interface CoverageBaseline {
+  version: 1;
+  generatedAt: string;
+  totals: BaselineEntry;
+  packages: Record<string, BaselineEntry>;
+  architectures: Record<string, BaselineEntry>;
+  files: Record<string, BaselineEntry>;
+}
+
+export type GateScope = 'total' | 'package' | 'architecture' | 'file';
+
+export interface GateViolation {
+  kind: 'threshold' | 'regression';
+  scope: GateScope;
+  key: string;
+  actual: number;
+  expected: number;
+  message: string;
+}
+
+export interface GateResult {
+  passed: boolean;
+  violations: GateViolation[];
+}
+
 // OAuth Types
 export interface OAuthConfig {
   clientId: string;
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Bundles the headless CLI for Node; the web app keeps using vite.config.ts
+export default defineConfig({
+  build: {
+    ssr: 'cli/sentinel.ts',
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'sentinel.js',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+});